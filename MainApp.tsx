@@ -1,30 +1,96 @@
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { marked } from 'marked';
-import { reviewCode } from './services/geminiService';
-import { fetchRepoFileTree, getFileContent, parseGitHubUrl } from './services/githubService';
-import { PROGRAMMING_LANGUAGES, isReviewableFile, getLanguageForFile } from './constants';
+import { reviewCode } from './services/reviewService';
+import { LlmSettings, createProvider, loadLlmSettings, saveLlmSettings } from './services/providers';
+import { GIT_HOST_LABELS, GitHostSettings, createRepositorySource, describeTarget, loadGitHostSettings, parseRepoUrl, saveGitHostSettings } from './services/sources';
+import { RepoConfig, loadRepoConfig } from './services/repoConfig';
+import { ScanFile, ScanJob, ScanSource, runScan } from './services/scanEngine';
+import { LocalFileSource, loadDroppedItems, loadFolderFiles, loadZipFile } from './services/localFiles';
+import { createFileReviewer } from './services/fileReviewer';
+import { ContextSource, ReviewContextSettings, createContextBuilder, loadReviewContextSettings, saveReviewContextSettings } from './services/reviewContext';
+import { createArchitectureFinalizer } from './services/architectureReview';
+import { DEFAULT_REVIEW_PROFILE, ReviewProfile, loadActiveProfileId, loadReviewProfiles, saveActiveProfileId, saveReviewProfiles } from './services/reviewProfiles';
+import { clearReviewCache, getReviewCacheStats } from './services/reviewCache';
+import { UsageTotals, clearMonthlyUsage, createUsageMeter, estimateScanUsage, formatCost, formatTokens, getModelPrice, loadMonthlyUsage, loadScanBudget, recordMonthlyUsage, saveScanBudget } from './services/usage';
+import { clearScanJobs, deleteScanJob, loadUnfinishedScanJob } from './services/scanStore';
+import { deleteTriageRecord, listTriageRecords, saveTriageRecord } from './services/triageStore';
+import { HistoryEntry, PasteHistoryEntry, clearHistory, deleteHistoryEntry, listHistoryEntries, saveHistoryEntry } from './services/historyStore';
+import { LANGUAGE_MAP, PROGRAMMING_LANGUAGES, getLanguageForFile } from './constants';
+import { ChatMessage, FINDING_SEVERITIES, ReviewFinding, ReviewResult } from './types';
+import { architectureToMarkdown, countBySeverity, findingsToMarkdown } from './utils/findings';
+import { EMPTY_RESULTS_FILTER, ResultsFilter, compareReviewsByRisk, filterReviews } from './utils/resultsFilter';
+import { summarizeScan } from './utils/report';
+import { applyEdits, buildPatch } from './utils/edits';
+import { getScanRepoKey } from './utils/scanComparison';
+import { TriageRecord, TriageStatus, getTriageId, hideDismissedFindings } from './utils/triage';
+import { downloadTextFile } from './utils/download';
+import { DEFAULT_FILE_FILTER_RULES, FileFilterRules, evaluateFile, mergeFileFilterRules } from './utils/fileFilter';
 
 import CopyButton from './components/CopyButton';
 import Loader from './components/Loader';
+import ProviderSettingsForm from './components/ProviderSettingsForm';
+import GitHostSettingsForm from './components/GitHostSettingsForm';
+import ReviewProfilesEditor from './components/ReviewProfilesEditor';
+import ReviewProfileSelect from './components/ReviewProfileSelect';
+import ExportReportButtons from './components/ExportReportButtons';
+import PublishToPullRequestButton from './components/PublishToPullRequestButton';
+import ScanPreview from './components/ScanPreview';
+import FileTreePicker from './components/FileTreePicker';
+import ResultsDashboard from './components/ResultsDashboard';
+import ScanRulesEditor from './components/ScanRulesEditor';
+import LocalSourcePicker from './components/LocalSourcePicker';
+import HistoryView from './components/HistoryView';
+import SuggestedEdits, { EditDecision, getAcceptedEdits } from './components/SuggestedEdits';
+import ScanSuggestedEdits from './components/ScanSuggestedEdits';
+import ReviewChat from './components/ReviewChat';
+import FindingTriageList from './components/FindingTriageList';
 import { PasteIcon } from './components/icons/PasteIcon';
 import { GitIcon } from './components/icons/GitIcon';
+import { FolderIcon } from './components/icons/FolderIcon';
 import { CodeIcon } from './components/icons/CodeIcon';
 import { SettingsIcon } from './components/icons/SettingsIcon';
+import { HistoryIcon } from './components/icons/HistoryIcon';
 
-type ViewMode = 'settings' | 'paste' | 'repo';
+type ViewMode = 'settings' | 'paste' | 'repo' | 'local' | 'history';
 
-interface FileReview {
-  path: string;
-  rawFeedback: string;
-  htmlFeedback: string;
-}
+const DEFAULT_SCAN_CONCURRENCY = 4;
 
-interface FileError {
-    path: string;
-    error: string;
+// A listed repository, pull request, comparison or local folder that has not been scanned yet.
+interface RepoPlan {
+  source: ScanSource;
+  repoUrl: string;
+  owner: string;
+  repo: string;
+  scope: string;
+  isDiff: boolean;
+  commitSha: string;
+  directory?: string;
+  files: ScanFile[];
+  // False when the host could only list part of the tree.
+  listingComplete: boolean;
+  configPath: string | null;
+  config: RepoConfig | null;
+  configError?: string;
 }
 
-const GITHUB_URL_REGEX = /^https:\/\/github\.com\/[^/]+\/[^/]+(\/)?$/;
+const loadFileRules = (): FileFilterRules => {
+  try {
+    const saved = localStorage.getItem('file-filter-rules');
+    return saved ? { ...DEFAULT_FILE_FILTER_RULES, ...JSON.parse(saved) } : DEFAULT_FILE_FILTER_RULES;
+  } catch {
+    return DEFAULT_FILE_FILTER_RULES;
+  }
+};
+
+// E.g. "1 critical, 3 low".
+const describeSeverities = (findings: ReviewFinding[]) => {
+  const counts = countBySeverity(findings);
+  return FINDING_SEVERITIES.filter(severity => counts[severity] > 0).map(severity => `${counts[severity]} ${severity}`).join(', ');
+};
+
+// A file name for pasted code in a patch, with an extension that matches its language.
+const getSnippetPath = (language: string) =>
+  `snippet${Object.keys(LANGUAGE_MAP).find(key => key.startsWith('.') && LANGUAGE_MAP[key] === language) || '.txt'}`;
 
 // Moved NavButton outside the MainApp component to prevent it from being
 // recreated on every render, which is more performant.
@@ -37,9 +103,29 @@ const NavButton = ({ mode, currentMode, setMode, children, label }: { mode: View
 
 
 const MainApp = () => {
-  const [apiKey, setApiKey] = useState<string | null>(() => localStorage.getItem('gemini-api-key'));
-  const [tempApiKey, setTempApiKey] = useState('');
-  const [viewMode, setViewMode] = useState<ViewMode>('settings');
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  // The active model provider, or null until it is configured. Every request it makes counts towards the monthly usage.
+  const provider = useMemo(() => {
+    try {
+      const base = createProvider(llmSettings);
+      if (!base) return null;
+      const meter = createUsageMeter(base, getModelPrice(llmSettings.active, llmSettings.providers[llmSettings.active]));
+      meter.subscribe(usage => recordMonthlyUsage(usage));
+      return meter.provider;
+    } catch (e) {
+      console.error('Could not create the model provider:', e);
+      return null;
+    }
+  }, [llmSettings]);
+  const [gitHostSettings, setGitHostSettings] = useState<GitHostSettings>(loadGitHostSettings);
+  const [scanConcurrency, setScanConcurrency] = useState(() => Number(localStorage.getItem('scan-concurrency')) || DEFAULT_SCAN_CONCURRENCY);
+  const [contextSettings, setContextSettings] = useState<ReviewContextSettings>(loadReviewContextSettings);
+  const [reviewProfiles, setReviewProfiles] = useState<ReviewProfile[]>(loadReviewProfiles);
+  const [activeProfileId, setActiveProfileId] = useState(loadActiveProfileId);
+  // The chosen profile may have been deleted since; fall back to the first one.
+  const activeProfile = reviewProfiles.find(profile => profile.id === activeProfileId) || reviewProfiles[0];
+  // Start somewhere useful if a provider is already configured.
+  const [viewMode, setViewMode] = useState<ViewMode>(() => provider ? 'paste' : 'settings');
   
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -47,150 +133,610 @@ const MainApp = () => {
   // State for 'Paste Code' mode
   const [pasteCode, setPasteCode] = useState('');
   const [pasteLanguage, setPasteLanguage] = useState(PROGRAMMING_LANGUAGES[0] || 'JavaScript');
-  const [pasteFeedback, setPasteFeedback] = useState<{ raw: string; html: string } | null>(null);
+  // `code` is the code as reviewed; `isPartial` marks feedback from a review that was stopped or failed while streaming.
+  const [pasteFeedback, setPasteFeedback] = useState<{ code: string; findings: ReviewFinding[]; raw: string; html: string; isPartial?: boolean } | null>(null);
+  // Accepted and rejected fixes, by index into the feedback's findings.
+  const [pasteEditDecisions, setPasteEditDecisions] = useState<Record<number, EditDecision>>({});
+  // The finished review as saved to the history; follow-up questions are saved with it.
+  const [pasteHistoryEntry, setPasteHistoryEntry] = useState<PasteHistoryEntry | null>(null);
+  // Separate from `isLoading`, so a repository scan and a paste review can run side by side.
+  const [isPasteLoading, setIsPasteLoading] = useState(false);
+  const pasteControllerRef = useRef<AbortController | null>(null);
 
   // State for 'Git Repo' mode
   const [repoUrl, setRepoUrl] = useState('');
+  const [repoRef, setRepoRef] = useState('');
+  const [repoDirectory, setRepoDirectory] = useState('');
   const [isRepoUrlValid, setIsRepoUrlValid] = useState(true);
-  const [repoReviews, setRepoReviews] = useState<FileReview[]>([]);
-  const [repoErrors, setRepoErrors] = useState<FileError[]>([]);
-  const [repoProgress, setRepoProgress] = useState<{ current: number; total: number } | null>(null);
-  const [repoScanSummary, setRepoScanSummary] = useState<{ total: number; analyzed: number; withIssues: number; errors: number } | null>(null);
+  const [fileRules, setFileRules] = useState<FileFilterRules>(loadFileRules);
+  const [repoPlan, setRepoPlan] = useState<RepoPlan | null>(null);
+  // The files picked by hand from the plan, or null to review what the filter rules include.
+  const [planSelection, setPlanSelection] = useState<Set<string> | null>(null);
+  const [repoScan, setRepoScan] = useState<ScanJob | null>(null);
+  // The latest scan, for handlers that finish after other updates to it, such as follow-up answers.
+  const repoScanRef = useRef(repoScan);
+  repoScanRef.current = repoScan;
+  const [resumableScan, setResumableScan] = useState<ScanJob | null>(null);
+  const [rateLimitResetAt, setRateLimitResetAt] = useState<Date | null>(null);
+  // Which findings of the visible scan to show. The least severity is also what gets published.
+  const [resultsFilter, setResultsFilter] = useState<ResultsFilter>(EMPTY_RESULTS_FILTER);
+  const scanControllerRef = useRef<AbortController | null>(null);
+  const [reviewCacheStats, setReviewCacheStats] = useState<{ entries: number; bytes: number } | null>(null);
+  // The cost cap of a single scan, and what the model has been used for by month.
+  const [scanBudget, setScanBudget] = useState(loadScanBudget);
+  const [monthlyUsage, setMonthlyUsage] = useState<Record<string, UsageTotals>>(loadMonthlyUsage);
 
+  // The triage of the visible scan's repository, by record id. Dismissed findings are hidden unless asked for.
+  const [triageRecords, setTriageRecords] = useState<Map<string, TriageRecord>>(() => new Map());
+  const [showDismissed, setShowDismissed] = useState(false);
+
+  // State for 'Local Files' mode. The plan, scan and results above are shared with 'Git Repo' mode.
+  const [localSource, setLocalSource] = useState<LocalFileSource | null>(null);
+
+  // State for 'History' mode: saved paste reviews and scans, newest first, or null until loaded.
+  const [historyEntries, setHistoryEntries] = useState<HistoryEntry[] | null>(null);
+
+  // Each mode shows only its own plan and scan.
+  const scanSource: ScanSource = viewMode === 'local' ? 'local' : 'remote';
+  const visiblePlan = repoPlan?.source === scanSource ? repoPlan : null;
+  const visibleScan = repoScan && (repoScan.source === 'local' ? 'local' : 'remote') === scanSource ? repoScan : null;
+  const visibleRepoKey = visibleScan ? getScanRepoKey(visibleScan) : null;
+  // The summary, exports and published reviews always leave dismissed findings out.
+  const triagedScan = useMemo(() => visibleScan && hideDismissedFindings(visibleScan, triageRecords), [visibleScan, triageRecords]);
+  const shownScan = showDismissed ? visibleScan : triagedScan?.job || null;
+  const repoReviews = shownScan ? shownScan.reviews : [];
+  const repoErrors = visibleScan ? visibleScan.errors : [];
+  const repoScanSummary = triagedScan ? summarizeScan(triagedScan.job) : null;
+
+  // Another scan keeps the severity but not the other filters, which may not apply to it.
   useEffect(() => {
-    if (apiKey) {
-      localStorage.setItem('gemini-api-key', apiKey);
-      setTempApiKey(apiKey);
-      // If key is set, move away from settings to a useful tab
-      if (viewMode === 'settings') {
-          setViewMode('paste');
-      }
-    } else {
-      localStorage.removeItem('gemini-api-key');
-      setViewMode('settings');
+    setResultsFilter(filter => ({ ...EMPTY_RESULTS_FILTER, minSeverity: filter.minSeverity }));
+  }, [visibleScan?.id]);
+
+  useEffect(() => {
+    if (!visibleRepoKey) return;
+    let cancelled = false;
+    listTriageRecords(visibleRepoKey)
+      .then(records => { if (!cancelled) setTriageRecords(new Map(records.map(record => [record.id, record]))); })
+      .catch(e => console.error('Could not load the triage of findings:', e));
+    return () => { cancelled = true; };
+  }, [visibleRepoKey]);
+
+  // A new plan starts from the filter rules again.
+  useEffect(() => setPlanSelection(null), [repoPlan]);
+
+  // Offer to resume a scan that was interrupted by a reload or closed tab.
+  useEffect(() => {
+    loadUnfinishedScanJob()
+      .then(setResumableScan)
+      .catch(e => console.error('Could not load saved scans:', e));
+  }, []);
+
+  const handleSaveLlmSettings = (settings: LlmSettings) => {
+      saveLlmSettings(settings);
+      setLlmSettings(settings);
+      alert('Model settings saved successfully!');
+  };
+
+  const handleSaveGitHostSettings = (settings: GitHostSettings) => {
+      saveGitHostSettings(settings);
+      setGitHostSettings(settings);
+      setIsRepoUrlValid(!repoUrl || !!parseRepoUrl(repoUrl, settings.gitlabHosts));
+      alert('Access tokens saved successfully!');
+  };
+
+  const refreshReviewCacheStats = useCallback(() => {
+      getReviewCacheStats()
+        .then(setReviewCacheStats)
+        .catch(e => console.error('Could not read the review cache:', e));
+  }, []);
+
+  const refreshHistory = useCallback(() => {
+      listHistoryEntries()
+        .then(setHistoryEntries)
+        .catch(e => {
+            console.error('Could not load the review history:', e);
+            setHistoryEntries([]);
+        });
+  }, []);
+
+  // Settings shows the usage of recent scans, which are kept in the history.
+  useEffect(() => {
+    if (viewMode === 'settings') {
+      refreshReviewCacheStats();
+      setMonthlyUsage(loadMonthlyUsage());
+      refreshHistory();
     }
-  }, [apiKey, viewMode]);
-  
-  const handleSaveApiKey = () => {
-      if (tempApiKey.trim()) {
-          setApiKey(tempApiKey.trim());
-          alert('API Key saved successfully!');
+  }, [viewMode, refreshReviewCacheStats, refreshHistory]);
+
+  useEffect(() => {
+    if (viewMode === 'history') {
+      refreshHistory();
+    }
+  }, [viewMode, refreshHistory]);
+
+  const addToHistory = (entry: HistoryEntry) => {
+      saveHistoryEntry(entry).catch(e => console.error('Could not save the review to the history:', e));
+  };
+
+  const handleClearReviewCache = async () => {
+      try {
+          await clearReviewCache();
+      } catch (e: any) {
+          alert(`Could not clear the review cache: ${e.message}`);
       }
+      refreshReviewCacheStats();
   };
-  
-  const handleClearApiKey = () => {
-      setApiKey(null);
-      setTempApiKey('');
+
+  const handleScanBudgetChange = (value: string) => {
+      const budgetUsd = Number(value) > 0 ? Number(value) : null;
+      saveScanBudget(budgetUsd);
+      setScanBudget(budgetUsd);
+  };
+
+  const handleClearMonthlyUsage = () => {
+      if (!confirm('Clear the usage totals of every month?')) return;
+      clearMonthlyUsage();
+      setMonthlyUsage({});
+  };
+
+  const handleFileRulesChange = (rules: FileFilterRules) => {
+      localStorage.setItem('file-filter-rules', JSON.stringify(rules));
+      setFileRules(rules);
+  };
+
+  const handleScanConcurrencyChange = (value: number) => {
+      localStorage.setItem('scan-concurrency', String(value));
+      setScanConcurrency(value);
+  };
+
+  const handleContextSettingsChange = (changes: Partial<ReviewContextSettings>) => {
+      const settings = { ...contextSettings, ...changes };
+      saveReviewContextSettings(settings);
+      setContextSettings(settings);
+  };
+
+  const handleReviewProfilesChange = (profiles: ReviewProfile[]) => {
+      saveReviewProfiles(profiles);
+      setReviewProfiles(profiles);
+  };
+
+  const handleActiveProfileChange = (id: string) => {
+      saveActiveProfileId(id);
+      setActiveProfileId(id);
   };
 
 
   const handleRepoUrlChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
     const newUrl = e.target.value;
     setRepoUrl(newUrl);
-    setIsRepoUrlValid(GITHUB_URL_REGEX.test(newUrl) || newUrl === '');
-  }, []);
+    setRepoPlan(null);
+    setIsRepoUrlValid(newUrl === '' || !!parseRepoUrl(newUrl, gitHostSettings.gitlabHosts));
+  }, [gitHostSettings]);
 
   const handleReviewPaste = useCallback(async () => {
-    if (!apiKey) {
-        setError("API Key is not set. Please set it in the Settings tab.");
+    if (!provider) {
+        setError("The model provider is not configured. Please set it up in the Settings tab.");
         return;
     }
-    setIsLoading(true);
+    const controller = new AbortController();
+    pasteControllerRef.current = controller;
+    setIsPasteLoading(true);
     setError(null);
     setPasteFeedback(null);
+    setPasteEditDecisions({});
+    setPasteHistoryEntry(null);
+
+    // Render the feedback as it streams in; whatever arrived stays on screen if the review stops early.
+    let latest: ReviewResult | null = null;
+    const showFeedback = async (result: ReviewResult, isPartial: boolean) => {
+      const markdown = findingsToMarkdown(result, pasteLanguage);
+      const html = await marked.parse(markdown);
+      setPasteFeedback({ code: pasteCode, findings: result.findings, raw: markdown, html, isPartial });
+    };
     try {
-      const result = await reviewCode(apiKey, pasteCode, pasteLanguage);
-      const html = await marked.parse(result);
-      setPasteFeedback({ raw: result, html });
+      const result = await reviewCode(provider, pasteCode, pasteLanguage, undefined, {
+        profile: activeProfile,
+        signal: controller.signal,
+        onProgress: partial => {
+          latest = partial;
+          showFeedback(partial, true);
+        },
+      });
+      await showFeedback(result, false);
+      const entry: PasteHistoryEntry = {
+        id: `paste-${Date.now()}`,
+        kind: 'paste',
+        createdAt: Date.now(),
+        model: `${provider.id}/${provider.model}`,
+        profile: activeProfile.name,
+        language: pasteLanguage,
+        code: pasteCode,
+        result,
+      };
+      setPasteHistoryEntry(entry);
+      addToHistory(entry);
     } catch (e: any) {
-      setError(e.message);
+      if (!controller.signal.aborted) {
+        setError(e.message);
+      }
+      if (latest) {
+        await showFeedback(latest, true);
+      }
     } finally {
-      setIsLoading(false);
+      pasteControllerRef.current = null;
+      setIsPasteLoading(false);
     }
-  }, [apiKey, pasteCode, pasteLanguage]);
+  }, [provider, pasteCode, pasteLanguage, activeProfile]);
+
+  const handleStopPaste = () => {
+      pasteControllerRef.current?.abort();
+  };
+
+  // Accepted fixes are applied to the reviewed code, so the editor shows it with exactly those fixes.
+  const handlePasteEditDecision = (index: number, decision: EditDecision | null) => {
+      if (!pasteFeedback) return;
+      const decisions = { ...pasteEditDecisions };
+      if (decision) decisions[index] = decision; else delete decisions[index];
+      try {
+          setPasteCode(applyEdits(pasteFeedback.code, getAcceptedEdits(pasteFeedback.findings, decisions)));
+          setPasteEditDecisions(decisions);
+      } catch (e: any) {
+          setError(e.message);
+      }
+  };
+
+  const handleDownloadPastePatch = () => {
+      if (!pasteFeedback) return;
+      const edits = getAcceptedEdits(pasteFeedback.findings, pasteEditDecisions);
+      downloadTextFile('suggested-fixes.patch', buildPatch([{ path: getSnippetPath(pasteLanguage), content: pasteFeedback.code, edits }]), 'text/x-diff');
+  };
+
+  const handlePasteChatChange = (chat: ChatMessage[]) => {
+      if (!pasteHistoryEntry) return;
+      const entry = { ...pasteHistoryEntry, chat };
+      setPasteHistoryEntry(entry);
+      addToHistory(entry);
+  };
+
+  const handleReviewChatChange = (path: string, chat: ChatMessage[]) => {
+      const job = repoScanRef.current;
+      if (!job) return;
+      const updated = { ...job, reviews: job.reviews.map(review => review.path === path ? { ...review, chat } : review) };
+      setRepoScan(updated);
+      addToHistory({ id: updated.id, kind: 'scan', createdAt: updated.createdAt, job: updated });
+  };
+
+  // Open findings without a note need no record, so setting a finding back to open deletes its record.
+  const handleTriage = (path: string, finding: ReviewFinding, status: TriageStatus, note: string) => {
+      if (!visibleRepoKey || !finding.fingerprint) return;
+      const id = getTriageId(visibleRepoKey, path, finding);
+      const record: TriageRecord | null = status === 'open' && !note.trim() ? null : {
+          id,
+          repoKey: visibleRepoKey,
+          path,
+          category: finding.category,
+          fingerprint: finding.fingerprint,
+          status,
+          note: note.trim(),
+          message: finding.message,
+          updatedAt: Date.now(),
+      };
+      setTriageRecords(current => {
+          const records = new Map(current);
+          if (record) records.set(id, record); else records.delete(id);
+          return records;
+      });
+      (record ? saveTriageRecord(record) : deleteTriageRecord(id))
+          .catch(e => console.error('Could not save the triage of the finding:', e));
+  };
+
+  // Reads a scanned file again, for applying its suggested fixes or asking about its review.
+  const loadScannedFile = useCallback(async (job: ScanJob, path: string): Promise<string> => {
+      if (job.source === 'local') {
+          if (!localSource || job.repoUrl !== `local:${localSource.name}`) {
+              throw new Error("The local files are no longer available. Please choose the folder again.");
+          }
+          return localSource.readFile(path);
+      }
+      const location = parseRepoUrl(job.repoUrl, gitHostSettings.gitlabHosts);
+      if (!location) throw new Error(`Cannot read files from ${job.repoUrl}.`);
+      return createRepositorySource(location, { token: gitHostSettings.tokens[location.host] }).getFileContent(path, job.commitSha);
+  }, [localSource, gitHostSettings]);
   
-  const handleAutonomousReview = useCallback(async () => {
-      if (!apiKey) {
-        setError("API Key is not set. Please set it in the Settings tab.");
-        return;
+  const runRepoScan = useCallback(async (job: ScanJob) => {
+      if (!provider) return;
+      const controller = new AbortController();
+      scanControllerRef.current = controller;
+      setIsLoading(true);
+      setRepoScan(job);
+
+      const isLocal = job.source === 'local';
+      // Resumed scans only have the URL, so the source is recreated from it.
+      const location = isLocal ? null : parseRepoUrl(job.repoUrl, gitHostSettings.gitlabHosts);
+      const source = location && createRepositorySource(location, {
+          token: gitHostSettings.tokens[location.host],
+          onRateLimit: setRateLimitResetAt,
+          signal: controller.signal,
+      });
+      // Imported files and the layout are read from the same place as the scanned files, at the same commit.
+      const contextSource: ContextSource = isLocal
+          ? {
+              listPaths: async () => localSource?.files.map(file => file.path) || [],
+              readFile: path => localSource ? localSource.readFile(path).catch(() => null) : Promise.resolve(null),
+          }
+          : {
+              listPaths: async () => source ? (await source.listFiles(job.commitSha, job.directory)).files.map(file => file.path) : [],
+              readFile: path => source ? source.getOptionalFileContent(path, job.commitSha).catch(() => null) : Promise.resolve(null),
+          };
+      const contextBuilder = job.context ? createContextBuilder(contextSource, job.context.maxTokens) : null;
+      // Counts this scan's requests on top of the monthly usage, so the scan can stop at its budget.
+      const price = getModelPrice(llmSettings.active, llmSettings.providers[llmSettings.active]);
+      const meter = createUsageMeter(provider, price);
+      const reviewFile = createFileReviewer({
+          provider: meter.provider,
+          context: contextBuilder && job.context!.maxTokens > 0 ? contextBuilder : undefined,
+          readFile: async file => {
+              if (isLocal) {
+                  if (!localSource) throw new Error("The local files are no longer available. Please choose them again.");
+                  return localSource.readFile(file.path);
+              }
+              if (!source) throw new Error(`The repository URL "${job.repoUrl}" is no longer recognised. Check the self-hosted GitLab instances in Settings.`);
+              const content = await source.getFileContent(file.path, job.commitSha);
+              setRateLimitResetAt(null);
+              return content;
+          },
+          skipGenerated: !!job.rules?.skipGenerated,
+          profile: job.profile,
+      });
+
+      try {
+          const finished = await runScan(job, reviewFile, {
+              concurrency: scanConcurrency,
+              signal: controller.signal,
+              onUpdate: setRepoScan,
+              finalize: contextBuilder && job.context!.architecturePass ? createArchitectureFinalizer(meter.provider, contextBuilder) : undefined,
+              usage: {
+                  meter,
+                  budgetUsd: scanBudget,
+                  estimateCostUsd: file => estimateScanUsage([file], {
+                      profile: job.profile || DEFAULT_REVIEW_PROFILE,
+                      contextTokens: job.context?.maxTokens || 0,
+                      architecturePass: false,
+                      maxOutputTokens: provider.generationConfig.maxOutputTokens,
+                      price,
+                  }).costUsd,
+              },
+              // Local files cannot be read again after a reload, so those scans are not saved for resuming.
+              ...(isLocal ? { persist: async () => {} } : {}),
+          });
+          if (finished.completed.length > 0) {
+              addToHistory({ id: finished.id, kind: 'scan', createdAt: finished.createdAt, job: finished });
+          }
+      } catch (e: any) {
+          setError(e.message);
+      } finally {
+          scanControllerRef.current = null;
+          setIsLoading(false);
+          setRateLimitResetAt(null);
       }
+  }, [provider, llmSettings, gitHostSettings, scanConcurrency, localSource, scanBudget]);
+
+  // Step 1: list the files (and read the repository's config file) so the user can preview what will be scanned.
+  const handleLoadRepo = useCallback(async () => {
       if (!isRepoUrlValid || !repoUrl) return;
 
       setIsLoading(true);
       setError(null);
-      setRepoReviews([]);
-      setRepoErrors([]);
-      setRepoScanSummary(null);
-      setRepoProgress({ current: 0, total: 0 });
+      setRepoPlan(null);
+      setRepoScan(null);
 
       try {
-          const fileTree = await fetchRepoFileTree(repoUrl);
-          const reviewableFiles = fileTree.filter(file => isReviewableFile(file.path));
-          
-          setRepoProgress({ current: 0, total: reviewableFiles.length });
-          
-          const urlParts = parseGitHubUrl(repoUrl);
-          if (!urlParts) {
-              throw new Error("Could not parse GitHub URL parts.");
+          const location = parseRepoUrl(repoUrl, gitHostSettings.gitlabHosts);
+          if (!location) {
+              throw new Error("Could not parse the repository URL.");
           }
-          const { owner, repo } = urlParts;
-          
-          const newReviews: FileReview[] = [];
-          const newErrors: FileError[] = [];
-
-          for (let i = 0; i < reviewableFiles.length; i++) {
-              const file = reviewableFiles[i];
-              setRepoProgress({ current: i + 1, total: reviewableFiles.length });
-              try {
-                  const language = getLanguageForFile(file.path);
-                  if (!language) continue;
-
-                  const content = await getFileContent(owner, repo, file.path);
-                  const feedback = await reviewCode(apiKey, content, language, file.path);
-
-                  if (feedback.trim() !== "No issues found.") {
-                      const htmlFeedback = await marked.parse(feedback);
-                      newReviews.push({ path: file.path, rawFeedback: feedback, htmlFeedback });
-                  }
-              } catch (e: any) {
-                  newErrors.push({ path: file.path, error: e.message });
-              }
+          const { owner, repo, target } = location;
+          const source = createRepositorySource(location, { token: gitHostSettings.tokens[location.host], onRateLimit: setRateLimitResetAt });
+
+          // Pull/merge requests and comparisons only review the changed files, against their diff hunks.
+          const isDiff = target.kind !== 'repo';
+          const ref = repoRef.trim() || undefined;
+          const requestedDirectory = isDiff ? undefined : repoDirectory.trim().replace(/^\/+|\/+$/g, '') || undefined;
+          const listing = isDiff ? await source.listChangedFiles() : await source.listFiles(ref, requestedDirectory);
+          const { sha: commitSha, files: candidateFiles, truncated } = listing;
+          // A URL that points at a directory lists just that directory.
+          const directory = listing.directory || requestedDirectory;
+          // A directory listing does not include the config file at the repository root.
+          const knownPaths = isDiff || directory ? undefined : candidateFiles.map(file => file.path);
+
+          // A broken config file should not block the scan; report it and carry on with the UI rules.
+          let repoConfig: { path: string; config: RepoConfig } | null = null;
+          let configError: string | undefined;
+          try {
+              repoConfig = await loadRepoConfig(path => source.getOptionalFileContent(path, commitSha), knownPaths);
+          } catch (e: any) {
+              configError = e.message;
           }
-          setRepoReviews(newReviews);
-          setRepoErrors(newErrors);
-          setRepoScanSummary({
-            total: fileTree.length,
-            analyzed: reviewableFiles.length,
-            withIssues: newReviews.length,
-            errors: newErrors.length
-          });
 
+          setRepoPlan({
+              source: 'remote',
+              repoUrl,
+              owner,
+              repo,
+              scope: describeTarget(location, listing.ref || ref, directory),
+              isDiff,
+              commitSha,
+              directory,
+              files: candidateFiles,
+              listingComplete: !truncated,
+              configPath: repoConfig?.path || null,
+              config: repoConfig?.config || null,
+              configError,
+          });
       } catch (e: any) {
           setError(e.message);
       } finally {
           setIsLoading(false);
-          setRepoProgress(null);
+          setRateLimitResetAt(null);
       }
-  }, [apiKey, repoUrl, isRepoUrlValid]);
+  }, [gitHostSettings, repoUrl, repoRef, repoDirectory, isRepoUrlValid]);
 
-  const groupReviewsByLanguage = (reviews: FileReview[]) => {
-      return reviews.reduce((acc, review) => {
-          const lang = getLanguageForFile(review.path) || 'Other';
-          if (!acc[lang]) {
-              acc[lang] = [];
+  // Step 2: review the files selected by the current rules.
+  const handleAutonomousReview = useCallback(async () => {
+      if (!provider) {
+        setError("The model provider is not configured. Please set it up in the Settings tab.");
+        return;
+      }
+      if (!repoPlan) return;
+
+      setError(null);
+      setResumableScan(null);
+
+      const rules = mergeFileFilterRules(fileRules, repoPlan.config);
+      const now = Date.now();
+      const job: ScanJob = {
+          id: `${now}`,
+          source: repoPlan.source,
+          repoUrl: repoPlan.repoUrl,
+          owner: repoPlan.owner,
+          repo: repoPlan.repo,
+          scope: repoPlan.scope,
+          isDiff: repoPlan.isDiff,
+          commitSha: repoPlan.commitSha,
+          model: `${provider.id}/${provider.model}`,
+          ...(repoPlan.directory ? { directory: repoPlan.directory } : {}),
+          totalFiles: repoPlan.files.length,
+          listingComplete: repoPlan.listingComplete,
+          files: repoPlan.files.filter(file => planSelection ? planSelection.has(file.path) : evaluateFile(file, rules).included),
+          rules,
+          profile: activeProfile,
+          ...(contextSettings.enabled || contextSettings.architecturePass ? {
+              context: { maxTokens: contextSettings.enabled ? contextSettings.maxTokens : 0, architecturePass: contextSettings.architecturePass },
+          } : {}),
+          completed: [],
+          reviews: [],
+          errors: [],
+          skipped: [],
+          fromCache: 0,
+          status: 'running',
+          createdAt: now,
+          updatedAt: now,
+      };
+      // Only the latest scan is kept for resuming.
+      if (job.source !== 'local') {
+          await clearScanJobs().catch(e => console.error('Could not clear saved scans:', e));
+      }
+      await runRepoScan(job);
+  }, [provider, repoPlan, planSelection, fileRules, activeProfile, contextSettings, runRepoScan]);
+
+  const handleStopScan = () => {
+      scanControllerRef.current?.abort();
+  };
+
+  const handleResumeScan = (job: ScanJob) => {
+      setError(null);
+      if (job.source !== 'local') {
+          setResumableScan(null);
+          setRepoUrl(job.repoUrl);
+          setIsRepoUrlValid(true);
+      }
+      runRepoScan(job);
+  };
+
+  // A stopped local scan can only carry on while its files are still loaded.
+  const canResumeScan = (job: ScanJob) => job.source !== 'local' || job.repoUrl === `local:${localSource?.name}`;
+
+  // Lists a local folder or archive (and reads its config file) so the user can preview what will be scanned.
+  const handleLoadLocal = useCallback(async (load: () => Promise<LocalFileSource>) => {
+      setIsLoading(true);
+      setError(null);
+      setRepoPlan(null);
+      setRepoScan(null);
+
+      try {
+          const source = await load();
+          setLocalSource(source);
+
+          let repoConfig: { path: string; config: RepoConfig } | null = null;
+          let configError: string | undefined;
+          const knownPaths = source.files.map(file => file.path);
+          try {
+              repoConfig = await loadRepoConfig(path => source.readFile(path), knownPaths);
+          } catch (e: any) {
+              configError = e.message;
           }
-          acc[lang].push(review);
-          return acc;
-      }, {} as Record<string, FileReview[]>);
+
+          setRepoPlan({
+              source: 'local',
+              repoUrl: `local:${source.name}`,
+              owner: '',
+              repo: source.name,
+              scope: `${source.name} (local)`,
+              isDiff: false,
+              commitSha: 'local',
+              files: source.files,
+              listingComplete: true,
+              configPath: repoConfig?.path || null,
+              config: repoConfig?.config || null,
+              configError,
+          });
+      } catch (e: any) {
+          setError(e.message);
+      } finally {
+          setIsLoading(false);
+      }
+  }, []);
+
+  const handleDiscardScan = (job: ScanJob) => {
+      setResumableScan(null);
+      if (repoScan?.id === job.id) {
+          setRepoScan(null);
+      }
+      deleteScanJob(job.id).catch(e => console.error('Could not delete saved scan:', e));
+  };
+
+  const handleOpenHistoryEntry = async (entry: HistoryEntry) => {
+      setError(null);
+      if (entry.kind === 'paste') {
+          const raw = findingsToMarkdown(entry.result, entry.language);
+          setPasteCode(entry.code);
+          setPasteLanguage(entry.language);
+          setPasteFeedback({ code: entry.code, findings: entry.result.findings, raw, html: await marked.parse(raw) });
+          setPasteEditDecisions({});
+          setPasteHistoryEntry(entry);
+          setViewMode('paste');
+          return;
+      }
+      const { job } = entry;
+      setRepoPlan(null);
+      setRepoScan(job);
+      if (job.source === 'local') {
+          setViewMode('local');
+      } else {
+          setRepoUrl(job.repoUrl);
+          setIsRepoUrlValid(true);
+          setViewMode('repo');
+      }
   };
 
+  const handleDeleteHistoryEntry = (entry: HistoryEntry) => {
+      setHistoryEntries(entries => entries && entries.filter(e => e.id !== entry.id));
+      deleteHistoryEntry(entry.id).catch(e => console.error('Could not delete the history entry:', e));
+  };
+
+  const handleClearHistory = () => {
+      setHistoryEntries([]);
+      clearHistory().catch(e => console.error('Could not clear the review history:', e));
+  };
 
   const renderContent = () => {
-    if (!apiKey && viewMode !== 'settings') {
+    // Settings and the history do not need a provider.
+    if (!provider && viewMode !== 'settings' && viewMode !== 'history') {
       return (
         <div className="flex flex-col items-center justify-center h-full text-center p-8 bg-gray-800 rounded-lg">
-          <h2 className="text-2xl font-bold text-yellow-400 mb-4">API Key Required</h2>
-          <p className="text-gray-300 mb-6">Please set your Google Gemini API key in the Settings tab to begin.</p>
+          <h2 className="text-2xl font-bold text-yellow-400 mb-4">Model Provider Required</h2>
+          <p className="text-gray-300 mb-6">Please set your Google Gemini API key, or configure another model provider, in the Settings tab to begin.</p>
           <button onClick={() => setViewMode('settings')} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 transition">
             Go to Settings
           </button>
@@ -202,30 +748,128 @@ const MainApp = () => {
       return (
         <div className="w-full max-w-lg mx-auto bg-gray-800 p-8 rounded-lg">
             <h2 className="text-2xl font-bold text-white mb-4">Settings</h2>
-            <p className="text-gray-400 mb-6">Your Gemini API key is stored securely in your browser's local storage and is never sent anywhere except to Google's API.</p>
-            <div className="mb-4">
-                <label htmlFor="apiKey" className="block text-gray-300 text-sm font-bold mb-2">Google Gemini API Key</label>
-                <input
-                    type="password"
-                    id="apiKey"
-                    value={tempApiKey}
-                    onChange={(e) => setTempApiKey(e.target.value)}
-                    placeholder="Enter your API key"
-                    className="w-full bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg leading-tight focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition"
-                />
+            <p className="text-gray-400 mb-6">Your keys are stored securely in your browser's local storage and are never sent anywhere except to the API they belong to.</p>
+            <ProviderSettingsForm settings={llmSettings} onSave={handleSaveLlmSettings} />
+            <div className="mt-8 pt-6 border-t border-gray-700">
+                <GitHostSettingsForm settings={gitHostSettings} onSave={handleSaveGitHostSettings} />
+            </div>
+            <div className="mt-8 pt-6 border-t border-gray-700">
+                <ReviewProfilesEditor profiles={reviewProfiles} onChange={handleReviewProfilesChange} />
+            </div>
+            <div className="mt-8 pt-6 border-t border-gray-700">
+                <h3 className="text-gray-300 text-sm font-bold mb-2">Review cache</h3>
+                <p className="text-gray-400 text-sm mb-2">Reviews are cached by file content, so rescanning a repository only sends new or changed files to Gemini.</p>
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-gray-300 text-sm">
+                        {reviewCacheStats
+                          ? `${reviewCacheStats.entries} cached review(s), ${(reviewCacheStats.bytes / 1024).toFixed(1)} KB`
+                          : 'Cache size unavailable.'}
+                    </p>
+                    <button onClick={handleClearReviewCache} disabled={!reviewCacheStats?.entries} className="px-6 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 disabled:bg-gray-500 transition">
+                        Clear Cache
+                    </button>
+                </div>
+            </div>
+            <div className="mt-8 pt-6 border-t border-gray-700">
+                <h3 className="text-gray-300 text-sm font-bold mb-2">Usage &amp; budget</h3>
+                <p className="text-gray-400 text-sm mb-2">Token counts come from the model's responses and costs from list prices, or the prices set for the provider above. They are estimates; your provider's bill is authoritative.</p>
+                {!getModelPrice(llmSettings.active, llmSettings.providers[llmSettings.active]) && (
+                    <p className="text-yellow-300 text-sm mb-2">The price of the selected model is not known, so costs cannot be worked out and the budget does not apply. Set its prices above.</p>
+                )}
+                <label className="flex items-center gap-2 text-gray-300 text-sm mb-4">
+                    Stop a scan once it has cost about $
+                    <input
+                        type="number"
+                        min={0}
+                        step={0.1}
+                        defaultValue={scanBudget ?? ''}
+                        onChange={(e) => handleScanBudgetChange(e.target.value)}
+                        placeholder="No limit"
+                        aria-label="Scan budget in USD"
+                        className="w-28 bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+                    />
+                </label>
+                {(() => {
+                    const months = Object.keys(monthlyUsage).sort().reverse();
+                    const recentScans = (historyEntries || []).flatMap(entry => entry.kind === 'scan' && entry.job.usage ? [entry.job] : []).slice(0, 5);
+                    const describe = (usage: UsageTotals) => `${usage.requests} request(s), ${formatTokens(usage.inputTokens)} in / ${formatTokens(usage.outputTokens)} out, ${formatCost(usage.costUsd)}`;
+                    return (
+                        <>
+                            <div className="flex items-start justify-between gap-4">
+                                {months.length > 0 ? (
+                                    <ul className="text-sm text-gray-300 space-y-1">
+                                        {months.map(month => <li key={month}><span className="font-mono text-gray-400">{month}</span>: {describe(monthlyUsage[month])}</li>)}
+                                    </ul>
+                                ) : (
+                                    <p className="text-sm text-gray-400">No usage recorded yet.</p>
+                                )}
+                                <button onClick={handleClearMonthlyUsage} disabled={months.length === 0} className="px-6 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 disabled:bg-gray-500 transition">
+                                    Clear
+                                </button>
+                            </div>
+                            {recentScans.length > 0 && (
+                                <>
+                                    <h4 className="text-gray-300 text-sm font-bold mt-4 mb-1">Recent scans</h4>
+                                    <ul className="text-sm text-gray-300 space-y-1">
+                                        {recentScans.map(job => <li key={job.id}><span className="font-mono text-gray-400">{job.scope}</span>: {describe(job.usage!)}</li>)}
+                                    </ul>
+                                </>
+                            )}
+                        </>
+                    );
+                })()}
+            </div>
+            <div className="mt-8 pt-6 border-t border-gray-700">
+                <label htmlFor="scanConcurrency" className="block text-gray-300 text-sm font-bold mb-2">Parallel file reviews</label>
+                <p className="text-gray-400 text-sm mb-2">How many files a repository scan fetches and reviews at the same time. Lower this if you hit API rate limits.</p>
+                <select
+                    id="scanConcurrency"
+                    value={scanConcurrency}
+                    onChange={(e) => handleScanConcurrencyChange(Number(e.target.value))}
+                    className="bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition"
+                >
+                    {[1, 2, 4, 6, 8].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
             </div>
-            <div className="flex items-center gap-4">
-                <button onClick={handleSaveApiKey} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition">
-                    Save Key
-                </button>
-                <button onClick={handleClearApiKey} className="px-6 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition">
-                    Clear Key
-                </button>
+            <div className="mt-8 pt-6 border-t border-gray-700">
+                <h3 className="text-gray-300 text-sm font-bold mb-2">Repository context</h3>
+                <p className="text-gray-400 text-sm mb-2">Gives each file review the repository layout, the README and the files it imports (JavaScript/TypeScript, Python and Go), so the model can spot wrong call signatures and broken imports. The context is sent with every file, so it adds to the cost of a scan.</p>
+                <label className="flex items-center gap-2 text-gray-300 text-sm mb-2">
+                    <input type="checkbox" checked={contextSettings.enabled} onChange={(e) => handleContextSettingsChange({ enabled: e.target.checked })} />
+                    Include repository context, up to
+                    <input
+                        type="number"
+                        min={500}
+                        step={500}
+                        value={contextSettings.maxTokens}
+                        disabled={!contextSettings.enabled}
+                        onChange={(e) => handleContextSettingsChange({ maxTokens: Math.max(500, Number(e.target.value) || 0) })}
+                        aria-label="Context token budget"
+                        className="w-24 bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+                    />
+                    tokens per file
+                </label>
+                <label className="flex items-center gap-2 text-gray-300 text-sm">
+                    <input type="checkbox" checked={contextSettings.architecturePass} onChange={(e) => handleContextSettingsChange({ architecturePass: e.target.checked })} />
+                    Finish each scan with an architecture review of the module structure
+                </label>
             </div>
         </div>
       );
     }
     
+    if (viewMode === 'history') {
+      return (
+        <HistoryView
+          entries={historyEntries}
+          onOpen={handleOpenHistoryEntry}
+          onDelete={handleDeleteHistoryEntry}
+          onClear={handleClearHistory}
+          disabled={isLoading || isPasteLoading}
+        />
+      );
+    }
+
     if (viewMode === 'paste') {
       return (
         <>
@@ -238,9 +882,16 @@ const MainApp = () => {
                   <svg className="fill-current h-4 w-4" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20"><path d="M9.293 12.95l.707.707L15.657 8l-1.414-1.414L10 10.828 5.757 6.586 4.343 8z" /></svg>
               </div>
             </div>
-            <button onClick={handleReviewPaste} disabled={isLoading || !pasteCode.trim() || !apiKey} className="px-8 py-3 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
-                {isLoading ? 'Reviewing...' : 'Review Code'}
-            </button>
+            <ReviewProfileSelect profiles={reviewProfiles} value={activeProfile.id} onChange={handleActiveProfileChange} className="md:w-64" />
+            {isPasteLoading ? (
+              <button onClick={handleStopPaste} className="px-8 py-3 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition">
+                  Stop
+              </button>
+            ) : (
+              <button onClick={handleReviewPaste} disabled={!pasteCode.trim() || !provider} className="px-8 py-3 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
+                  Review Code
+              </button>
+            )}
           </div>
           <textarea
             value={pasteCode}
@@ -248,54 +899,272 @@ const MainApp = () => {
             placeholder={`Paste your ${pasteLanguage} code here...`}
             className="w-full flex-1 bg-gray-800 text-gray-200 p-4 rounded-lg border-2 border-gray-700 focus:outline-none focus:border-cyan-500 font-mono text-sm resize-none"
           ></textarea>
-           {isLoading && <Loader message="Analyzing your code..." />}
+           {isPasteLoading && !pasteFeedback && <Loader message="Analyzing your code..." />}
            {error && <div className="mt-4 p-4 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
            {pasteFeedback && (
               <div className="mt-6 relative">
+                  {isPasteLoading && <p className="mb-2 text-sm text-cyan-300 animate-pulse">Receiving feedback...</p>}
+                  {!isPasteLoading && pasteFeedback.isPartial && (
+                    <p className="mb-2 text-sm text-yellow-300">The review stopped before it finished. The feedback below is incomplete.</p>
+                  )}
                   <div className="p-6 bg-gray-800 rounded-lg border border-gray-700 prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: pasteFeedback.html }}></div>
                   <CopyButton textToCopy={pasteFeedback.raw} />
+                  {pasteHistoryEntry && !isPasteLoading && (
+                    <ReviewChat
+                      key={pasteHistoryEntry.id}
+                      provider={provider}
+                      messages={pasteHistoryEntry.chat || []}
+                      getContext={async () => ({ code: pasteHistoryEntry.code, language: pasteHistoryEntry.language, review: pasteFeedback.raw })}
+                      onChange={handlePasteChatChange}
+                    />
+                  )}
               </div>
             )}
+           {pasteFeedback && !isPasteLoading && pasteFeedback.findings.some(finding => finding.fix) && (() => {
+              // The fixes refer to the reviewed code; once it is edited by hand they may no longer fit.
+              const acceptedEdits = getAcceptedEdits(pasteFeedback.findings, pasteEditDecisions);
+              const isEdited = pasteCode !== applyEdits(pasteFeedback.code, acceptedEdits);
+              return (
+                <div className="mt-6 p-4 bg-gray-800 rounded-lg border border-gray-700">
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+                        <h3 className="text-xl font-bold text-white">Suggested Fixes</h3>
+                        <button onClick={handleDownloadPastePatch} disabled={acceptedEdits.length === 0} className="px-4 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
+                            Download Accepted Fixes (.patch)
+                        </button>
+                    </div>
+                    {isEdited
+                      ? <p className="mb-4 text-sm text-yellow-300">The code has changed since it was reviewed, so the fixes can no longer be applied. Review it again to get new ones.</p>
+                      : <p className="mb-4 text-sm text-gray-400">Accepted fixes are applied to the code above.</p>}
+                    <SuggestedEdits
+                      path={getSnippetPath(pasteLanguage)}
+                      content={pasteFeedback.code}
+                      findings={pasteFeedback.findings}
+                      decisions={pasteEditDecisions}
+                      onDecide={handlePasteEditDecision}
+                      disabled={isEdited}
+                    />
+                </div>
+              );
+           })()}
         </>
       );
     }
 
-    if (viewMode === 'repo') {
-       const groupedReviews = groupReviewsByLanguage(repoReviews);
+    if (viewMode === 'repo' || viewMode === 'local') {
+       // The most critical files first, by what is left of them after filtering.
+       const visibleReviews = filterReviews(repoReviews, resultsFilter).sort(compareReviewsByRisk);
+       const repoLocation = isRepoUrlValid ? parseRepoUrl(repoUrl, gitHostSettings.gitlabHosts) : null;
+       const repoTarget = repoLocation?.target;
+       const effectiveRules = mergeFileFilterRules(fileRules, visiblePlan?.config);
+       const ruleDecisions = visiblePlan ? visiblePlan.files.map(file => ({ path: file.path, decision: evaluateFile(file, effectiveRules) })) : [];
+       // Files picked by hand are reviewed whatever the rules say.
+       const planDecisions = planSelection
+           ? ruleDecisions.map(({ path, decision }) => ({
+               path,
+               decision: planSelection.has(path) ? { included: true } : { included: false, reason: decision.included ? 'Not selected' : decision.reason },
+           }))
+           : ruleDecisions;
+       const plannedFiles = visiblePlan ? visiblePlan.files.filter((_, i) => planDecisions[i].decision.included) : [];
+       const plannedFileCount = plannedFiles.length;
+       const scanEstimate = provider && plannedFileCount > 0 ? estimateScanUsage(plannedFiles, {
+           profile: activeProfile,
+           contextTokens: contextSettings.enabled ? contextSettings.maxTokens : 0,
+           architecturePass: contextSettings.architecturePass,
+           maxOutputTokens: provider.generationConfig.maxOutputTokens,
+           price: getModelPrice(llmSettings.active, llmSettings.providers[llmSettings.active]),
+       }) : null;
        return (
         <>
+          {viewMode === 'local' ? (
+          <div className="w-full flex flex-col gap-4 mb-4">
+            <LocalSourcePicker
+              onFolderSelected={files => handleLoadLocal(async () => loadFolderFiles(files))}
+              onZipSelected={file => handleLoadLocal(() => loadZipFile(file))}
+              onItemsDropped={items => handleLoadLocal(() => loadDroppedItems(items, fileRules.exclude))}
+              disabled={isLoading}
+            />
+            {isLoading && visibleScan && (
+              <button onClick={handleStopScan} className="self-end px-8 py-3 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition">
+                  Stop
+              </button>
+            )}
+          </div>
+          ) : (
           <div className="w-full flex flex-col md:flex-row gap-4 mb-4">
             <div className="relative flex-grow">
               <input 
                 type="text"
                 value={repoUrl}
                 onChange={handleRepoUrlChange}
-                placeholder="https://github.com/owner/repository"
+                placeholder="A GitHub, GitLab or Bitbucket repository, pull/merge request or compare URL"
                 className={`w-full bg-gray-700 border text-white py-3 px-4 rounded-lg focus:outline-none focus:bg-gray-600 transition ${isRepoUrlValid ? 'border-gray-600 focus:border-cyan-500' : 'border-red-500'}`}
               />
-              {!isRepoUrlValid && <p className="text-red-400 text-sm mt-1">Please enter a valid GitHub repository URL.</p>}
-              <p className="text-xs text-gray-500 mt-1 pl-1">Only public repositories are supported.</p>
+              {!isRepoUrlValid && <p className="text-red-400 text-sm mt-1">Please enter a GitHub, GitLab or Bitbucket repository, pull/merge request or compare URL. Self-hosted GitLab instances can be added in Settings.</p>}
+              <p className="text-xs text-gray-500 mt-1 pl-1">{repoLocation
+                ? `${GIT_HOST_LABELS[repoLocation.host]} detected. ${gitHostSettings.tokens[repoLocation.host] ? 'Using your access token, so private repositories are supported.' : 'Add an access token in Settings to review private repositories.'}`
+                : 'Add access tokens in Settings to review private repositories.'} Pull request, merge request and compare URLs review just the changed lines.</p>
             </div>
-            <button onClick={handleAutonomousReview} disabled={isLoading || !repoUrl || !isRepoUrlValid || !apiKey} className="px-8 py-3 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
-                {isLoading ? 'Reviewing...' : 'Start Autonomous Review'}
-            </button>
+            {(!repoTarget || repoTarget.kind === 'repo') && (
+              <>
+                <input
+                  type="text"
+                  value={repoRef}
+                  onChange={(e) => { setRepoRef(e.target.value); setRepoPlan(null); }}
+                  placeholder={repoTarget?.kind === 'repo' && repoTarget.ref ? repoTarget.ref : 'Branch, tag or SHA (optional)'}
+                  aria-label="Branch, tag or commit SHA"
+                  className="md:w-56 self-start bg-gray-700 border border-gray-600 text-white py-3 px-4 rounded-lg focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition"
+                />
+                <input
+                  type="text"
+                  value={repoDirectory}
+                  onChange={(e) => { setRepoDirectory(e.target.value); setRepoPlan(null); }}
+                  placeholder="Subdirectory (optional)"
+                  aria-label="Subdirectory to scan"
+                  className="md:w-48 self-start bg-gray-700 border border-gray-600 text-white py-3 px-4 rounded-lg focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition"
+                />
+              </>
+            )}
+            {isLoading && visibleScan ? (
+              <button onClick={handleStopScan} className="px-8 py-3 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition">
+                  Stop
+              </button>
+            ) : (
+              <button onClick={handleLoadRepo} disabled={isLoading || !repoUrl || !isRepoUrlValid} className="px-8 py-3 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
+                  {isLoading ? 'Loading...' : 'Load Files'}
+              </button>
+            )}
           </div>
-          {isLoading && repoProgress && <Loader message={`Analyzing file ${repoProgress.current} of ${repoProgress.total}...`} />}
+          )}
+          {visiblePlan && !isLoading && (
+            <div className="space-y-4 mb-4">
+                {visiblePlan.configError && (
+                    <div className="p-3 bg-yellow-900/40 text-yellow-300 border border-yellow-700 rounded-lg text-sm">
+                        Ignoring the repository config: {visiblePlan.configError}
+                    </div>
+                )}
+                {!visiblePlan.listingComplete && (
+                    <div className="p-3 bg-yellow-900/40 text-yellow-300 border border-yellow-700 rounded-lg text-sm">
+                        {visiblePlan.isDiff
+                            ? <>The change is too large to list in full, so only {visiblePlan.files.length} changed files were listed and the scan will miss the rest.</>
+                            : <>The repository is too large to list in full, so only {visiblePlan.files.length} files were listed and the scan will miss the rest. Enter a subdirectory to scan a part of it completely.</>}
+                    </div>
+                )}
+                <ScanRulesEditor rules={fileRules} onChange={handleFileRulesChange} repoConfigPath={visiblePlan.configPath} />
+                <ScanPreview decisions={planDecisions} />
+                <FileTreePicker
+                    decisions={ruleDecisions}
+                    selected={new Set(planDecisions.filter(d => d.decision.included).map(d => d.path))}
+                    onChange={setPlanSelection}
+                    isCustom={planSelection !== null}
+                    onReset={() => setPlanSelection(null)}
+                />
+                <div className="flex flex-col md:flex-row gap-4">
+                    <ReviewProfileSelect profiles={reviewProfiles} value={activeProfile.id} onChange={handleActiveProfileChange} className="md:w-64" />
+                    <button onClick={handleAutonomousReview} disabled={plannedFileCount === 0 || !provider} className="w-full md:w-auto px-8 py-3 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
+                        Start Autonomous Review ({plannedFileCount} file(s))
+                    </button>
+                </div>
+                {scanEstimate && (
+                    <p className="text-sm text-gray-400">
+                        Estimated: ~{formatTokens(scanEstimate.inputTokens)} input / ~{formatTokens(scanEstimate.outputTokens)} output tokens
+                        {scanEstimate.costUsd === null ? ` (the price of ${provider!.model} is not known; set it in Settings)` : `, about ${formatCost(scanEstimate.costUsd)} with ${provider!.model}`}.
+                        {scanBudget !== null && ` The scan stops at its ${formatCost(scanBudget)} budget.`}
+                    </p>
+                )}
+            </div>
+          )}
+          {resumableScan && !isLoading && viewMode === 'repo' && (
+            <div className="mb-4 p-4 bg-gray-800 border border-cyan-700 rounded-lg flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <p className="text-gray-300">
+                    An unfinished scan of <span className="font-mono text-cyan-400">{resumableScan.scope}</span> was found
+                    ({resumableScan.completed.length} of {resumableScan.files.length} files reviewed).
+                </p>
+                <div className="flex gap-2">
+                    <button onClick={() => handleResumeScan(resumableScan)} disabled={!provider} className="px-4 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition">Resume</button>
+                    <button onClick={() => handleDiscardScan(resumableScan)} className="px-4 py-2 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition">Discard</button>
+                </div>
+            </div>
+          )}
+          {isLoading && !visibleScan && <Loader message={viewMode === 'local' ? "Reading the files..." : "Fetching the list of files..."} />}
+          {isLoading && visibleScan && (
+            <div className="mt-2 p-4 bg-gray-800 rounded-lg border border-gray-700">
+                <div className="flex justify-between text-sm text-gray-300 mb-2">
+                    <span>
+                        {rateLimitResetAt
+                          ? `API rate limit reached. Paused until ${rateLimitResetAt.toLocaleTimeString()}...`
+                          : visibleScan.context?.architecturePass && visibleScan.completed.length === visibleScan.files.length
+                            ? 'Reviewing the architecture...'
+                            : `Analyzing files (${scanConcurrency} at a time)...`}
+                    </span>
+                    <span>{visibleScan.completed.length} of {visibleScan.files.length}</span>
+                </div>
+                <div className="w-full h-2 bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-cyan-500 transition-all" style={{ width: `${visibleScan.files.length ? (visibleScan.completed.length / visibleScan.files.length) * 100 : 0}%` }}></div>
+                </div>
+            </div>
+          )}
+          {!isLoading && visibleScan?.status === 'stopped' && (
+            <div className="mt-2 p-4 bg-yellow-900/40 text-yellow-300 border border-yellow-700 rounded-lg flex flex-col md:flex-row md:items-center justify-between gap-4">
+                <p>
+                    {visibleScan.stopReason === 'budget'
+                      ? `Paused: the scan reached its ${formatCost(scanBudget)} budget after ${visibleScan.completed.length} of ${visibleScan.files.length} files. Raise the budget in Settings to resume.`
+                      : `Scan stopped after ${visibleScan.completed.length} of ${visibleScan.files.length} files.`} The results below are partial.
+                </p>
+                <button onClick={() => handleResumeScan(visibleScan)} disabled={!provider || !canResumeScan(visibleScan)} className="px-4 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition">Resume</button>
+            </div>
+          )}
           {error && <div className="mt-4 p-4 bg-red-900/50 text-red-300 border border-red-700 rounded-lg">{error}</div>}
-          
-          {!isLoading && repoScanSummary && (
+
+          {repoScanSummary && (
              <div className="mt-6 space-y-6">
                  {/* Executive Summary */}
                 <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
-                    <h3 className="text-xl font-bold text-white mb-3">Executive Summary</h3>
+                    <h3 className="text-xl font-bold text-white mb-1">Executive Summary</h3>
+                    <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                        <p className="text-sm text-gray-400 font-mono">{repoScanSummary.scope}</p>
+                        {visibleScan && !isLoading && (
+                            <div className="flex flex-col items-end gap-2">
+                                <ExportReportButtons job={triagedScan!.job} />
+                                <PublishToPullRequestButton job={triagedScan!.job} token={gitHostSettings.tokens.github} minSeverity={resultsFilter.minSeverity} />
+                            </div>
+                        )}
+                    </div>
                     <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
-                        <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-cyan-400">{repoScanSummary.total}</p><p className="text-sm text-gray-400">Total Files</p></div>
-                        <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-cyan-400">{repoScanSummary.analyzed}</p><p className="text-sm text-gray-400">Files Analyzed</p></div>
-                        <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-yellow-400">{repoScanSummary.withIssues}</p><p className="text-sm text-gray-400">Issues Found</p></div>
+                        <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-cyan-400">{repoScanSummary.total}</p><p className="text-sm text-gray-400">{repoScanSummary.isDiff ? 'Changed Files' : 'Total Files'}</p></div>
+                        <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-cyan-400">{repoScanSummary.analyzed}</p><p className="text-sm text-gray-400">Files Analyzed{repoScanSummary.fromCache > 0 && ` (${repoScanSummary.fromCache} from cache)`}</p></div>
+                        <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-yellow-400">{repoScanSummary.findings}</p><p className="text-sm text-gray-400">Issues Found in {repoScanSummary.withIssues} File(s)</p></div>
                         <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-red-400">{repoScanSummary.errors}</p><p className="text-sm text-gray-400">Scan Errors</p></div>
                     </div>
+                    {repoScanSummary.listingComplete === false ? (
+                        <p className="mt-4 text-sm text-yellow-300">File listing incomplete: the {repoScanSummary.isDiff ? 'changes were' : 'repository was'} too large to list in full, so files beyond the {repoScanSummary.total} listed were not scanned.{!repoScanSummary.isDiff && ' Scan a subdirectory to cover a part of it completely.'}</p>
+                    ) : repoScanSummary.listingComplete && (
+                        <p className="mt-4 text-sm text-gray-400">File listing complete: every file in the {repoScanSummary.isDiff ? 'changes' : visibleScan?.directory ? 'directory' : 'repository'} was considered.</p>
+                    )}
+                    {visibleScan?.usage && (
+                        <p className="mt-4 text-sm text-gray-400">
+                            Model usage: {visibleScan.usage.requests} request(s), {formatTokens(visibleScan.usage.inputTokens)} input / {formatTokens(visibleScan.usage.outputTokens)} output tokens, {formatCost(visibleScan.usage.costUsd)}.
+                        </p>
+                    )}
+                    {triagedScan && triagedScan.dismissed > 0 && (
+                        <label className="flex items-center gap-2 mt-4 text-sm text-gray-400">
+                            <input type="checkbox" checked={showDismissed} onChange={(e) => setShowDismissed(e.target.checked)} />
+                            Show {triagedScan.dismissed} dismissed finding(s) (won't fix or false positive)
+                        </label>
+                    )}
+                    {repoScanSummary.findings > 0 && (
+                        <p className="mt-4 text-sm text-gray-400">
+                            {FINDING_SEVERITIES.map(severity => `${repoScanSummary.bySeverity[severity]} ${severity}`).join(' · ')}
+                        </p>
+                    )}
                 </div>
 
+                {visibleScan?.architecture && (
+                    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+                        <h3 className="text-xl font-bold text-white mb-2">Architecture Review</h3>
+                        <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: marked.parse(architectureToMarkdown(visibleScan.architecture), { async: false }) as string }}></div>
+                    </div>
+                )}
+
                 {repoErrors.length > 0 && (
                     <details className="bg-red-900/50 p-4 rounded-lg">
                         <summary className="cursor-pointer font-semibold text-red-300">Encountered {repoErrors.length} file scan error(s)</summary>
@@ -305,28 +1174,65 @@ const MainApp = () => {
                     </details>
                 )}
 
-                {Object.keys(groupedReviews).length > 0 ? (
-                    Object.entries(groupedReviews).map(([language, reviews]) => (
-                        <details key={language} className="bg-gray-800 p-4 rounded-lg" open>
-                            <summary className="cursor-pointer font-semibold text-gray-200 text-lg">{language} ({reviews.length} file(s) with issues)</summary>
-                            <div className="mt-4 space-y-4">
-                                {reviews.map(review => (
-                                    <details key={review.path} className="bg-gray-900 p-4 rounded-lg">
-                                        <summary className="cursor-pointer font-semibold text-cyan-400">{review.path}</summary>
-                                        <div className="mt-2 relative">
-                                        <div className="p-4 border-t border-gray-700 prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: review.htmlFeedback }}></div>
-                                        <CopyButton textToCopy={review.rawFeedback} />
-                                        </div>
-                                    </details>
-                                ))}
-                            </div>
-                        </details>
-                    ))
-                ) : repoErrors.length === 0 && (
+                {visibleScan && visibleScan.skipped.length > 0 && (
+                    <details className="bg-gray-800 p-4 rounded-lg">
+                        <summary className="cursor-pointer font-semibold text-gray-300">Skipped {visibleScan.skipped.length} file(s)</summary>
+                        <ul className="mt-2 list-disc list-inside text-gray-400 font-mono text-sm">
+                        {visibleScan.skipped.map(skip => <li key={skip.path}><strong>{skip.path}:</strong> {skip.reason}</li>)}
+                        </ul>
+                    </details>
+                )}
+
+                {repoReviews.length > 0 && (
+                    <ResultsDashboard reviews={repoReviews} filter={resultsFilter} onChange={setResultsFilter} />
+                )}
+
+                {visibleReviews.length > 0 ? (
+                    <div className="space-y-4">
+                        {visibleReviews.map(review => (
+                            <details key={review.path} className="bg-gray-800 p-4 rounded-lg">
+                                <summary className="cursor-pointer font-semibold text-cyan-400">
+                                    {review.path}{' '}
+                                    <span className="text-sm font-normal text-gray-400">
+                                        ({getLanguageForFile(review.path) || 'Other'}; {describeSeverities(review.findings)})
+                                    </span>
+                                </summary>
+                                <div className="mt-2 relative">
+                                <FindingTriageList review={review} repoKey={visibleRepoKey!} records={triageRecords} onTriage={handleTriage} />
+                                <CopyButton textToCopy={review.rawFeedback} />
+                                {visibleScan && !isLoading && (
+                                    <ReviewChat
+                                      key={`${visibleScan.id}-${review.path}`}
+                                      provider={provider}
+                                      messages={review.chat || []}
+                                      getContext={async () => ({
+                                          code: await loadScannedFile(visibleScan, review.path),
+                                          language: getLanguageForFile(review.path) || 'Text',
+                                          filePath: review.path,
+                                          review: review.rawFeedback,
+                                      })}
+                                      onChange={chat => handleReviewChatChange(review.path, chat)}
+                                    />
+                                )}
+                                </div>
+                            </details>
+                        ))}
+                    </div>
+                ) : repoReviews.length > 0 ? (
+                    <div className="p-4 bg-gray-800 text-gray-300 border border-gray-700 rounded-lg">
+                        No findings match the filters.
+                    </div>
+                ) : repoErrors.length === 0 && visibleScan?.status === 'completed' && (
                     <div className="p-4 bg-green-900/50 text-green-300 border border-green-700 rounded-lg">
-                        Excellent! No significant issues were found in any of the {repoScanSummary.analyzed} analyzed files.
+                        {triagedScan?.dismissed
+                          ? `No open issues remain in the ${repoScanSummary.analyzed} analyzed files; ${triagedScan.dismissed} finding(s) were dismissed.`
+                          : `Excellent! No significant issues were found in any of the ${repoScanSummary.analyzed} analyzed files.`}
                     </div>
                 )}
+
+                {visibleScan && !isLoading && (
+                    <ScanSuggestedEdits key={visibleScan.id} job={visibleScan} loadFile={path => loadScannedFile(visibleScan, path)} />
+                )}
             </div>
           )}
         </>
@@ -345,6 +1251,8 @@ const MainApp = () => {
             <NavButton mode="settings" currentMode={viewMode} setMode={setViewMode} label="Settings"><SettingsIcon className="w-5 h-5"/></NavButton>
             <NavButton mode="paste" currentMode={viewMode} setMode={setViewMode} label="Paste Code"><PasteIcon className="w-5 h-5"/></NavButton>
             <NavButton mode="repo" currentMode={viewMode} setMode={setViewMode} label="Git Repo"><GitIcon className="w-5 h-5"/></NavButton>
+            <NavButton mode="local" currentMode={viewMode} setMode={setViewMode} label="Local Files"><FolderIcon className="w-5 h-5"/></NavButton>
+            <NavButton mode="history" currentMode={viewMode} setMode={setViewMode} label="History"><HistoryIcon className="w-5 h-5"/></NavButton>
         </nav>
       </header>
       <main className="w-full max-w-7xl mx-auto flex flex-col flex-1">
@@ -0,0 +1,544 @@
+// Headless entry point: runs the same review pipeline as the web app from a terminal or CI job.
+import { existsSync, readFileSync, statSync } from 'node:fs';
+import { writeFile } from 'node:fs/promises';
+import { basename, dirname, resolve, sep } from 'node:path';
+import { parseArgs } from 'node:util';
+import { getLanguageForFile } from '../constants';
+import { FINDING_SEVERITIES, FindingSeverity } from '../types';
+import { createArchitectureFinalizer } from '../services/architectureReview';
+import { createFileReviewer } from '../services/fileReviewer';
+import { DEFAULT_PROVIDER_SETTINGS, LlmProvider, PROVIDER_LABELS, ProviderId, createProvider } from '../services/providers';
+import { RepoConfig, loadRepoConfig } from '../services/repoConfig';
+import { ContextSource, DEFAULT_REVIEW_CONTEXT_SETTINGS, createContextBuilder } from '../services/reviewContext';
+import { BUILT_IN_PROFILES, DEFAULT_REVIEW_PROFILE, ReviewProfile, parseReviewProfiles } from '../services/reviewProfiles';
+import { ReviewFileFn, ScanEngineOptions, ScanFile, ScanJob, runScan } from '../services/scanEngine';
+import { ModelPrice, UsageMeter, createUsageMeter, estimateScanUsage, formatCost, formatTokens, getModelPrice } from '../services/usage';
+import { GIT_HOST_LABELS, GitHostId, createRepositorySource, describeTarget, parseRepoUrl } from '../services/sources';
+import { DEFAULT_FILE_FILTER_RULES, evaluateFile, mergeFileFilterRules } from '../utils/fileFilter';
+import { CATEGORY_LABELS, severityRank } from '../utils/findings';
+import { REPORT_FORMATS, ReportFormat, ScanReport, buildScanReport, exportReport } from '../utils/report';
+import { listLocalFiles, readLocalFile, readOptionalLocalFile } from './localSource';
+
+const USAGE = `Usage:
+  gemini-review repo <repository-url | directory> [options]
+  gemini-review file <path> [options]
+
+Options:
+  --ref <ref>            Branch, tag or commit SHA to review (remote repositories only)
+  --path <dir>           Review only this directory of a remote repository, e.g. for a monorepo
+                         too large to list in full
+  --format <format>      text (default), sarif, json, markdown or html
+  --output <file>        Write the report to a file instead of standard output
+  --fail-on <severity>   Exit with code 1 if any finding is at least this severe
+                         (critical, high, medium, low or info)
+  --provider <id>        gemini (default), openai or mock
+  --model <name>         Model name (default depends on the provider)
+  --base-url <url>       Endpoint for the openai provider
+  --language <name>      Language of the file (file command; detected from the extension by default)
+  --concurrency <n>      Files reviewed at the same time (default 4)
+  --budget <usd>         Stop the scan once the model requests have cost about this much (list prices)
+  --context-tokens <n>   Token budget for repository context (layout, README, imported files)
+                         added to each file review (default 4000; 0 turns it off)
+  --architecture         Finish with a review of the repository's module structure
+  --profile-file <file>  Review profiles exported from the web app (JSON)
+  --profile <name>       The review profile to use, by name or id (default: the first in --profile-file,
+                         or the built-in "default"; built-ins are default, security and frontend)
+  --gitlab-host <url>    A self-hosted GitLab instance to recognise (repeatable)
+  --help                 Show this help
+
+Environment:
+  GEMINI_API_KEY         API key for the gemini provider
+  OPENAI_API_KEY         API key for the openai provider
+  GITHUB_TOKEN           Personal access token for GitHub (private repositories and higher rate limits)
+  GITLAB_TOKEN           Personal access token for GitLab
+  BITBUCKET_TOKEN        Access token, or username:app-password, for Bitbucket
+
+Exit codes: 0 on success, 1 when findings meet --fail-on, 2 on usage or runtime errors.`;
+
+// Exit codes, so CI can tell a failed gate from a broken run.
+const EXIT_OK = 0;
+const EXIT_FINDINGS = 1;
+const EXIT_ERROR = 2;
+
+type CliFormat = 'text' | ReportFormat;
+
+interface CliOptions {
+  ref?: string;
+  directory?: string;
+  format: CliFormat;
+  output?: string;
+  failOn?: FindingSeverity;
+  provider: LlmProvider;
+  // Counts the provider's usage; its price is null if unknown.
+  meter: UsageMeter;
+  price: ModelPrice | null;
+  budgetUsd: number | null;
+  language?: string;
+  concurrency: number;
+  gitlabHosts: string[];
+  contextTokens: number;
+  architecture: boolean;
+  profile: ReviewProfile;
+}
+
+// Environment variables holding the access token for each Git host.
+const TOKEN_VARIABLES: Record<GitHostId, string> = {
+  github: 'GITHUB_TOKEN',
+  gitlab: 'GITLAB_TOKEN',
+  bitbucket: 'BITBUCKET_TOKEN',
+};
+
+// A usage error: the message is followed by the usage text.
+class UsageError extends Error {}
+
+// Progress and diagnostics go to standard error, so standard output is just the report.
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+/**
+ * Creates the model provider from command-line options and environment variables.
+ * @param values The parsed options.
+ * @returns The provider, wrapped in a usage meter, and the model's price.
+ */
+const createCliProvider = (values: { provider?: string; model?: string; 'base-url'?: string }): { meter: UsageMeter; price: ModelPrice | null } => {
+  const id = (values.provider || 'gemini') as ProviderId;
+  if (!(id in PROVIDER_LABELS)) {
+    throw new UsageError(`Unknown provider "${values.provider}".`);
+  }
+  const apiKey = id === 'gemini' ? process.env.GEMINI_API_KEY || process.env.API_KEY || ''
+    : id === 'openai' ? process.env.OPENAI_API_KEY || ''
+    : '';
+  const settings = {
+    ...DEFAULT_PROVIDER_SETTINGS[id],
+    apiKey,
+    ...(values.model ? { model: values.model } : {}),
+    ...(values['base-url'] ? { baseUrl: values['base-url'] } : {}),
+  };
+  const provider = createProvider({ active: id, providers: { ...DEFAULT_PROVIDER_SETTINGS, [id]: settings } });
+  if (!provider) {
+    throw new Error(id === 'gemini'
+      ? 'Set the GEMINI_API_KEY environment variable to use the gemini provider.'
+      : `The ${PROVIDER_LABELS[id]} provider is not configured.`);
+  }
+  const price = getModelPrice(id, settings);
+  return { meter: createUsageMeter(provider, price), price };
+};
+
+/**
+ * Picks the review profile from the built-in profiles or a file exported from the web app.
+ * @param file The profile file, if given.
+ * @param name The profile's name or id. Defaults to the first profile in the file, or the default profile.
+ * @returns The profile.
+ */
+const loadProfile = (file: string | undefined, name: string | undefined): ReviewProfile => {
+  let profiles = BUILT_IN_PROFILES;
+  if (file) {
+    try {
+      profiles = parseReviewProfiles(readFileSync(file, 'utf8'));
+    } catch (e: any) {
+      throw new Error(`Could not load the review profiles from ${file}: ${e.message}`);
+    }
+  }
+  if (!name) return file ? profiles[0] : DEFAULT_REVIEW_PROFILE;
+  const profile = profiles.find(p => p.id === name || p.name.toLowerCase() === name.toLowerCase());
+  if (!profile) {
+    throw new UsageError(`Unknown review profile "${name}". Available: ${profiles.map(p => p.name).join(', ')}.`);
+  }
+  return profile;
+};
+
+/**
+ * Parses the command line.
+ * @param argv The arguments after the script name.
+ * @returns The command, its target and the options.
+ */
+const parseCommandLine = (argv: string[]): { command: string; target: string; options: CliOptions } | null => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      ref: { type: 'string' },
+      path: { type: 'string' },
+      format: { type: 'string', default: 'text' },
+      output: { type: 'string', short: 'o' },
+      'fail-on': { type: 'string' },
+      provider: { type: 'string' },
+      model: { type: 'string' },
+      'base-url': { type: 'string' },
+      language: { type: 'string' },
+      concurrency: { type: 'string', default: '4' },
+      budget: { type: 'string' },
+      'gitlab-host': { type: 'string', multiple: true, default: [] },
+      'context-tokens': { type: 'string', default: String(DEFAULT_REVIEW_CONTEXT_SETTINGS.maxTokens) },
+      architecture: { type: 'boolean', default: false },
+      'profile-file': { type: 'string' },
+      profile: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  if (values.help) return null;
+
+  const [command, target] = positionals;
+  if (command !== 'repo' && command !== 'file') {
+    throw new UsageError(command ? `Unknown command "${command}".` : 'Missing command.');
+  }
+  if (!target) {
+    throw new UsageError(`Missing ${command === 'repo' ? 'repository URL or directory' : 'file path'}.`);
+  }
+  const format = values.format as CliFormat;
+  if (format !== 'text' && !REPORT_FORMATS.some(f => f.format === format)) {
+    throw new UsageError(`Unknown format "${values.format}".`);
+  }
+  const failOn = values['fail-on'] as FindingSeverity | undefined;
+  if (failOn && !FINDING_SEVERITIES.includes(failOn)) {
+    throw new UsageError(`Unknown severity "${failOn}".`);
+  }
+  const concurrency = Number(values.concurrency);
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new UsageError('--concurrency must be a positive whole number.');
+  }
+  const budgetUsd = values.budget === undefined ? null : Number(values.budget);
+  if (budgetUsd !== null && !(budgetUsd > 0)) {
+    throw new UsageError('--budget must be a positive number of US dollars.');
+  }
+  const contextTokens = Number(values['context-tokens']);
+  if (!Number.isInteger(contextTokens) || contextTokens < 0) {
+    throw new UsageError('--context-tokens must be a whole number.');
+  }
+
+  const { meter, price } = createCliProvider(values);
+  return {
+    command,
+    target,
+    options: {
+      ref: values.ref,
+      directory: values.path?.replace(/^\/+|\/+$/g, '') || undefined,
+      format,
+      output: values.output,
+      failOn,
+      provider: meter.provider,
+      meter,
+      price,
+      budgetUsd,
+      language: values.language,
+      concurrency,
+      gitlabHosts: values['gitlab-host'] as string[],
+      contextTokens,
+      architecture: !!values.architecture,
+      profile: loadProfile(values['profile-file'], values.profile),
+    },
+  };
+};
+
+/**
+ * Builds a scan job for the given files, filtered by the default rules and the repository's config file.
+ * @param fields What is being scanned.
+ * @param files Every file in the tree or diff, before filtering.
+ * @param config Rules from the repository's config file, if any.
+ * @param provider The model provider, recorded in the report.
+ * @returns The job, ready to run.
+ */
+const createJob = (fields: Pick<ScanJob, 'repoUrl' | 'owner' | 'repo' | 'scope' | 'isDiff' | 'commitSha' | 'directory' | 'listingComplete' | 'context' | 'profile'>, files: ScanFile[], config: RepoConfig | null, provider: LlmProvider): ScanJob => {
+  const rules = mergeFileFilterRules(DEFAULT_FILE_FILTER_RULES, config);
+  const now = Date.now();
+  return {
+    id: `${now}`,
+    ...fields,
+    model: `${provider.id}/${provider.model}`,
+    totalFiles: files.length,
+    files: files.filter(file => evaluateFile(file, rules).included),
+    rules,
+    completed: [],
+    reviews: [],
+    errors: [],
+    skipped: [],
+    fromCache: 0,
+    status: 'running',
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// A scan that is ready to run: the job, how to read its files and, for the architecture pass, how to finish.
+interface ScanPlan {
+  job: ScanJob;
+  reviewFile: ReviewFileFn;
+  finalize?: ScanEngineOptions['finalize'];
+}
+
+/**
+ * Works out the context settings of a repository or directory scan from the command-line options.
+ * @param options The command-line options.
+ * @returns The job's context settings, or undefined if context and the architecture pass are both off.
+ */
+const getContextSettings = (options: CliOptions): ScanJob['context'] =>
+  options.contextTokens > 0 || options.architecture
+    ? { maxTokens: options.contextTokens, architecturePass: options.architecture }
+    : undefined;
+
+/**
+ * Creates the context builder for a scan, for the file reviews and the architecture pass as enabled.
+ * @param job The job, with its context settings.
+ * @param provider The model provider.
+ * @param source Where to list and read repository files.
+ * @returns The context for the file reviewer and the finalize step for the scan, each undefined when off.
+ */
+const createScanContext = (job: ScanJob, provider: LlmProvider, source: ContextSource) => {
+  const builder = job.context ? createContextBuilder(source, job.context.maxTokens) : null;
+  return {
+    context: builder && job.context!.maxTokens > 0 ? builder : undefined,
+    finalize: builder && job.context!.architecturePass ? createArchitectureFinalizer(provider, builder) : undefined,
+  };
+};
+
+/**
+ * Lists a repository, pull/merge request or comparison on GitHub, GitLab or Bitbucket.
+ * @param url The repository URL.
+ * @param options The command-line options.
+ * @returns The scan plan.
+ */
+const planRemoteScan = async (url: string, options: CliOptions): Promise<ScanPlan> => {
+  const location = parseRepoUrl(url, options.gitlabHosts);
+  if (!location) {
+    throw new Error(`"${url}" is not a GitHub, GitLab or Bitbucket URL, or an existing directory.`);
+  }
+  const { owner, repo, target } = location;
+  const hostName = GIT_HOST_LABELS[location.host];
+  const source = createRepositorySource(location, {
+    token: process.env[TOKEN_VARIABLES[location.host]],
+    onRateLimit: resetAt => log(`${hostName} API rate limit reached. Waiting until ${resetAt.toLocaleTimeString()}...`),
+  });
+
+  const isDiff = target.kind !== 'repo';
+  const listing = isDiff ? await source.listChangedFiles() : await source.listFiles(options.ref, options.directory);
+  const { sha: commitSha, files, truncated } = listing;
+  // A URL that points at a directory lists just that directory.
+  const directory = isDiff ? undefined : listing.directory || options.directory;
+  if (truncated) {
+    log(isDiff
+      ? `The change is too large to list in full; only ${files.length} files were listed.`
+      : `The repository is too large to list in full; only ${files.length} files were listed. Use --path to review a directory completely.`);
+  }
+  // A directory listing does not include the config file at the repository root.
+  const knownPaths = isDiff || directory ? undefined : files.map(file => file.path);
+
+  const repoConfig = await loadRepoConfig(path => source.getOptionalFileContent(path, commitSha), knownPaths);
+  if (repoConfig) log(`Using rules from ${repoConfig.path}.`);
+  const scope = describeTarget(location, listing.ref || options.ref, directory);
+  const job = createJob({ repoUrl: url, owner, repo, scope, isDiff, commitSha, directory, listingComplete: !truncated, context: getContextSettings(options), profile: options.profile }, files, repoConfig?.config || null, options.provider);
+  const { context, finalize } = createScanContext(job, options.provider, {
+    // A diff only lists the changed files, so the whole tree is listed for context.
+    listPaths: async () => knownPaths || (await source.listFiles(commitSha, directory)).files.map(file => file.path),
+    readFile: path => source.getOptionalFileContent(path, commitSha).catch(() => null),
+  });
+  const reviewFile = createFileReviewer({
+    provider: options.provider,
+    readFile: (file, signal) => source.getFileContent(file.path, commitSha, signal),
+    skipGenerated: job.rules.skipGenerated,
+    useCache: false,
+    context,
+    profile: job.profile,
+  });
+  return { job, reviewFile, finalize };
+};
+
+/**
+ * Lists a local directory, such as a working copy in a CI job.
+ * @param directory The directory to review.
+ * @param options The command-line options.
+ * @returns The scan plan.
+ */
+const planLocalScan = async (directory: string, options: CliOptions): Promise<ScanPlan> => {
+  const root = resolve(directory);
+  const repoConfig = await loadRepoConfig(path => readOptionalLocalFile(root, path));
+  if (repoConfig) log(`Using rules from ${repoConfig.path}.`);
+  const exclude = mergeFileFilterRules(DEFAULT_FILE_FILTER_RULES, repoConfig?.config).exclude;
+  const files = await listLocalFiles(root, exclude);
+  const job = createJob({ repoUrl: root, owner: '', repo: basename(root), scope: directory, isDiff: false, commitSha: 'working tree', listingComplete: true, context: getContextSettings(options), profile: options.profile }, files, repoConfig?.config || null, options.provider);
+  const { context, finalize } = createScanContext(job, options.provider, {
+    listPaths: async () => files.map(file => file.path),
+    readFile: path => readOptionalLocalFile(root, path),
+  });
+  const reviewFile = createFileReviewer({
+    provider: options.provider,
+    readFile: file => readLocalFile(root, file.path),
+    skipGenerated: job.rules.skipGenerated,
+    useCache: false,
+    context,
+    profile: job.profile,
+  });
+  return { job, reviewFile, finalize };
+};
+
+/**
+ * Plans the review of a single file. The file is reviewed even if the filter rules would leave it out.
+ * @param target The file path.
+ * @param options The command-line options.
+ * @returns The scan plan, for a one-file scan, so every report format works the same way.
+ */
+const planFileReview = (target: string, options: CliOptions): ScanPlan => {
+  if (!existsSync(target) || !statSync(target).isFile()) {
+    throw new Error(`File not found: ${target}`);
+  }
+  const language = options.language || getLanguageForFile(target);
+  if (!language) {
+    throw new Error(`Cannot tell the language of ${target}; pass --language.`);
+  }
+  const path = target.split(sep).join('/');
+  const job = createJob({ repoUrl: resolve(target), owner: '', repo: basename(target), scope: path, isDiff: false, commitSha: 'working tree', profile: options.profile }, [], null, options.provider);
+  job.files = [{ path }];
+  job.totalFiles = 1;
+  const reviewFile = createFileReviewer({
+    provider: options.provider,
+    readFile: () => readLocalFile(dirname(resolve(target)), basename(target)),
+    skipGenerated: false,
+    useCache: false,
+    getLanguage: () => language,
+    profile: job.profile,
+  });
+  return { job, reviewFile };
+};
+
+/**
+ * Runs a scan, reporting progress on standard error. Ctrl+C stops it and keeps the partial results.
+ * @param plan The job and how to review its files.
+ * @param options The command-line options.
+ * @returns The finished (or stopped) job.
+ */
+const executeScan = async ({ job, reviewFile, finalize }: ScanPlan, options: CliOptions): Promise<ScanJob> => {
+  log(`Reviewing ${job.files.length} of ${job.totalFiles} file(s) in ${job.scope} with ${job.model} (${job.profile?.name})...`);
+  const estimateOptions = {
+    profile: job.profile!,
+    contextTokens: job.context?.maxTokens || 0,
+    architecturePass: !!job.context?.architecturePass,
+    maxOutputTokens: options.provider.generationConfig.maxOutputTokens,
+    price: options.price,
+  };
+  const estimate = estimateScanUsage(job.files, estimateOptions);
+  log(`Estimated: ~${formatTokens(estimate.inputTokens)} input / ~${formatTokens(estimate.outputTokens)} output tokens, ${formatCost(estimate.costUsd)}.`);
+  if (options.budgetUsd !== null && !options.price) {
+    log(`The price of ${options.provider.model} is not known, so --budget does not apply.`);
+  }
+  const controller = new AbortController();
+  const onInterrupt = () => {
+    log('Stopping; the report will be partial.');
+    controller.abort();
+  };
+  process.once('SIGINT', onInterrupt);
+
+  let reported = 0;
+  try {
+    const finished = await runScan(job, reviewFile, {
+      concurrency: options.concurrency,
+      signal: controller.signal,
+      // There is nothing to resume in a one-off run.
+      persist: async () => {},
+      finalize: finalize && (async (current, signal) => {
+        log('Reviewing the architecture...');
+        return finalize(current, signal);
+      }),
+      onUpdate: update => {
+        if (update.completed.length > reported) {
+          reported = update.completed.length;
+          log(`[${reported}/${update.files.length}] ${update.completed[reported - 1]}`);
+        }
+      },
+      usage: {
+        meter: options.meter,
+        budgetUsd: options.budgetUsd,
+        estimateCostUsd: file => estimateScanUsage([file], { ...estimateOptions, architecturePass: false }).costUsd,
+      },
+    });
+    if (finished.stopReason === 'budget') {
+      log(`Stopped: the scan reached its ${formatCost(options.budgetUsd)} budget; the report will be partial.`);
+    }
+    if (finished.usage) {
+      const { requests, inputTokens, outputTokens, costUsd } = finished.usage;
+      log(`Used ${requests} request(s), ${formatTokens(inputTokens)} input / ${formatTokens(outputTokens)} output tokens, ${formatCost(costUsd)}.`);
+    }
+    return finished;
+  } finally {
+    process.off('SIGINT', onInterrupt);
+  }
+};
+
+/**
+ * Renders a report as plain text, one line per finding, in the `path:line: severity` style of compilers.
+ * @param report The report.
+ * @returns The text.
+ */
+const reportToText = (report: ScanReport): string => {
+  const { summary } = report;
+  const lines = report.reviews.flatMap(review => review.findings.map(f =>
+    `${review.path}:${f.startLine}${f.endLine !== f.startLine ? `-${f.endLine}` : ''}: ${f.severity} [${f.category}] ${f.message.split('\n')[0]}`));
+  report.errors.forEach(e => lines.push(`${e.path}: error: ${e.error}`));
+  if (report.architecture?.error) {
+    lines.push(`architecture: error: ${report.architecture.error}`);
+  }
+  report.architecture?.findings.forEach(f =>
+    lines.push(`${f.paths.join(', ') || '.'}: ${f.severity} [${f.category}] ${CATEGORY_LABELS[f.category]}: ${f.message.split('\n')[0]}`));
+  if (lines.length > 0) lines.push('');
+  lines.push(`${summary.findings} issue(s) in ${summary.withIssues} file(s); ${summary.analyzed} file(s) analyzed; ${summary.errors} error(s).`);
+  if (summary.listingComplete === false) {
+    lines.push('The file listing was incomplete; files the host could not list were not reviewed.');
+  }
+  lines.push(FINDING_SEVERITIES.map(severity => `${summary.bySeverity[severity]} ${severity}`).join(' · '));
+  return lines.join('\n') + '\n';
+};
+
+/**
+ * Writes the report and works out the exit code.
+ * @param job The finished (or stopped) job.
+ * @param options The command-line options.
+ * @returns 1 if findings meet `--fail-on`; otherwise 2 if files failed or the scan was stopped, else 0.
+ */
+const writeReport = async (job: ScanJob, options: CliOptions): Promise<number> => {
+  const report = buildScanReport(job);
+  const content = options.format === 'text' ? reportToText(report) : exportReport(report, options.format).content;
+  if (options.output) {
+    await writeFile(options.output, content, 'utf8');
+    log(`Report written to ${options.output}.`);
+  } else {
+    process.stdout.write(content);
+  }
+
+  const failOn = options.failOn;
+  if (failOn && job.reviews.some(review => review.findings.some(f => severityRank(f.severity) <= severityRank(failOn)))) {
+    log(`Found issues of ${failOn} severity or higher.`);
+    return EXIT_FINDINGS;
+  }
+  return job.errors.length > 0 || job.status !== 'completed' ? EXIT_ERROR : EXIT_OK;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  let parsed;
+  try {
+    parsed = parseCommandLine(argv);
+  } catch (e: any) {
+    if (e instanceof UsageError || String(e?.code).startsWith('ERR_PARSE_ARGS')) {
+      log(`${e.message}\n\n${USAGE}`);
+      return EXIT_ERROR;
+    }
+    throw e;
+  }
+  if (!parsed) {
+    log(USAGE);
+    return EXIT_OK;
+  }
+
+  const { command, target, options } = parsed;
+  const plan = command === 'file' ? planFileReview(target, options)
+    : existsSync(target) && statSync(target).isDirectory() ? await planLocalScan(target, options)
+    : await planRemoteScan(target, options);
+  const job = await executeScan(plan, options);
+  return writeReport(job, options);
+};
+
+main(process.argv.slice(2))
+  .then(code => {
+    // Setting the code rather than calling process.exit lets piped output finish writing.
+    process.exitCode = code;
+  })
+  .catch(e => {
+    log(`Error: ${e?.message || e}`);
+    process.exitCode = EXIT_ERROR;
+  });
@@ -0,0 +1,58 @@
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join, relative, sep } from 'node:path';
+import { ScanFile } from '../services/scanEngine';
+import { matchesAnyGlob } from '../utils/glob';
+
+// Never worth walking into, whatever the rules say.
+const IGNORED_DIRECTORIES = new Set(['.git', '.hg', '.svn']);
+
+/**
+ * Lists the files in a local directory, like a repository tree. Directories matched by an exclude glob are
+ * not walked at all, so `node_modules/` and friends cost nothing.
+ * @param root The directory to list.
+ * @param exclude Exclude globs from the filter rules.
+ * @returns The files, with `/`-separated paths relative to the root and their sizes.
+ */
+export const listLocalFiles = async (root: string, exclude: string[]): Promise<ScanFile[]> => {
+  const files: ScanFile[] = [];
+  const walk = async (dir: string) => {
+    const entries = await readdir(dir, { withFileTypes: true });
+    for (const entry of entries) {
+      const fullPath = join(dir, entry.name);
+      const path = relative(root, fullPath).split(sep).join('/');
+      if (entry.isDirectory()) {
+        if (!IGNORED_DIRECTORIES.has(entry.name) && !matchesAnyGlob(`${path}/`, exclude)) {
+          await walk(fullPath);
+        }
+      } else if (entry.isFile()) {
+        files.push({ path, size: (await stat(fullPath)).size });
+      }
+    }
+  };
+  await walk(root);
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+};
+
+/**
+ * Reads a file from a local directory.
+ * @param root The directory the path is relative to.
+ * @param path The `/`-separated relative path.
+ * @returns The file content as UTF-8 text.
+ */
+export const readLocalFile = (root: string, path: string): Promise<string> =>
+  readFile(join(root, ...path.split('/')), 'utf8');
+
+/**
+ * Reads a file from a local directory, or returns null if it does not exist.
+ * @param root The directory the path is relative to.
+ * @param path The `/`-separated relative path.
+ * @returns The file content, or null.
+ */
+export const readOptionalLocalFile = async (root: string, path: string): Promise<string | null> => {
+  try {
+    return await readLocalFile(root, path);
+  } catch (e: any) {
+    if (e?.code === 'ENOENT') return null;
+    throw e;
+  }
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { ScanJob } from '../services/scanEngine';
+import { downloadTextFile } from '../utils/download';
+import { REPORT_FORMATS, ReportFormat, buildScanReport, exportReport } from '../utils/report';
+
+interface ExportReportButtonsProps {
+  job: ScanJob;
+}
+
+const ExportReportButtons: React.FC<ExportReportButtonsProps> = ({ job }) => {
+  const handleExport = (format: ReportFormat) => {
+    const { filename, mimeType, content } = exportReport(buildScanReport(job), format);
+    downloadTextFile(filename, content, mimeType);
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      <span className="text-gray-400">Export report:</span>
+      {REPORT_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          className="px-3 py-1 bg-gray-700 text-gray-200 rounded-lg hover:bg-gray-600 transition"
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default ExportReportButtons;
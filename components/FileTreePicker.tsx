@@ -0,0 +1,135 @@
+import React, { useMemo, useState } from 'react';
+import { getLanguageForFile } from '../constants';
+import { FilterDecision } from '../utils/fileFilter';
+import { FileTreeDirectory, buildFileTree, listFilesUnder } from '../utils/fileTree';
+
+interface FileTreePickerProps {
+  // Every listed file, with what the filter rules decided for it.
+  decisions: { path: string; decision: FilterDecision }[];
+  // The files to review.
+  selected: Set<string>;
+  onChange: (selected: Set<string>) => void;
+  // Whether the selection was made by hand rather than by the filter rules.
+  isCustom: boolean;
+  // Goes back to reviewing what the filter rules include.
+  onReset: () => void;
+}
+
+interface TreeProps {
+  directory: FileTreeDirectory;
+  depth: number;
+  reasons: Map<string, string>;
+  selected: Set<string>;
+  open: Set<string>;
+  onToggleOpen: (path: string) => void;
+  onSelect: (paths: string[], select: boolean) => void;
+}
+
+// Only files in a known language can be reviewed.
+const isSelectable = (path: string) => getLanguageForFile(path) !== null;
+
+const fileName = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+// The contents of a directory. Subdirectories are only rendered while open, so large repositories stay fast.
+const TreeContents: React.FC<TreeProps> = (props) => {
+  const { directory, depth, reasons, selected, open, onToggleOpen, onSelect } = props;
+  const indent = { paddingLeft: `${depth * 1.25}rem` };
+  return (
+    <>
+      {directory.directories.map(child => {
+        const selectable = listFilesUnder(child).filter(isSelectable);
+        // Ticking a folder adds only what the rules include; files they leave out have to be ticked one by one.
+        const included = selectable.filter(path => !reasons.has(path));
+        const shown = selectable.filter(path => !reasons.has(path) || selected.has(path));
+        const count = shown.filter(path => selected.has(path)).length;
+        const isOpen = open.has(child.path);
+        return (
+          <li key={child.path}>
+            <div className="flex items-center gap-2 py-0.5" style={indent}>
+              <input
+                type="checkbox"
+                checked={shown.length > 0 && count === shown.length}
+                disabled={shown.length === 0}
+                onChange={(e) => onSelect(e.target.checked ? included : selectable, e.target.checked)}
+                aria-label={`Review ${child.path}`}
+              />
+              <button onClick={() => onToggleOpen(child.path)} className="flex-grow text-left text-gray-200 hover:text-cyan-400 truncate">
+                {isOpen ? '▾' : '▸'} {child.name}/
+              </button>
+              <span className="text-gray-500 shrink-0">{count}/{shown.length}</span>
+            </div>
+            {isOpen && (
+              <ul>
+                <TreeContents {...props} directory={child} depth={depth + 1} />
+              </ul>
+            )}
+          </li>
+        );
+      })}
+      {directory.files.map(path => {
+        const language = getLanguageForFile(path);
+        const reason = reasons.get(path);
+        return (
+          <li key={path} className="flex items-center gap-2 py-0.5" style={indent}>
+            <input
+              type="checkbox"
+              checked={selected.has(path)}
+              disabled={!language}
+              onChange={(e) => onSelect([path], e.target.checked)}
+              aria-label={`Review ${path}`}
+            />
+            <span className={`flex-grow truncate ${language ? 'text-gray-300' : 'text-gray-500'}`}>{fileName(path)}</span>
+            {reason && language && <span className="text-yellow-500/80 shrink-0">{reason}</span>}
+            <span className="text-gray-500 shrink-0">{language || 'not reviewable'}</span>
+          </li>
+        );
+      })}
+    </>
+  );
+};
+
+const FileTreePicker: React.FC<FileTreePickerProps> = ({ decisions, selected, onChange, isCustom, onReset }) => {
+  const tree = useMemo(() => buildFileTree(decisions.map(d => d.path)), [decisions]);
+  // Files the filter rules leave out say why, so ticking one is a deliberate choice.
+  const reasons = useMemo(() => new Map(decisions.flatMap(d => d.decision.included ? [] : [[d.path, d.decision.reason || 'Excluded'] as [string, string]])), [decisions]);
+  const [open, setOpen] = useState<Set<string>>(() => new Set());
+
+  const handleToggleOpen = (path: string) => {
+    const next = new Set(open);
+    if (next.has(path)) next.delete(path); else next.add(path);
+    setOpen(next);
+  };
+
+  const handleSelect = (paths: string[], select: boolean) => {
+    const next = new Set(selected);
+    paths.forEach(path => { if (select) next.add(path); else next.delete(path); });
+    onChange(next);
+  };
+
+  return (
+    <details className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+      <summary className="cursor-pointer text-lg font-bold text-white">Browse and pick files</summary>
+      <p className="text-sm text-gray-400 mt-2 mb-3">
+        Tick folders or files to review just those. Folders and Select All add the files the rules include; files the rules leave out can be ticked one by one.
+      </p>
+      <div className="flex flex-wrap gap-2 mb-3 text-sm">
+        <button onClick={() => onChange(new Set(decisions.filter(d => d.decision.included).map(d => d.path)))} className="px-3 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">Select All</button>
+        <button onClick={() => onChange(new Set())} className="px-3 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">Select None</button>
+        <button onClick={onReset} disabled={!isCustom} className="px-3 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:opacity-50 transition">Use Filter Rules</button>
+      </div>
+      <ul className="max-h-96 overflow-y-auto font-mono text-xs bg-gray-900 p-3 rounded-lg">
+        <TreeContents
+          directory={tree}
+          depth={0}
+          reasons={reasons}
+          selected={selected}
+          open={open}
+          onToggleOpen={handleToggleOpen}
+          onSelect={handleSelect}
+        />
+      </ul>
+    </details>
+  );
+};
+
+export default FileTreePicker;
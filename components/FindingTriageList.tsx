@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { marked } from 'marked';
+import { getLanguageForFile } from '../constants';
+import { FileReview, ReviewFinding } from '../types';
+import { CATEGORY_LABELS, findingToMarkdown } from '../utils/findings';
+import { TRIAGE_STATUSES, TRIAGE_STATUS_LABELS, TriageRecord, TriageStatus, getTriageId, isDismissed } from '../utils/triage';
+
+interface FindingTriageListProps {
+  review: FileReview;
+  // The repository, from `getScanRepoKey`.
+  repoKey: string;
+  // The triage records of the repository, by id.
+  records: Map<string, TriageRecord>;
+  onTriage: (path: string, finding: ReviewFinding, status: TriageStatus, note: string) => void;
+}
+
+const renderMarkdown = (text: string) => marked.parse(text, { async: false }) as string;
+
+// The status and note of one finding. The note is saved when the field loses focus.
+const TriageControls: React.FC<{ record?: TriageRecord; onChange: (status: TriageStatus, note: string) => void }> = ({ record, onChange }) => {
+  const status = record?.status || 'open';
+  const [note, setNote] = useState(record?.note || '');
+  return (
+    <div className="flex flex-col md:flex-row gap-2 mt-2 text-sm">
+      <select
+        value={status}
+        onChange={(e) => onChange(e.target.value as TriageStatus, note)}
+        aria-label="Finding status"
+        className="bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+      >
+        {TRIAGE_STATUSES.map(s => <option key={s} value={s}>{TRIAGE_STATUS_LABELS[s]}</option>)}
+      </select>
+      <input
+        type="text"
+        value={note}
+        onChange={(e) => setNote(e.target.value)}
+        onBlur={() => { if (note !== (record?.note || '')) onChange(status, note); }}
+        placeholder="Note (optional)"
+        aria-label="Finding note"
+        className="flex-grow bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+      />
+    </div>
+  );
+};
+
+const FindingTriageList: React.FC<FindingTriageListProps> = ({ review, repoKey, records, onTriage }) => {
+  const language = getLanguageForFile(review.path) || undefined;
+  return (
+    <div className="p-4 border-t border-gray-700 space-y-4">
+      {review.summary && <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: renderMarkdown(review.summary) }}></div>}
+      <ul className="space-y-4">
+        {review.findings.map((finding, i) => {
+          const record = finding.fingerprint ? records.get(getTriageId(repoKey, review.path, finding)) : undefined;
+          return (
+            <li key={i} className={record && isDismissed(record.status) ? 'opacity-50' : ''}>
+              <p className="text-xs uppercase tracking-wide text-gray-500">
+                {CATEGORY_LABELS[finding.category]}{record && record.status !== 'open' && ` · ${TRIAGE_STATUS_LABELS[record.status]}`}
+              </p>
+              <div className="prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: renderMarkdown(findingToMarkdown(finding, language)) }}></div>
+              {finding.fingerprint ? (
+                <TriageControls key={record?.updatedAt} record={record} onChange={(status, note) => onTriage(review.path, finding, status, note)} />
+              ) : (
+                <p className="mt-2 text-xs text-gray-500">Findings from scans made before triage was available cannot be triaged. Scan again to triage them.</p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default FindingTriageList;
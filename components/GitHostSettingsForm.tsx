@@ -0,0 +1,88 @@
+import React, { useState, useEffect } from 'react';
+import { GIT_HOST_LABELS, GitHostId, GitHostSettings } from '../services/sources';
+
+interface GitHostSettingsFormProps {
+  settings: GitHostSettings;
+  onSave: (settings: GitHostSettings) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg leading-tight focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition";
+
+const TOKEN_HELP: Record<GitHostId, { placeholder: string; help: string }> = {
+  github: {
+    placeholder: 'github_pat_... or ghp_...',
+    help: 'Raises the API rate limit from 60 to 5000 requests/hour. A read-only token with "Contents" and "Pull requests" access is enough; publishing reviews to pull requests needs write access to "Pull requests".',
+  },
+  gitlab: {
+    placeholder: 'glpat-...',
+    help: 'A personal or project access token with the "read_api" scope. Used for gitlab.com and the instances below.',
+  },
+  bitbucket: {
+    placeholder: 'Access token, or username:app-password',
+    help: 'A repository or workspace access token, or an app password written as "username:app-password", with read access to repositories and pull requests.',
+  },
+};
+
+const GitHostSettingsForm: React.FC<GitHostSettingsFormProps> = ({ settings, onSave }) => {
+  const [draft, setDraft] = useState<GitHostSettings>(settings);
+  // Self-hosted instances are edited as one URL per line.
+  const [hostsText, setHostsText] = useState(settings.gitlabHosts.join('\n'));
+  useEffect(() => {
+    setDraft(settings);
+    setHostsText(settings.gitlabHosts.join('\n'));
+  }, [settings]);
+
+  const setToken = (host: GitHostId, token: string) => setDraft({ ...draft, tokens: { ...draft.tokens, [host]: token } });
+
+  const handleSave = () => {
+    const gitlabHosts = hostsText.split('\n').map(line => line.trim()).filter(Boolean);
+    onSave({ ...draft, gitlabHosts });
+  };
+
+  return (
+    <div>
+      <h3 className="text-gray-300 text-sm font-bold mb-2">Git hosting access tokens (optional)</h3>
+      <p className="text-gray-400 text-sm mb-4">Needed to review private repositories. Each token is only sent to its own host's API.</p>
+      {(Object.keys(GIT_HOST_LABELS) as GitHostId[]).map(host => (
+        <div key={host} className="mb-4">
+          <label htmlFor={`${host}Token`} className="block text-gray-300 text-sm font-bold mb-2">{GIT_HOST_LABELS[host]} token</label>
+          <input
+            type="password"
+            id={`${host}Token`}
+            value={draft.tokens[host]}
+            onChange={(e) => setToken(host, e.target.value.trim())}
+            placeholder={TOKEN_HELP[host].placeholder}
+            className={inputClassName}
+          />
+          <p className="text-gray-500 text-xs mt-1">{TOKEN_HELP[host].help}</p>
+        </div>
+      ))}
+      <div className="mb-4">
+        <label htmlFor="gitlabHosts" className="block text-gray-300 text-sm font-bold mb-2">Self-hosted GitLab instances</label>
+        <textarea
+          id="gitlabHosts"
+          value={hostsText}
+          onChange={(e) => setHostsText(e.target.value)}
+          placeholder="https://gitlab.example.com"
+          rows={2}
+          className={`${inputClassName} font-mono`}
+        />
+        <p className="text-gray-500 text-xs mt-1">One base URL per line. URLs on these hosts are reviewed through their GitLab API.</p>
+      </div>
+      <div className="flex items-center gap-4">
+        <button onClick={handleSave} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition">
+          Save Tokens
+        </button>
+        <button
+          onClick={() => setDraft({ ...draft, tokens: { github: '', gitlab: '', bitbucket: '' } })}
+          disabled={!Object.values(draft.tokens).some(Boolean)}
+          className="px-6 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 disabled:bg-gray-500 transition"
+        >
+          Clear Tokens
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default GitHostSettingsForm;
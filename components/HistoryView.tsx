@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { HistoryEntry, ScanHistoryEntry } from '../services/historyStore';
+import { DEFAULT_REVIEW_PROFILE } from '../services/reviewProfiles';
+import { getScanRepoKey } from '../utils/scanComparison';
+import ScanComparisonView from './ScanComparisonView';
+
+interface HistoryViewProps {
+  // Newest first, or null while loading.
+  entries: HistoryEntry[] | null;
+  onOpen: (entry: HistoryEntry) => void;
+  onDelete: (entry: HistoryEntry) => void;
+  onClear: () => void;
+  // Opening an entry replaces the current results, so it is disabled while a review runs.
+  disabled: boolean;
+}
+
+const describeEntry = (entry: HistoryEntry): { title: string; details: string[] } => {
+  if (entry.kind === 'paste') {
+    return {
+      title: `Pasted ${entry.language} code (${entry.code.split('\n').length} lines)`,
+      details: [entry.model, entry.profile, `${entry.result.findings.length} finding(s)`],
+    };
+  }
+  const { job } = entry;
+  const findings = job.reviews.reduce((total, review) => total + review.findings.length, 0);
+  return {
+    title: job.scope,
+    details: [
+      ...(job.source === 'local' ? [] : [`commit ${job.commitSha.slice(0, 7)}`]),
+      job.model || 'unknown model',
+      job.profile?.name || DEFAULT_REVIEW_PROFILE.name,
+      `${findings} finding(s) in ${job.reviews.length} of ${job.completed.length} file(s)`,
+      ...(job.status === 'completed' ? [] : ['stopped']),
+    ],
+  };
+};
+
+const HistoryView: React.FC<HistoryViewProps> = ({ entries, onOpen, onDelete, onClear, disabled }) => {
+  // Up to two scans of the same repository, for comparing.
+  const [selected, setSelected] = useState<ScanHistoryEntry[]>([]);
+  const [comparing, setComparing] = useState<[ScanHistoryEntry, ScanHistoryEntry] | null>(null);
+
+  if (comparing) {
+    return <ScanComparisonView before={comparing[0].job} after={comparing[1].job} onClose={() => setComparing(null)} />;
+  }
+  if (!entries) {
+    return <p className="text-gray-400">Loading the history...</p>;
+  }
+  if (entries.length === 0) {
+    return (
+      <div className="p-8 bg-gray-800 rounded-lg text-center text-gray-400">
+        No reviews yet. Paste reviews and repository scans are saved here in your browser.
+      </div>
+    );
+  }
+
+  const selectedKey = selected[0] && getScanRepoKey(selected[0].job);
+  const canSelect = (entry: ScanHistoryEntry) =>
+    selected.some(s => s.id === entry.id) || (selected.length < 2 && (!selectedKey || getScanRepoKey(entry.job) === selectedKey));
+  const toggle = (entry: ScanHistoryEntry, checked: boolean) =>
+    setSelected(checked ? [...selected, entry] : selected.filter(s => s.id !== entry.id));
+  const handleCompare = () => {
+    const [a, b] = [...selected].sort((x, y) => x.createdAt - y.createdAt);
+    setComparing([a, b]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-gray-400 text-sm">Select two scans of the same repository to see which findings are new, resolved or unchanged.</p>
+        <div className="flex gap-2">
+          <button onClick={handleCompare} disabled={selected.length !== 2} className="px-4 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">
+            Compare Scans
+          </button>
+          <button onClick={() => { if (confirm('Delete the whole review history?')) { setSelected([]); onClear(); } }} className="px-4 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition">
+            Clear History
+          </button>
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {entries.map(entry => {
+          const { title, details } = describeEntry(entry);
+          return (
+            <li key={entry.id} className="flex items-center gap-4 p-4 bg-gray-800 rounded-lg border border-gray-700">
+              {entry.kind === 'scan' ? (
+                <input
+                  type="checkbox"
+                  checked={selected.some(s => s.id === entry.id)}
+                  disabled={!canSelect(entry)}
+                  onChange={(e) => toggle(entry, e.target.checked)}
+                  aria-label={`Select ${title} for comparison`}
+                />
+              ) : <span className="inline-block w-4" aria-hidden="true"></span>}
+              <div className="flex-grow min-w-0">
+                <p className="font-semibold text-cyan-400 truncate">{title}</p>
+                <p className="text-sm text-gray-400">{new Date(entry.createdAt).toLocaleString()} · {details.join(' · ')}</p>
+              </div>
+              <button onClick={() => onOpen(entry)} disabled={disabled} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:text-gray-500 transition">Open</button>
+              <button onClick={() => { setSelected(selected.filter(s => s.id !== entry.id)); onDelete(entry); }} className="px-4 py-2 bg-gray-700 text-red-300 rounded-lg hover:bg-gray-600 transition">Delete</button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default HistoryView;
@@ -16,7 +16,7 @@ const LandingPage: React.FC<LandingPageProps> = ({ onEnter }) => {
             Gemini Code Reviewer
         </h1>
         <p className="max-w-2xl mx-auto text-lg text-gray-400 mb-8">
-            Harness the power of Google's Gemini API to get instant, intelligent, and in-depth reviews of your code. Paste a snippet or link a public GitHub repository to get started.
+            Harness the power of Google's Gemini API to get instant, intelligent, and in-depth reviews of your code. Paste a snippet, link a GitHub, GitLab or Bitbucket repository or pull request, or open a local folder to get started.
         </p>
         <button
             onClick={onEnter}
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { FolderIcon } from './icons/FolderIcon';
+
+interface LocalSourcePickerProps {
+  onFolderSelected: (files: File[]) => void;
+  onZipSelected: (file: File) => void;
+  onItemsDropped: (items: DataTransferItemList) => void;
+  disabled: boolean;
+}
+
+const buttonClassName = "px-6 py-2 bg-gray-700 text-white font-bold rounded-lg hover:bg-gray-600 transition cursor-pointer";
+
+const LocalSourcePicker: React.FC<LocalSourcePickerProps> = ({ onFolderSelected, onZipSelected, onItemsDropped, disabled }) => {
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (!disabled) {
+      // Entries must be read while the drop event is being handled, so pass the items on straight away.
+      onItemsDropped(e.dataTransfer.items);
+    }
+  };
+
+  return (
+    <div
+      onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+      onDragLeave={() => setIsDragging(false)}
+      onDrop={handleDrop}
+      className={`flex flex-col items-center justify-center gap-4 p-8 rounded-lg border-2 border-dashed text-center transition ${isDragging ? 'border-cyan-500 bg-cyan-500/10' : 'border-gray-600 bg-gray-800'}`}
+    >
+      <FolderIcon className="w-10 h-10 text-cyan-400" />
+      <p className="text-gray-300">Drop a project folder or a <code>.zip</code> archive here, or choose one.</p>
+      <div className={`flex gap-4 ${disabled ? 'opacity-50 pointer-events-none' : ''}`}>
+        <label className={buttonClassName}>
+          Choose Folder
+          <input
+            type="file"
+            className="hidden"
+            // Non-standard attributes for picking a whole directory.
+            {...{ webkitdirectory: '', directory: '' }}
+            onChange={(e) => { if (e.target.files?.length) onFolderSelected(Array.from(e.target.files)); e.target.value = ''; }}
+          />
+        </label>
+        <label className={buttonClassName}>
+          Choose .zip
+          <input
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => { const file = e.target.files?.[0]; if (file) onZipSelected(file); e.target.value = ''; }}
+          />
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">Files are read in your browser. Only the code selected for review is sent to the model provider.</p>
+    </div>
+  );
+};
+
+export default LocalSourcePicker;
@@ -0,0 +1,95 @@
+import React, { useState, useEffect } from 'react';
+import { DEFAULT_PROVIDER_SETTINGS, LlmSettings, PROVIDER_LABELS, ProviderId, ProviderSettings } from '../services/providers';
+
+interface ProviderSettingsFormProps {
+  settings: LlmSettings;
+  onSave: (settings: LlmSettings) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg leading-tight focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition";
+
+const ProviderSettingsForm: React.FC<ProviderSettingsFormProps> = ({ settings, onSave }) => {
+  // Edits are kept as a draft until saved, so switching providers does not lose the others' settings.
+  const [draft, setDraft] = useState<LlmSettings>(settings);
+  useEffect(() => setDraft(settings), [settings]);
+
+  const active = draft.active;
+  const current = draft.providers[active];
+  const update = (changes: Partial<ProviderSettings>) =>
+    setDraft({ ...draft, providers: { ...draft.providers, [active]: { ...current, ...changes } } });
+
+  return (
+    <div>
+      <div className="mb-4">
+        <label htmlFor="provider" className="block text-gray-300 text-sm font-bold mb-2">Model Provider</label>
+        <select
+          id="provider"
+          value={active}
+          onChange={(e) => setDraft({ ...draft, active: e.target.value as ProviderId })}
+          className={inputClassName}
+        >
+          {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map(id => <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>)}
+        </select>
+      </div>
+
+      {active === 'mock' ? (
+        <p className="text-gray-400 text-sm mb-4">The mock provider runs entirely in the browser and returns the same findings for the same code. Use it for tests and demos.</p>
+      ) : (
+        <>
+          {active === 'openai' && (
+            <div className="mb-4">
+              <label htmlFor="baseUrl" className="block text-gray-300 text-sm font-bold mb-2">Base URL</label>
+              <input id="baseUrl" type="text" value={current.baseUrl} onChange={(e) => update({ baseUrl: e.target.value.trim() })} placeholder={DEFAULT_PROVIDER_SETTINGS.openai.baseUrl} className={inputClassName} />
+              <p className="text-gray-500 text-xs mt-1">Any endpoint that implements <code>/chat/completions</code>, e.g. <code>http://localhost:11434/v1</code> for a local model.</p>
+            </div>
+          )}
+          <div className="mb-4">
+            <label htmlFor="apiKey" className="block text-gray-300 text-sm font-bold mb-2">
+              {active === 'gemini' ? 'Google Gemini API Key' : 'API Key (optional for local models)'}
+            </label>
+            <input id="apiKey" type="password" value={current.apiKey} onChange={(e) => update({ apiKey: e.target.value.trim() })} placeholder="Enter your API key" className={inputClassName} />
+          </div>
+          <div className="mb-4">
+            <label htmlFor="model" className="block text-gray-300 text-sm font-bold mb-2">Model</label>
+            <input id="model" type="text" value={current.model} onChange={(e) => update({ model: e.target.value.trim() })} placeholder={DEFAULT_PROVIDER_SETTINGS[active].model} className={inputClassName} />
+          </div>
+          <div className="grid grid-cols-2 gap-4 mb-4">
+            <div>
+              <label htmlFor="temperature" className="block text-gray-300 text-sm font-bold mb-2">Temperature</label>
+              <input id="temperature" type="number" min={0} max={2} step={0.1} value={current.temperature} onChange={(e) => update({ temperature: Number(e.target.value) })} className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="maxOutputTokens" className="block text-gray-300 text-sm font-bold mb-2">Max output tokens</label>
+              <input id="maxOutputTokens" type="number" min={0} step={256} value={current.maxOutputTokens} onChange={(e) => update({ maxOutputTokens: Number(e.target.value) })} className={inputClassName} />
+              <p className="text-gray-500 text-xs mt-1">Includes thinking tokens. 0 leaves the limit to the model.</p>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4 mb-1">
+            <div>
+              <label htmlFor="inputPrice" className="block text-gray-300 text-sm font-bold mb-2">Input price</label>
+              <input id="inputPrice" type="number" min={0} step={0.01} value={current.inputPrice ?? ''} onChange={(e) => update({ inputPrice: e.target.value === '' ? undefined : Number(e.target.value) })} placeholder="List price" className={inputClassName} />
+            </div>
+            <div>
+              <label htmlFor="outputPrice" className="block text-gray-300 text-sm font-bold mb-2">Output price</label>
+              <input id="outputPrice" type="number" min={0} step={0.01} value={current.outputPrice ?? ''} onChange={(e) => update({ outputPrice: e.target.value === '' ? undefined : Number(e.target.value) })} placeholder="List price" className={inputClassName} />
+            </div>
+          </div>
+          <p className="text-gray-500 text-xs mb-4">USD per million tokens, for usage costs and scan budgets. Leave empty to use the built-in price list.</p>
+        </>
+      )}
+
+      <div className="flex items-center gap-4">
+        <button onClick={() => onSave(draft)} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition">
+          Save Settings
+        </button>
+        {active !== 'mock' && (
+          <button onClick={() => update({ apiKey: '' })} disabled={!current.apiKey} className="px-6 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 disabled:bg-gray-500 transition">
+            Clear Key
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsForm;
@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { parseGitHubUrl } from '../services/githubService';
+import { publishToPullRequest } from '../services/pullRequestPublisher';
+import { ScanJob } from '../services/scanEngine';
+import { FindingSeverity } from '../types';
+
+interface PublishToPullRequestButtonProps {
+  job: ScanJob;
+  token: string;
+  // Only findings at or above this severity are published, matching what is shown.
+  minSeverity: FindingSeverity;
+}
+
+const PublishToPullRequestButton: React.FC<PublishToPullRequestButtonProps> = ({ job, token, minSeverity }) => {
+  const target = job.source !== 'local' ? parseGitHubUrl(job.repoUrl) : null;
+  // Scans of a branch or commit can be published to any pull request whose head is that commit.
+  const [pullNumberText, setPullNumberText] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [status, setStatus] = useState<{ message: string; url?: string; isError?: boolean } | null>(null);
+
+  if (!target) return null;
+  const pullNumber = target.kind === 'pull' ? target.pullNumber : parseInt(pullNumberText, 10);
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    setStatus(null);
+    try {
+      const result = await publishToPullRequest(job, pullNumber, { token, minSeverity });
+      const skipped = result.duplicates ? ` ${result.duplicates} already published finding(s) were skipped.` : '';
+      setStatus(result.reviewUrl
+        ? { message: `Published ${result.inline} inline comment(s) and ${result.inSummary} finding(s) in the summary.${skipped}`, url: result.reviewUrl }
+        : { message: `Everything in this review was already published.${skipped}` });
+    } catch (e: any) {
+      setStatus({ message: e.message, isError: true });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-1 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        {target.kind !== 'pull' && (
+          <input
+            type="number"
+            min={1}
+            value={pullNumberText}
+            onChange={(e) => setPullNumberText(e.target.value)}
+            placeholder="PR #"
+            aria-label="Pull request number"
+            className="w-24 bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+          />
+        )}
+        <button
+          onClick={handlePublish}
+          disabled={isPublishing || !token || !(pullNumber > 0)}
+          title={token ? `Post findings of at least ${minSeverity} severity as a pull request review` : 'Add a GitHub token with write access in Settings to publish'}
+          className="px-3 py-1 bg-cyan-600 text-white rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition"
+        >
+          {isPublishing ? 'Publishing...' : 'Publish to PR'}
+        </button>
+      </div>
+      {status && (
+        <p className={status.isError ? 'text-red-400' : 'text-gray-400'}>
+          {status.message}{' '}
+          {status.url && <a href={status.url} target="_blank" rel="noopener noreferrer" className="text-cyan-400 hover:underline">View review</a>}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default PublishToPullRequestButton;
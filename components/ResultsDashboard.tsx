@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { getLanguageForFile } from '../constants';
+import { FINDING_CATEGORIES, FINDING_SEVERITIES, FileReview, FindingSeverity } from '../types';
+import { CATEGORY_LABELS } from '../utils/findings';
+import { EMPTY_RESULTS_FILTER, ResultsFilter, buildDirectoryHeatmap, filterReviews } from '../utils/resultsFilter';
+
+interface ResultsDashboardProps {
+  // Every file review of the scan, before filtering.
+  reviews: FileReview[];
+  filter: ResultsFilter;
+  onChange: (filter: ResultsFilter) => void;
+}
+
+const HEATMAP_DEPTHS = [1, 2, 3];
+// The heatmap shows the hottest directories first; the rest are left out to keep it short.
+const MAX_HEATMAP_ROWS = 30;
+
+const selectClassName = "bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500";
+
+// Background colours from cool to hot, by share of the hottest directory's heat.
+const heatColor = (share: number) =>
+  share > 0.75 ? 'bg-red-700' : share > 0.5 ? 'bg-orange-700' : share > 0.25 ? 'bg-yellow-700' : share > 0 ? 'bg-cyan-800' : 'bg-gray-700';
+
+const ResultsDashboard: React.FC<ResultsDashboardProps> = ({ reviews, filter, onChange }) => {
+  const [depth, setDepth] = useState(1);
+  const update = (changes: Partial<ResultsFilter>) => onChange({ ...filter, ...changes });
+
+  const languages = [...new Set(reviews.map(review => getLanguageForFile(review.path) || 'Other'))].sort();
+  const shown = filterReviews(reviews, filter);
+  const findingCount = shown.reduce((sum, review) => sum + review.findings.length, 0);
+  // The heatmap follows every filter except the directory, so it can be used to move between directories.
+  const heatmap = buildDirectoryHeatmap(filterReviews(reviews, { ...filter, directory: '' }), depth);
+  const maxHeat = Math.max(1, ...heatmap.map(row => row.heat));
+  const isFiltered = JSON.stringify(filter) !== JSON.stringify(EMPTY_RESULTS_FILTER);
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-xl font-bold text-white">Results</h3>
+        <p className="text-sm text-gray-400">
+          Showing {findingCount} finding(s) in {shown.length} of {reviews.length} file(s) with issues.
+          {isFiltered && <button onClick={() => onChange(EMPTY_RESULTS_FILTER)} className="ml-2 text-cyan-400 hover:underline">Clear filters</button>}
+        </p>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-2 text-sm">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => update({ query: e.target.value })}
+          placeholder="Search findings, paths and summaries"
+          aria-label="Search findings"
+          className="flex-grow bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+        />
+        <select value={filter.minSeverity} onChange={(e) => update({ minSeverity: e.target.value as FindingSeverity })} aria-label="Least severe findings to show" className={selectClassName}>
+          {FINDING_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity === 'info' ? 'All severities' : `${severity} or worse`}</option>)}
+        </select>
+        <select value={filter.language} onChange={(e) => update({ language: e.target.value })} aria-label="Language" className={selectClassName}>
+          <option value="">All languages</option>
+          {languages.map(language => <option key={language} value={language}>{language}</option>)}
+        </select>
+      </div>
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        {FINDING_CATEGORIES.map(category => {
+          const active = filter.categories.includes(category);
+          return (
+            <button
+              key={category}
+              onClick={() => update({ categories: active ? filter.categories.filter(c => c !== category) : [...filter.categories, category] })}
+              aria-pressed={active}
+              className={`px-3 py-1 rounded-full border transition ${active ? 'bg-cyan-700 border-cyan-500 text-white' : 'bg-gray-900 border-gray-600 text-gray-300 hover:border-cyan-500'}`}
+            >
+              {CATEGORY_LABELS[category]}
+            </button>
+          );
+        })}
+        {filter.directory && (
+          <button onClick={() => update({ directory: '' })} className="px-3 py-1 rounded-full border bg-cyan-700 border-cyan-500 text-white font-mono">
+            {filter.directory}/ ✕
+          </button>
+        )}
+      </div>
+
+      {heatmap.length > 0 && (
+        <details className="bg-gray-900 p-3 rounded-lg">
+          <summary className="cursor-pointer text-sm font-semibold text-gray-200">Directory heatmap</summary>
+          <label className="block mt-2 text-sm text-gray-400">
+            Directory depth{' '}
+            <select value={depth} onChange={(e) => setDepth(Number(e.target.value))} className={selectClassName}>
+              {HEATMAP_DEPTHS.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <ul className="mt-2 space-y-1 text-xs font-mono">
+            {heatmap.slice(0, MAX_HEATMAP_ROWS).map(row => (
+              <li key={row.directory}>
+                <button
+                  onClick={() => row.directory && update({ directory: row.directory === filter.directory ? '' : row.directory })}
+                  disabled={!row.directory}
+                  title={`${row.files} file(s): ${FINDING_SEVERITIES.map(severity => `${row.bySeverity[severity]} ${severity}`).join(', ')}`}
+                  className={`w-full flex items-center gap-2 text-left rounded ${row.directory === filter.directory && row.directory ? 'ring-1 ring-cyan-500' : ''}`}
+                >
+                  <span className="w-1/3 truncate text-gray-300">{row.directory ? `${row.directory}/` : '(root)'}</span>
+                  <span className="flex-grow h-4 bg-gray-800 rounded overflow-hidden">
+                    <span className={`block h-full ${heatColor(row.heat / maxHeat)}`} style={{ width: `${Math.max(2, (row.heat / maxHeat) * 100)}%` }}></span>
+                  </span>
+                  <span className="w-40 shrink-0 text-right text-gray-400">
+                    {row.bySeverity.critical + row.bySeverity.high} critical/high · {row.files} file(s)
+                  </span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          {heatmap.length > MAX_HEATMAP_ROWS && <p className="mt-2 text-xs text-gray-500">{heatmap.length - MAX_HEATMAP_ROWS} cooler directories not shown.</p>}
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ResultsDashboard;
@@ -0,0 +1,101 @@
+import React, { useRef, useState } from 'react';
+import { marked } from 'marked';
+import { LlmProvider } from '../services/providers';
+import { ReviewChatContext, askAboutReview } from '../services/reviewChat';
+import { ChatMessage } from '../types';
+
+interface ReviewChatProps {
+  // Null while no provider is configured; the conversation can still be read.
+  provider: LlmProvider | null;
+  // The conversation so far, oldest first.
+  messages: ChatMessage[];
+  // Loads the reviewed code and the review, e.g. by reading the file again.
+  getContext: () => Promise<ReviewChatContext>;
+  // Called with the whole conversation after each answer, so it can be saved with the review.
+  onChange: (messages: ChatMessage[]) => void;
+}
+
+const renderMarkdown = (text: string) => marked.parse(text, { async: false }) as string;
+
+const ReviewChat: React.FC<ReviewChatProps> = ({ provider, messages, getContext, onChange }) => {
+  const [question, setQuestion] = useState('');
+  // The question being answered and the answer so far.
+  const [pending, setPending] = useState<{ question: string; answer: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const handleAsk = async () => {
+    const asked = question.trim();
+    if (!provider || !asked) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setPending({ question: asked, answer: '' });
+    setQuestion('');
+    setError(null);
+    try {
+      const context = await getContext();
+      const answer = await askAboutReview(provider, context, messages, asked, {
+        signal: controller.signal,
+        onProgress: partial => setPending({ question: asked, answer: partial }),
+      });
+      onChange([...messages, { role: 'user', text: asked }, { role: 'model', text: answer }]);
+    } catch (e: any) {
+      // Give the question back, so it can be asked again.
+      setQuestion(asked);
+      if (!controller.signal.aborted) {
+        setError(e.message);
+      }
+    } finally {
+      controllerRef.current = null;
+      setPending(null);
+    }
+  };
+
+  const handleKeyDown = (e: any) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleAsk();
+    }
+  };
+
+  const turns = pending ? [...messages, { role: 'user', text: pending.question }, { role: 'model', text: pending.answer || '...' }] : messages;
+
+  return (
+    <details className="mt-4 bg-gray-900/60 p-4 rounded-lg border border-gray-700" open={messages.length > 0}>
+      <summary className="cursor-pointer font-semibold text-gray-200">
+        Ask About This Review{messages.length > 0 && ` (${messages.length / 2} question(s))`}
+      </summary>
+      <div className="mt-4 space-y-4">
+        {turns.map((turn, i) => turn.role === 'user' ? (
+          <div key={i} className="ml-auto max-w-[85%] p-3 bg-cyan-900/40 text-gray-100 rounded-lg whitespace-pre-wrap">{turn.text}</div>
+        ) : (
+          <div key={i} className="p-3 bg-gray-800 rounded-lg prose prose-invert max-w-none" dangerouslySetInnerHTML={{ __html: renderMarkdown(turn.text) }}></div>
+        ))}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        <div className="flex flex-col md:flex-row gap-2">
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={handleKeyDown}
+            rows={2}
+            placeholder={provider ? 'Why is this a problem? Show me the fixed version of this function...' : 'Configure a model provider in Settings to ask questions.'}
+            disabled={!provider || !!pending}
+            className="flex-grow bg-gray-800 text-gray-200 p-3 rounded-lg border border-gray-600 focus:outline-none focus:border-cyan-500 text-sm resize-y"
+          ></textarea>
+          <div className="flex md:flex-col gap-2">
+            {pending ? (
+              <button onClick={() => controllerRef.current?.abort()} className="px-4 py-2 bg-red-600 text-white font-bold rounded-lg hover:bg-red-700 transition">Stop</button>
+            ) : (
+              <button onClick={handleAsk} disabled={!provider || !question.trim()} className="px-4 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition">Ask</button>
+            )}
+            {messages.length > 0 && !pending && (
+              <button onClick={() => { if (confirm('Delete this conversation?')) onChange([]); }} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">Clear</button>
+            )}
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+};
+
+export default ReviewChat;
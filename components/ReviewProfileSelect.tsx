@@ -0,0 +1,23 @@
+import React from 'react';
+import { ReviewProfile } from '../services/reviewProfiles';
+
+interface ReviewProfileSelectProps {
+  profiles: ReviewProfile[];
+  value: string;
+  onChange: (id: string) => void;
+  className?: string;
+}
+
+const ReviewProfileSelect: React.FC<ReviewProfileSelectProps> = ({ profiles, value, onChange, className = '' }) => (
+  <select
+    value={value}
+    onChange={(e) => onChange(e.target.value)}
+    aria-label="Review profile"
+    title="Review profile. Edit profiles in Settings."
+    className={`bg-gray-700 border border-gray-600 text-white py-3 px-4 rounded-lg leading-tight focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition ${className}`}
+  >
+    {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+  </select>
+);
+
+export default ReviewProfileSelect;
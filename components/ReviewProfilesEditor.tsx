@@ -0,0 +1,145 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { DEFAULT_PROMPT_TEMPLATE, ReviewProfile, TEMPLATE_VARIABLES, exportReviewProfiles, mergeReviewProfiles, parseReviewProfile, parseReviewProfiles } from '../services/reviewProfiles';
+import { FINDING_CATEGORIES, FINDING_SEVERITIES, FindingCategory, FindingSeverity } from '../types';
+import { downloadTextFile } from '../utils/download';
+import { CATEGORY_LABELS } from '../utils/findings';
+
+interface ReviewProfilesEditorProps {
+  profiles: ReviewProfile[];
+  onChange: (profiles: ReviewProfile[]) => void;
+}
+
+const inputClassName = "w-full bg-gray-700 border border-gray-600 text-white py-2 px-3 rounded-lg leading-tight focus:outline-none focus:bg-gray-600 focus:border-cyan-500 transition";
+
+const ReviewProfilesEditor: React.FC<ReviewProfilesEditorProps> = ({ profiles, onChange }) => {
+  const [editingId, setEditingId] = useState(profiles[0].id);
+  const editing = profiles.find(profile => profile.id === editingId) || profiles[0];
+  // Edits are kept as a draft until saved, so a half-written template is never used for a review.
+  const [draft, setDraft] = useState<ReviewProfile>(editing);
+  useEffect(() => setDraft(editing), [editing]);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<ReviewProfile>) => setDraft({ ...draft, ...changes });
+  const toggleCategory = (category: FindingCategory, checked: boolean) =>
+    update({ categories: FINDING_CATEGORIES.filter(c => c === category ? checked : draft.categories.includes(c)) });
+
+  const handleSave = () => {
+    try {
+      const profile = parseReviewProfile(draft, 'The profile');
+      onChange(profiles.map(p => p.id === profile.id ? profile : p));
+      alert('Review profile saved successfully!');
+    } catch (e: any) {
+      alert(`Could not save the profile: ${e.message}`);
+    }
+  };
+
+  const handleNew = () => {
+    const profile = { ...draft, id: crypto.randomUUID(), name: `Copy of ${editing.name}` };
+    onChange([...profiles, profile]);
+    setEditingId(profile.id);
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete the review profile "${editing.name}"?`)) return;
+    const remaining = profiles.filter(p => p.id !== editing.id);
+    onChange(remaining);
+    setEditingId(remaining[0].id);
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const imported = parseReviewProfiles(await file.text());
+      onChange(mergeReviewProfiles(profiles, imported));
+      setEditingId(imported[0].id);
+      alert(`Imported ${imported.length} review profile(s).`);
+    } catch (e: any) {
+      alert(`Could not import profiles: ${e.message}`);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-gray-300 text-sm font-bold mb-2">Review profiles</h3>
+      <p className="text-gray-400 text-sm mb-4">A profile sets the prompt, the categories to report and the least severe findings to keep. Choose one when reviewing pasted code or a repository, and share profiles with your team as JSON.</p>
+      <div className="flex gap-2 mb-4">
+        <select value={editing.id} onChange={(e) => setEditingId(e.target.value)} aria-label="Profile to edit" className={inputClassName}>
+          {profiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+        </select>
+        <button onClick={handleNew} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">Duplicate</button>
+        <button onClick={handleDelete} disabled={profiles.length < 2} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:text-gray-500 transition">Delete</button>
+      </div>
+
+      <div className="mb-4">
+        <label htmlFor="profileName" className="block text-gray-300 text-sm font-bold mb-2">Name</label>
+        <input id="profileName" type="text" value={draft.name} onChange={(e) => update({ name: e.target.value })} className={inputClassName} />
+      </div>
+      <div className="mb-4">
+        <p className="block text-gray-300 text-sm font-bold mb-2">Categories</p>
+        <div className="grid grid-cols-2 gap-1 text-sm text-gray-300">
+          {FINDING_CATEGORIES.map(category => (
+            <label key={category} className="flex items-center gap-2">
+              <input type="checkbox" checked={draft.categories.includes(category)} onChange={(e) => toggleCategory(category, e.target.checked)} />
+              {CATEGORY_LABELS[category]}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div className="mb-4">
+        <label htmlFor="profileMinSeverity" className="block text-gray-300 text-sm font-bold mb-2">Report findings of at least</label>
+        <select id="profileMinSeverity" value={draft.minSeverity} onChange={(e) => update({ minSeverity: e.target.value as FindingSeverity })} className={inputClassName}>
+          {FINDING_SEVERITIES.map(severity => <option key={severity} value={severity}>{severity}</option>)}
+        </select>
+      </div>
+      <div className="mb-4">
+        <label htmlFor="profileGuidelines" className="block text-gray-300 text-sm font-bold mb-2">Team guidelines</label>
+        <textarea
+          id="profileGuidelines"
+          value={draft.guidelines}
+          onChange={(e) => update({ guidelines: e.target.value })}
+          rows={4}
+          placeholder="e.g. - Use the logger from src/log.ts instead of console."
+          className={`${inputClassName} font-mono text-xs`}
+        ></textarea>
+      </div>
+      <div className="mb-4">
+        <div className="flex items-center justify-between mb-2">
+          <label htmlFor="profileTemplate" className="block text-gray-300 text-sm font-bold">Prompt template</label>
+          <button onClick={() => update({ template: DEFAULT_PROMPT_TEMPLATE })} className="text-xs text-cyan-400 hover:underline">Use the default template</button>
+        </div>
+        <textarea
+          id="profileTemplate"
+          value={draft.template}
+          onChange={(e) => update({ template: e.target.value })}
+          rows={12}
+          className={`${inputClassName} font-mono text-xs`}
+        ></textarea>
+        <ul className="text-gray-500 text-xs mt-1 space-y-0.5">
+          {TEMPLATE_VARIABLES.map(variable => <li key={variable.name}><code>{`{{${variable.name}}}`}</code>: {variable.description}</li>)}
+        </ul>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <button onClick={handleSave} className="px-6 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 transition">
+          Save Profile
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">Import</button>
+        <button onClick={() => downloadTextFile('review-profiles.json', exportReviewProfiles(profiles), 'application/json')} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">
+          Export All
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) handleImport(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default ReviewProfilesEditor;
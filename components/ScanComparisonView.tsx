@@ -0,0 +1,75 @@
+import React, { useMemo } from 'react';
+import { ScanJob } from '../services/scanEngine';
+import { CATEGORY_LABELS } from '../utils/findings';
+import { ComparedFinding, compareScans } from '../utils/scanComparison';
+
+interface ScanComparisonViewProps {
+  // The older scan.
+  before: ScanJob;
+  // The newer scan.
+  after: ScanJob;
+  onClose: () => void;
+}
+
+const describeScan = (job: ScanJob) =>
+  `${new Date(job.createdAt).toLocaleString()} · ${job.commitSha.slice(0, 7)} · ${job.model || 'unknown model'}`;
+
+const FindingList = ({ title, items, className }: { title: string; items: ComparedFinding[]; className: string }) => (
+  <details className="bg-gray-800 p-4 rounded-lg" open={items.length > 0 && items.length <= 50}>
+    <summary className={`cursor-pointer font-semibold ${className}`}>{title} ({items.length})</summary>
+    {items.length > 0 ? (
+      <ul className="mt-2 space-y-1 text-sm">
+        {items.map(({ path, finding }, i) => (
+          <li key={`${path}-${i}`} className="text-gray-300">
+            <span className="font-mono text-cyan-400">{path}:{finding.startLine}</span>{' '}
+            <span className="font-semibold">[{finding.severity.toUpperCase()}]</span>{' '}
+            <span className="text-gray-400">{CATEGORY_LABELS[finding.category]}:</span> {finding.message.split('\n')[0]}
+          </li>
+        ))}
+      </ul>
+    ) : (
+      <p className="mt-2 text-sm text-gray-500">None.</p>
+    )}
+  </details>
+);
+
+const ScanComparisonView: React.FC<ScanComparisonViewProps> = ({ before, after, onClose }) => {
+  const comparison = useMemo(() => compareScans(before, after), [before, after]);
+  const countBefore = comparison.resolved.length + comparison.unchanged.length;
+  const countAfter = comparison.added.length + comparison.unchanged.length;
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+        <div className="flex flex-wrap items-start justify-between gap-2 mb-3">
+          <div>
+            <h3 className="text-xl font-bold text-white">Scan Comparison</h3>
+            <p className="text-sm text-gray-400 font-mono">{after.scope}</p>
+          </div>
+          <button onClick={onClose} className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">Back to History</button>
+        </div>
+        <p className="text-sm text-gray-400">Before: {describeScan(before)}</p>
+        <p className="text-sm text-gray-400 mb-4">After: {describeScan(after)}</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+          <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-red-400">{comparison.added.length}</p><p className="text-sm text-gray-400">New</p></div>
+          <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-green-400">{comparison.resolved.length}</p><p className="text-sm text-gray-400">Resolved</p></div>
+          <div className="bg-gray-900 p-3 rounded-md"><p className="text-2xl font-bold text-gray-300">{comparison.unchanged.length}</p><p className="text-sm text-gray-400">Unchanged</p></div>
+          <div className="bg-gray-900 p-3 rounded-md">
+            <p className={`text-2xl font-bold ${countAfter < countBefore ? 'text-green-400' : countAfter > countBefore ? 'text-red-400' : 'text-cyan-400'}`}>{countBefore} → {countAfter}</p>
+            <p className="text-sm text-gray-400">Findings</p>
+          </div>
+        </div>
+        {comparison.notCompared.length > 0 && (
+          <p className="mt-3 text-sm text-yellow-300">
+            {comparison.notCompared.length} file(s) were reviewed in only one of the scans and are left out: {comparison.notCompared.slice(0, 5).join(', ')}{comparison.notCompared.length > 5 ? ', ...' : ''}
+          </p>
+        )}
+      </div>
+      <FindingList title="New findings" items={comparison.added} className="text-red-300" />
+      <FindingList title="Resolved findings" items={comparison.resolved} className="text-green-300" />
+      <FindingList title="Unchanged findings" items={comparison.unchanged} className="text-gray-300" />
+    </div>
+  );
+};
+
+export default ScanComparisonView;
@@ -0,0 +1,47 @@
+import React from 'react';
+import { getLanguageForFile } from '../constants';
+import { FilterDecision } from '../utils/fileFilter';
+
+interface ScanPreviewProps {
+  decisions: { path: string; decision: FilterDecision }[];
+}
+
+const ScanPreview: React.FC<ScanPreviewProps> = ({ decisions }) => {
+  const included = decisions.filter(d => d.decision.included);
+  const excluded = decisions.filter(d => !d.decision.included);
+  const excludedByReason: Record<string, string[]> = {};
+  excluded.forEach(d => {
+    const reason = d.decision.reason || 'Excluded';
+    (excludedByReason[reason] = excludedByReason[reason] || []).push(d.path);
+  });
+
+  return (
+    <div className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+      <h3 className="text-lg font-bold text-white mb-2">Files to scan</h3>
+      <p className="text-sm text-gray-400 mb-3">
+        {included.length} of {decisions.length} file(s) will be reviewed. {excluded.length} excluded.
+      </p>
+      <details className="bg-gray-900 p-3 rounded-lg" open={included.length <= 50}>
+        <summary className="cursor-pointer text-sm font-semibold text-cyan-400">{included.length} included file(s)</summary>
+        <ul className="mt-2 max-h-64 overflow-y-auto font-mono text-xs text-gray-300 space-y-1">
+          {included.map(d => (
+            <li key={d.path} className="flex justify-between gap-4">
+              <span className="truncate">{d.path}</span>
+              <span className="text-gray-500 shrink-0">{getLanguageForFile(d.path)}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+      {Object.entries(excludedByReason).map(([reason, paths]) => (
+        <details key={reason} className="bg-gray-900 p-3 rounded-lg mt-2">
+          <summary className="cursor-pointer text-sm text-gray-400">{reason} ({paths.length})</summary>
+          <ul className="mt-2 max-h-48 overflow-y-auto font-mono text-xs text-gray-500 space-y-1">
+            {paths.map(path => <li key={path} className="truncate">{path}</li>)}
+          </ul>
+        </details>
+      ))}
+    </div>
+  );
+};
+
+export default ScanPreview;
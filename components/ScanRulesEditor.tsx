@@ -0,0 +1,81 @@
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_FILE_FILTER_RULES, FileFilterRules } from '../utils/fileFilter';
+
+interface ScanRulesEditorProps {
+  rules: FileFilterRules;
+  onChange: (rules: FileFilterRules) => void;
+  // The repository config file whose rules are merged in, if any.
+  repoConfigPath?: string | null;
+}
+
+const toLines = (globs: string[]) => globs.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+const ScanRulesEditor: React.FC<ScanRulesEditorProps> = ({ rules, onChange, repoConfigPath }) => {
+  // The globs are edited as raw text and parsed when a field loses focus, so blank lines can be typed.
+  const includeLines = toLines(rules.include);
+  const excludeLines = toLines(rules.exclude);
+  const [includeText, setIncludeText] = useState(includeLines);
+  const [excludeText, setExcludeText] = useState(excludeLines);
+  useEffect(() => setIncludeText(includeLines), [includeLines]);
+  useEffect(() => setExcludeText(excludeLines), [excludeLines]);
+
+  return (
+  <details className="bg-gray-800 p-4 rounded-lg border border-gray-700">
+    <summary className="cursor-pointer font-semibold text-gray-200">Scan rules</summary>
+    <p className="text-sm text-gray-400 mt-2">
+      Glob patterns, one per line (e.g. <code>src/**</code>, <code>*.test.ts</code>, <code>vendor/</code>).
+      {repoConfigPath
+        ? <> Rules from <code className="text-cyan-400">{repoConfigPath}</code> are added to these.</>
+        : <> A <code>.codereview.json</code> or <code>.codereview.yml</code> at the repository root is merged in automatically.</>}
+    </p>
+    <div className="grid md:grid-cols-2 gap-4 mt-4">
+      <label className="block text-sm text-gray-300">
+        Include (leave empty to include everything)
+        <textarea
+          value={includeText}
+          onChange={(e) => setIncludeText(e.target.value)}
+          onBlur={() => onChange({ ...rules, include: fromLines(includeText) })}
+          rows={6}
+          className="mt-1 w-full bg-gray-900 text-gray-200 p-2 rounded-lg border border-gray-700 focus:outline-none focus:border-cyan-500 font-mono text-xs"
+        ></textarea>
+      </label>
+      <label className="block text-sm text-gray-300">
+        Exclude
+        <textarea
+          value={excludeText}
+          onChange={(e) => setExcludeText(e.target.value)}
+          onBlur={() => onChange({ ...rules, exclude: fromLines(excludeText) })}
+          rows={6}
+          className="mt-1 w-full bg-gray-900 text-gray-200 p-2 rounded-lg border border-gray-700 focus:outline-none focus:border-cyan-500 font-mono text-xs"
+        ></textarea>
+      </label>
+    </div>
+    <div className="flex flex-wrap items-center gap-6 mt-4 text-sm text-gray-300">
+      <label className="flex items-center gap-2">
+        Max file size (KB, 0 for no limit)
+        <input
+          type="number"
+          min={0}
+          value={rules.maxFileSizeKb}
+          onChange={(e) => onChange({ ...rules, maxFileSizeKb: Math.max(0, Number(e.target.value) || 0) })}
+          className="w-24 bg-gray-700 border border-gray-600 text-white py-1 px-2 rounded-lg focus:outline-none focus:border-cyan-500"
+        />
+      </label>
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={rules.skipGenerated}
+          onChange={(e) => onChange({ ...rules, skipGenerated: e.target.checked })}
+        />
+        Skip generated and minified files
+      </label>
+      <button onClick={() => onChange(DEFAULT_FILE_FILTER_RULES)} className="ml-auto px-4 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 transition">
+        Reset to defaults
+      </button>
+    </div>
+  </details>
+  );
+};
+
+export default ScanRulesEditor;
@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+import { ScanJob } from '../services/scanEngine';
+import { buildPatch } from '../utils/edits';
+import { downloadTextFile } from '../utils/download';
+import SuggestedEdits, { EditDecision, getAcceptedEdits } from './SuggestedEdits';
+
+interface ScanSuggestedEditsProps {
+  job: ScanJob;
+  // Reads a file as it was scanned, since the fixes' line numbers refer to that version.
+  loadFile: (path: string) => Promise<string>;
+}
+
+// A file's content, loaded when its fixes are first shown.
+type FileContent = { status: 'loading' } | { status: 'loaded'; content: string } | { status: 'failed'; error: string };
+
+const ScanSuggestedEdits: React.FC<ScanSuggestedEditsProps> = ({ job, loadFile }) => {
+  const [contents, setContents] = useState<Record<string, FileContent>>({});
+  const [decisions, setDecisions] = useState<Record<string, Record<number, EditDecision>>>({});
+
+  const reviews = job.reviews.filter(review => review.findings.some(finding => finding.fix));
+  if (reviews.length === 0) return null;
+
+  const handleToggle = async (path: string, open: boolean) => {
+    if (!open || contents[path]) return;
+    setContents(current => ({ ...current, [path]: { status: 'loading' } }));
+    try {
+      const content = await loadFile(path);
+      setContents(current => ({ ...current, [path]: { status: 'loaded', content } }));
+    } catch (e: any) {
+      setContents(current => ({ ...current, [path]: { status: 'failed', error: e.message } }));
+    }
+  };
+
+  const handleDecide = (path: string, index: number, decision: EditDecision | null) => {
+    setDecisions(current => {
+      const forFile = { ...current[path] };
+      if (decision) forFile[index] = decision; else delete forFile[index];
+      return { ...current, [path]: forFile };
+    });
+  };
+
+  const accepted = reviews.flatMap(review => {
+    const file = contents[review.path];
+    const edits = getAcceptedEdits(review.findings, decisions[review.path] || {});
+    return file?.status === 'loaded' && edits.length ? [{ path: review.path, content: file.content, edits }] : [];
+  });
+  const fixCount = reviews.reduce((total, review) => total + review.findings.filter(finding => finding.fix).length, 0);
+
+  return (
+    <details className="bg-gray-800 p-4 rounded-lg">
+      <summary className="cursor-pointer font-semibold text-gray-200 text-lg">Suggested Fixes ({fixCount} in {reviews.length} file(s))</summary>
+      <div className="mt-4 space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-gray-400">Accept the fixes you want, then download them as a patch to apply with <code>git apply</code>.</p>
+          <button
+            onClick={() => downloadTextFile(`${job.repo || 'scan'}-fixes.patch`, buildPatch(accepted), 'text/x-diff')}
+            disabled={accepted.length === 0}
+            className="px-4 py-2 bg-cyan-600 text-white font-bold rounded-lg hover:bg-cyan-700 disabled:bg-gray-500 disabled:cursor-not-allowed transition"
+          >
+            Download Accepted Fixes (.patch)
+          </button>
+        </div>
+        {reviews.map(review => {
+          const file = contents[review.path];
+          return (
+            <details key={review.path} className="bg-gray-900 p-4 rounded-lg" onToggle={(e: any) => handleToggle(review.path, e.currentTarget.open)}>
+              <summary className="cursor-pointer font-semibold text-cyan-400">{review.path}</summary>
+              <div className="mt-2">
+                {!file || file.status === 'loading' ? (
+                  <p className="text-sm text-gray-400">Loading the file...</p>
+                ) : file.status === 'failed' ? (
+                  <p className="text-sm text-red-400">Could not load the file: {file.error}</p>
+                ) : (
+                  <SuggestedEdits
+                    path={review.path}
+                    content={file.content}
+                    findings={review.findings}
+                    decisions={decisions[review.path] || {}}
+                    onDecide={(index, decision) => handleDecide(review.path, index, decision)}
+                  />
+                )}
+              </div>
+            </details>
+          );
+        })}
+      </div>
+    </details>
+  );
+};
+
+export default ScanSuggestedEdits;
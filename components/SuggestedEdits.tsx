@@ -0,0 +1,91 @@
+import React from 'react';
+import { CodeEdit, ReviewFinding } from '../types';
+import { buildFilePatch, editsOverlap } from '../utils/edits';
+import { formatLineRange } from '../utils/findings';
+
+export type EditDecision = 'accepted' | 'rejected';
+
+interface SuggestedEditsProps {
+  path: string;
+  // The reviewed content the fixes' line numbers refer to.
+  content: string;
+  findings: ReviewFinding[];
+  // Decisions by index into `findings`; undecided fixes are missing.
+  decisions: Record<number, EditDecision>;
+  onDecide: (index: number, decision: EditDecision | null) => void;
+  // Set when the fixes can no longer be applied, e.g. because the code was edited since the review.
+  disabled?: boolean;
+}
+
+/**
+ * Collects the accepted fixes.
+ * @param findings The findings.
+ * @param decisions Decisions by index into `findings`.
+ * @returns The accepted fixes.
+ */
+export const getAcceptedEdits = (findings: ReviewFinding[], decisions: Record<number, EditDecision>): CodeEdit[] =>
+  findings.flatMap((finding, i) => finding.fix && decisions[i] === 'accepted' ? [finding.fix] : []);
+
+const DIFF_LINE_CLASSES: Record<string, string> = {
+  '+': 'bg-green-900/40 text-green-300',
+  '-': 'bg-red-900/40 text-red-300',
+  '@': 'text-cyan-400',
+};
+
+// Renders one fix as a diff, or why it cannot be shown.
+const FixDiff = ({ path, content, fix }: { path: string; content: string; fix: CodeEdit }) => {
+  let lines: string[];
+  try {
+    // Leave out the file header lines; the path is shown above.
+    lines = buildFilePatch({ path, content, edits: [fix] }).trimEnd().split('\n').slice(3);
+  } catch (e: any) {
+    return <p className="text-sm text-yellow-300">{e.message}</p>;
+  }
+  return (
+    <pre className="text-xs font-mono bg-gray-950 rounded-lg p-2 overflow-x-auto">
+      {lines.map((line, i) => <div key={i} className={DIFF_LINE_CLASSES[line[0]] || 'text-gray-400'}>{line || ' '}</div>)}
+    </pre>
+  );
+};
+
+const SuggestedEdits: React.FC<SuggestedEditsProps> = ({ path, content, findings, decisions, onDecide, disabled }) => {
+  const accepted = getAcceptedEdits(findings, decisions);
+  const lineCount = content.split('\n').length;
+
+  return (
+    <ul className="space-y-4">
+      {findings.map((finding, i) => {
+        const { fix } = finding;
+        if (!fix) return null;
+        const decision = decisions[i];
+        const conflicts = decision !== 'accepted' && accepted.some(edit => editsOverlap(edit, fix));
+        return (
+          <li key={i} className={decision === 'rejected' ? 'opacity-50' : ''}>
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+              <p className="text-sm text-gray-300">
+                <span className="font-semibold">[{finding.severity.toUpperCase()}] {formatLineRange(fix)}:</span> {finding.message.split('\n')[0]}
+              </p>
+              <div className="flex items-center gap-2 text-sm">
+                {decision ? (
+                  <>
+                    <span className={decision === 'accepted' ? 'text-green-400' : 'text-gray-400'}>{decision === 'accepted' ? 'Accepted' : 'Rejected'}</span>
+                    <button onClick={() => onDecide(i, null)} disabled={disabled} className="px-3 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:text-gray-500 transition">Undo</button>
+                  </>
+                ) : (
+                  <>
+                    {conflicts && <span className="text-yellow-300">Overlaps an accepted fix</span>}
+                    <button onClick={() => onDecide(i, 'accepted')} disabled={disabled || conflicts || fix.endLine > lineCount} className="px-3 py-1 bg-green-700 text-white rounded-lg hover:bg-green-600 disabled:bg-gray-600 disabled:text-gray-400 transition">Accept</button>
+                    <button onClick={() => onDecide(i, 'rejected')} disabled={disabled} className="px-3 py-1 bg-gray-700 text-white rounded-lg hover:bg-gray-600 disabled:text-gray-500 transition">Reject</button>
+                  </>
+                )}
+              </div>
+            </div>
+            <FixDiff path={path} content={content} fix={fix} />
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default SuggestedEdits;
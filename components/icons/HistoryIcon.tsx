@@ -0,0 +1,18 @@
+import React from 'react';
+
+export const HistoryIcon = ({ className }: { className?: string }) => (
+  <svg 
+    xmlns="http://www.w3.org/2000/svg" 
+    viewBox="0 0 24 24" 
+    fill="none" 
+    stroke="currentColor" 
+    strokeWidth="2" 
+    strokeLinecap="round" 
+    strokeLinejoin="round" 
+    className={className}
+  >
+    <path d="M3 12a9 9 0 1 0 3-6.7L3 8"></path>
+    <polyline points="3 3 3 8 8 8"></polyline>
+    <polyline points="12 7 12 12 15 15"></polyline>
+  </svg>
+);
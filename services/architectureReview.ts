@@ -0,0 +1,132 @@
+// The optional final pass of a scan: a review of the repository's module structure as a whole.
+import { ArchitectureFinding, ArchitectureReview, FINDING_CATEGORIES, FINDING_SEVERITIES, FileReview } from '../types';
+import { estimateTokens } from '../utils/chunking';
+import { LlmProvider } from './providers';
+import { ContextBuilder } from './reviewContext';
+import { ScanJob } from './scanEngine';
+
+// Token budget for the module list in the prompt; modules past it are left out.
+const MAX_MODULE_TOKENS = 24000;
+const MAX_OUTLINE_TOKENS = 4000;
+const MAX_README_TOKENS = 2000;
+
+const ARCHITECTURE_RESPONSE_SCHEMA = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: "A brief assessment of the repository's structure." },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: FINDING_CATEGORIES },
+          severity: { type: 'string', enum: FINDING_SEVERITIES },
+          paths: { type: 'array', items: { type: 'string' }, description: "The files or directories the finding is about." },
+          message: { type: 'string', description: "A specific explanation of the issue, in Markdown." },
+        },
+        required: ['category', 'severity', 'paths', 'message'],
+        propertyOrdering: ['category', 'severity', 'paths', 'message'],
+      },
+    },
+  },
+  required: ['summary', 'findings'],
+  propertyOrdering: ['summary', 'findings'],
+};
+
+export interface ArchitectureInput {
+  // The repository layout, from the context builder.
+  outline: string;
+  readme: string | null;
+  // Repository files each reviewed file imports.
+  imports: Record<string, string[]>;
+  // File reviews, for their summaries.
+  reviews: FileReview[];
+}
+
+/**
+ * Lists each module with what it imports and what its review said, within the token budget.
+ * @param input The scan's results.
+ * @returns The module list for the prompt.
+ */
+const describeModules = (input: ArchitectureInput): string => {
+  const summaries = new Map(input.reviews.map(review => [review.path, review.summary]));
+  const paths = [...new Set([...Object.keys(input.imports), ...summaries.keys()])].sort();
+  const lines: string[] = [];
+  let tokens = 0;
+  for (const path of paths) {
+    const imports = input.imports[path] || [];
+    const summary = summaries.get(path);
+    const line = `- ${path}${imports.length ? ` imports ${imports.join(', ')}` : ''}${summary ? `\n  Review: ${summary.replace(/\s+/g, ' ')}` : ''}`;
+    tokens += estimateTokens(line);
+    if (tokens > MAX_MODULE_TOKENS) {
+      lines.push(`- ... and ${paths.length - lines.length} more file(s)`);
+      break;
+    }
+    lines.push(line);
+  }
+  return lines.join('\n');
+};
+
+/**
+ * Reviews a repository's module structure: layering, dependency direction, cycles, cohesion and duplication.
+ * @param provider The model provider.
+ * @param input The layout, README, import graph and file reviews from the scan.
+ * @param signal An optional abort signal.
+ * @returns A promise that resolves to the architecture review.
+ */
+export const reviewArchitecture = async (provider: LlmProvider, input: ArchitectureInput, signal?: AbortSignal): Promise<ArchitectureReview> => {
+  const readme = input.readme ? input.readme.slice(0, MAX_README_TOKENS * 4) : '';
+  const prompt = `
+    As an expert software architect, review the module structure of the following repository.
+    The individual files have already been reviewed line by line, so do not repeat file-level issues.
+    Look for problems that only show across files: unclear layering, dependencies pointing the wrong way, import cycles,
+    modules with too many responsibilities, duplicated functionality and misplaced code.
+    Report each issue as a finding with a category (bugs, performance, security, style or refactoring), a severity
+    (critical, high, medium, low or info) and the paths of the files or directories involved.
+    If the structure is sound, return an empty "findings" array. Use "summary" for a brief overall assessment.
+
+    Repository layout (each directory with its files):
+    ${input.outline}
+
+    ${readme ? `README:\n${readme}` : ''}
+
+    Reviewed modules, with the repository files they import and a summary of their review:
+    ${describeModules(input)}
+  `;
+  const response = await provider.generate({ prompt, responseSchema: ARCHITECTURE_RESPONSE_SCHEMA, signal });
+  let data: any;
+  try {
+    data = JSON.parse(response.text || '');
+  } catch {
+    throw new Error("The model returned a response that is not valid JSON.");
+  }
+  const findings: ArchitectureFinding[] = (Array.isArray(data?.findings) ? data.findings : [])
+    .filter((f: any) => FINDING_CATEGORIES.includes(f?.category) && FINDING_SEVERITIES.includes(f?.severity) && typeof f?.message === 'string')
+    .map((f: any) => ({
+      category: f.category,
+      severity: f.severity,
+      paths: Array.isArray(f.paths) ? f.paths.filter((p: any) => typeof p === 'string') : [],
+      message: f.message.trim(),
+    }));
+  return { summary: typeof data?.summary === 'string' ? data.summary.trim() : '', findings };
+};
+
+/**
+ * Creates the `finalize` step of a scan that runs the architecture pass. A failed pass is recorded on the job
+ * rather than failing the scan, since the file reviews are still valid.
+ * @param provider The model provider.
+ * @param context The scan's context builder, for the layout and README.
+ * @returns The finalize function for `runScan`.
+ */
+export const createArchitectureFinalizer = (provider: LlmProvider, context: ContextBuilder) =>
+  async (job: ScanJob, signal: AbortSignal): Promise<Partial<ScanJob>> => {
+    try {
+      const outline = await context.getOutline(MAX_OUTLINE_TOKENS);
+      const readme = await context.getReadme();
+      const input = { outline, readme: readme?.content || null, imports: job.imports || {}, reviews: job.reviews };
+      return { architecture: await reviewArchitecture(provider, input, signal) };
+    } catch (e: any) {
+      if (signal.aborted) throw e;
+      return { architecture: { summary: '', findings: [], error: e.message } };
+    }
+  };
@@ -0,0 +1,58 @@
+// A tiny promise wrapper around the app's IndexedDB database.
+
+const DB_NAME = 'gemini-code-reviewer';
+const DB_VERSION = 4;
+
+// Object stores, all keyed by their record's `id`.
+export const STORES = {
+  scans: 'scans',
+  reviewCache: 'reviewCache',
+  history: 'history',
+  triage: 'triage',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens (and creates or upgrades, if needed) the app database. The connection is shared.
+ * @returns A promise that resolves to the open database.
+ */
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        Object.values(STORES).forEach(store => {
+          if (!db.objectStoreNames.contains(store)) {
+            db.createObjectStore(store, { keyPath: 'id' });
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/**
+ * Runs a single request against an object store and resolves with its result.
+ * @param storeName The object store to use.
+ * @param mode The transaction mode.
+ * @param makeRequest Creates the request from the store.
+ * @returns A promise that resolves once the transaction has completed.
+ */
+export const runStoreRequest = async <T>(storeName: string, mode: IDBTransactionMode, makeRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = makeRequest(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,80 @@
+import { marked } from 'marked';
+import { getLanguageForFile } from '../constants';
+import { ReviewResult } from '../types';
+import { detectBinaryContent, detectGeneratedContent } from '../utils/fileFilter';
+import { findingsToMarkdown, sortFindings } from '../utils/findings';
+import { LlmProvider } from './providers';
+import { buildReviewCacheKey, getCachedReview, putCachedReview } from './reviewCache';
+import { ContextBuilder, FileContext } from './reviewContext';
+import { DEFAULT_REVIEW_PROFILE, ReviewProfile } from './reviewProfiles';
+import { reviewCode } from './reviewService';
+import { ReviewFileFn, ScanFile } from './scanEngine';
+
+export interface FileReviewerOptions {
+  provider: LlmProvider;
+  // Reads a file's content from wherever the scan gets its files: GitHub, a local directory, ...
+  readFile: (file: ScanFile, signal: AbortSignal) => Promise<string>;
+  // Skip files that look generated or minified once their content is known. Binary files are always skipped.
+  skipGenerated: boolean;
+  // Reuse and store reviews in the review cache. Needs IndexedDB, so it is off outside the browser.
+  useCache?: boolean;
+  // Decides the language of a file. Defaults to detecting it from the file name.
+  getLanguage?: (path: string) => string | null;
+  // Adds repository context (layout, README, imported files) to each review.
+  context?: ContextBuilder;
+  // The prompt template, categories and severity threshold. Defaults to the general review profile.
+  profile?: ReviewProfile;
+}
+
+/**
+ * Creates the function a scan uses to review one file: it checks the review cache, reads the file,
+ * skips binary files and generated code, builds the repository context, asks the model for a review and renders the findings.
+ * @param options The provider, how to read files, whether to skip generated code and use the cache, the context and profile.
+ * @returns The per-file review function for `runScan`.
+ */
+export const createFileReviewer = ({ provider, readFile, skipGenerated, useCache = true, getLanguage = getLanguageForFile, context: contextBuilder, profile = DEFAULT_REVIEW_PROFILE }: FileReviewerOptions): ReviewFileFn =>
+  async (file, signal) => {
+    const language = getLanguage(file.path);
+    if (!language) return { review: null, fromCache: false };
+
+    let content: string | null = null;
+    // Returns why the file should be skipped, if it should.
+    const read = async () => {
+      content = await readFile(file, signal);
+      return detectBinaryContent(content) || (skipGenerated ? detectGeneratedContent(content) : null);
+    };
+
+    // With context the file is read first: its imports decide the context, which is part of the cache key.
+    let context: FileContext | null = null;
+    if (contextBuilder) {
+      const skipReason = await read();
+      if (skipReason) return { review: null, fromCache: false, skipped: skipReason };
+      context = await contextBuilder.buildContext(file.path, content!, language, signal);
+    }
+
+    // Unchanged files (same blob SHA) reuse their earlier review. Without a SHA there is nothing to key on.
+    // The profile's name does not change the review, so renaming it keeps its cached reviews.
+    const promptSettings = { template: profile.template, categories: profile.categories, minSeverity: profile.minSeverity, guidelines: profile.guidelines };
+    const cacheKey = useCache && file.sha
+      ? await buildReviewCacheKey({ provider, blobSha: file.sha, language, config: { diff: file.patch || null, context: context?.text || null, profile: promptSettings } })
+      : null;
+    let result: ReviewResult | null = cacheKey ? await getCachedReview(cacheKey).catch(() => null) : null;
+    const fromCache = result !== null;
+
+    if (!result) {
+      if (content === null) {
+        const skipReason = await read();
+        if (skipReason) return { review: null, fromCache: false, skipped: skipReason };
+      }
+      result = await reviewCode(provider, content!, language, file.path, { diff: file.patch, context: context?.text, profile, signal });
+      if (cacheKey) {
+        await putCachedReview(cacheKey, result).catch(e => console.error('Could not cache review:', e));
+      }
+    }
+    const imports = context?.imports;
+    if (result.findings.length === 0) return { review: null, fromCache, imports };
+
+    const rawFeedback = findingsToMarkdown(result, language);
+    const htmlFeedback = await marked.parse(rawFeedback);
+    return { review: { path: file.path, summary: result.summary, findings: sortFindings(result.findings), rawFeedback, htmlFeedback }, fromCache, imports };
+  };
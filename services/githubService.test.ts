@@ -0,0 +1,29 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { splitGitHubRefAndPath } from './githubService';
+
+describe('GitHub rate limits', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('waits out a Retry-After date, and gives up after a few rate-limited attempts', async () => {
+    vi.useFakeTimers();
+    const waits: number[] = [];
+    const fetchMock = vi.fn(async () => new Response('', {
+      status: 429,
+      headers: { 'Retry-After': new Date(Date.now() + 120_000).toUTCString() },
+    }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = splitGitHubRefAndPath('acme', 'app', 'main', { onRateLimit: resetAt => waits.push(resetAt.getTime() - Date.now()) })
+      .catch((e: Error) => e);
+    await vi.runAllTimersAsync();
+    const error = await result;
+
+    expect(error).toBeInstanceOf(Error);
+    expect(fetchMock).toHaveBeenCalledTimes(6);
+    expect(waits).toHaveLength(5);
+    waits.forEach(wait => expect(wait).toBeGreaterThan(60_000));
+  });
+});
@@ -1,11 +1,29 @@
-// Simple client-side interaction with the public GitHub API.
+// Simple client-side interaction with the GitHub API, optionally authenticated with a personal access token.
+import { backoffDelay, isRetryableStatus, parseRetryAfter, sleep } from '../utils/retry';
 
 const GITHUB_API_BASE = 'https://api.github.com';
-const GITHUB_REPO_REGEX = /github\.com\/([^/]+\/[^/]+)/;
+// Captures owner, repo and, optionally, the kind of page (tree/commit/pull/compare) plus the rest of the path.
+const GITHUB_REPO_REGEX = /github\.com\/([^/]+)\/([^/#?]+)(?:\/(tree|commit|pull|compare)\/([^#?]+?))?\/?(?:[#?].*)?$/;
+
+// Never pause longer than this for a rate limit reset; GitHub's primary window is one hour.
+const MAX_RATE_LIMIT_WAIT_MS = 61 * 60 * 1000;
+// How long to pause for a rate limit whose reset time cannot be read.
+const DEFAULT_RATE_LIMIT_WAIT_MS = 60 * 1000;
+// How many times to wait out a rate limit for one request before giving up and returning the response.
+const MAX_RATE_LIMIT_RETRIES = 5;
+// How many times to retry a request that failed with a server error (or an unexplained 429).
+const MAX_SERVER_ERROR_RETRIES = 3;
+// A tree too large to list in one request is walked a directory at a time, with at most this many requests.
+const MAX_TREE_REQUESTS = 1000;
+// GitHub lists at most this many files for a pull request (100 per page), and for a comparison.
+const MAX_PULL_FILES = 3000;
+const MAX_COMPARE_FILES = 300;
 
 interface GitHubFile {
   path: string;
-  type: 'blob' | 'tree';
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number; // blobs only
 }
 
 interface GitHubTreeResponse {
@@ -17,110 +35,627 @@ interface GitHubRepoResponse {
     default_branch: string;
 }
 
-interface GitHubBranchResponse {
+interface GitHubCommitResponse {
+    sha: string;
     commit: {
-        sha: string;
-        commit: {
-            tree: {
-                sha: string;
-            };
+        tree: {
+            sha: string;
         };
     };
 }
 
 interface GitHubContentResponse {
+    sha: string;
+    size: number;
+    content: string; // base64 encoded, or empty for files over 1 MB
+    encoding: 'base64' | 'none';
+}
+
+interface GitHubBlobResponse {
     content: string; // base64 encoded
     encoding: 'base64';
 }
 
+interface GitHubPullResponse {
+    head: { sha: string };
+    base: { sha: string };
+}
+
+interface GitHubDiffFile {
+    filename: string;
+    sha: string;
+    status: 'added' | 'removed' | 'modified' | 'renamed' | 'copied' | 'changed' | 'unchanged';
+    patch?: string;
+}
+
+interface GitHubCommentResponse {
+    body: string | null;
+}
+
+interface GitHubReviewResponse {
+    html_url: string;
+    body: string | null;
+}
+
+interface GitHubCompareResponse {
+    files?: GitHubDiffFile[];
+}
+
 /**
- * Parses a GitHub URL to extract the owner and repository name.
- * @param url The full GitHub repository URL.
- * @returns An object with owner and repo, or null if parsing fails.
+ * What a GitHub URL points at: a repository (optionally at a branch, tag or commit),
+ * a pull request, or a comparison between two refs.
  */
-export const parseGitHubUrl = (url: string): { owner: string; repo: string } | null => {
-    const match = url.match(GITHUB_REPO_REGEX);
-    if (!match || !match[1]) return null;
-    const [owner, repo] = match[1].split('/');
-    return { owner, repo };
-};
+export type GitHubTarget =
+    | { kind: 'repo'; owner: string; repo: string; ref?: string }
+    | { kind: 'pull'; owner: string; repo: string; pullNumber: number }
+    | { kind: 'compare'; owner: string; repo: string; base: string; head: string };
 
+/**
+ * A file touched by a pull request or comparison.
+ * `sha` is the blob SHA of the new version and `patch` holds the unified diff hunks;
+ * GitHub omits the patch for binary or very large diffs.
+ */
+export interface ChangedFile {
+    path: string;
+    sha: string;
+    status: GitHubDiffFile['status'];
+    patch?: string;
+}
 
 /**
- * Fetches the recursive file tree for the default branch of a public GitHub repository.
- * @param repoUrl The full URL of the GitHub repository.
- * @returns A promise that resolves to an array of file objects.
+ * An inline comment in a pull request review, on the new version of a file.
+ * `startLine` is set for comments spanning several lines; both lines must be in the same diff hunk.
  */
-export const fetchRepoFileTree = async (repoUrl: string): Promise<{ path: string }[]> => {
-    const urlParts = parseGitHubUrl(repoUrl);
-    if (!urlParts) {
-        throw new Error('Invalid GitHub repository URL.');
+export interface PullRequestReviewComment {
+    path: string;
+    line: number;
+    startLine?: number;
+    body: string;
+}
+
+// A pull request review to create: a summary comment plus inline comments, all on one commit.
+export interface PullRequestReviewDraft {
+    commitSha: string;
+    // Should be unique to this review, so a review created by a request that then failed can be recognised.
+    body: string;
+    comments: PullRequestReviewComment[];
+}
+
+/**
+ * Options shared by every GitHub call.
+ * `token` is a personal access token, sent as a bearer token to reach private repositories
+ * and raise the rate limit from 60 to 5000 requests/hour.
+ * `onRateLimit` is called before the client pauses until the rate limit resets.
+ * `signal` cancels in-flight requests and any pause.
+ */
+export interface GitHubClientOptions {
+    token?: string | null;
+    onRateLimit?: (resetAt: Date) => void;
+    signal?: AbortSignal;
+}
+
+// When the last response said the quota is used up, the time (ms) it resets. Shared by all calls.
+let rateLimitResetAt = 0;
+
+/**
+ * Works out how long to wait before retrying a rate-limited response, or null if it was not rate limited.
+ * Covers both the primary limit (`X-RateLimit-Remaining: 0`) and secondary limits (`Retry-After`).
+ * @param res The failed response.
+ * @returns The time to resume at, in ms since the epoch, or null.
+ */
+const getRateLimitResumeTime = (res: Response): number | null => {
+    if (res.status !== 403 && res.status !== 429) return null;
+    // `Retry-After` is either a number of seconds or an HTTP date.
+    const retryAfter = res.headers.get('Retry-After');
+    if (retryAfter) {
+        const waitMs = parseRetryAfter(retryAfter);
+        return Date.now() + (waitMs ?? DEFAULT_RATE_LIMIT_WAIT_MS);
     }
-    const { owner, repo } = urlParts;
+    if (res.headers.get('X-RateLimit-Remaining') === '0') {
+        const reset = Number(res.headers.get('X-RateLimit-Reset'));
+        return reset > 0 ? reset * 1000 : Date.now() + DEFAULT_RATE_LIMIT_WAIT_MS;
+    }
+    return null;
+};
 
-    // 1. Get the default branch
-    const repoInfoRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}`);
-    if (!repoInfoRes.ok) {
-        if (repoInfoRes.status === 404) {
-            throw new Error('Repository not found. Please check the URL and ensure the repository is public.');
+/**
+ * Fetches a GitHub API URL with authentication, pausing until the rate limit resets instead of failing
+ * (a few times at most) and retrying server errors with backoff. POSTs are not retried after a server error, since GitHub may
+ * have acted on them before failing.
+ * @param url The full API URL.
+ * @param options The token and rate limit callback.
+ * @param body An optional JSON body. When given, the request is a POST.
+ * @returns A promise that resolves to the response. Non-rate-limit errors are returned for the caller to handle.
+ */
+const githubFetch = async (url: string, options: GitHubClientOptions = {}, body?: unknown): Promise<Response> => {
+    const headers: Record<string, string> = { Accept: 'application/vnd.github+json' };
+    if (options.token) {
+        headers.Authorization = `Bearer ${options.token}`;
+    }
+    const init: RequestInit = body === undefined ? {} : { method: 'POST', body: JSON.stringify(body) };
+    if (body !== undefined) {
+        headers['Content-Type'] = 'application/json';
+    }
+
+    for (let serverErrors = 0, rateLimits = 0; ; ) {
+        // If the quota is known to be exhausted, wait for the reset rather than spending a request on a 403.
+        if (rateLimitResetAt > Date.now()) {
+            options.onRateLimit?.(new Date(rateLimitResetAt));
+            await sleep(Math.min(rateLimitResetAt - Date.now() + 1000, MAX_RATE_LIMIT_WAIT_MS), options.signal);
         }
-        if (repoInfoRes.status === 403) {
-            throw new Error('GitHub API rate limit exceeded (60 requests/hour for unauthenticated users). Please wait a moment and try again.');
+
+        const res = await fetch(url, { ...init, headers, signal: options.signal });
+        const reset = Number(res.headers.get('X-RateLimit-Reset'));
+        if (res.headers.get('X-RateLimit-Remaining') === '0' && reset > 0) {
+            rateLimitResetAt = reset * 1000;
+        }
+
+        const resumeAt = getRateLimitResumeTime(res);
+        if (resumeAt === null) {
+            if (body === undefined && isRetryableStatus(res.status) && serverErrors < MAX_SERVER_ERROR_RETRIES) {
+                await sleep(backoffDelay(serverErrors++), options.signal);
+                continue;
+            }
+            return res;
         }
-        throw new Error(`Could not fetch repository info (status: ${repoInfoRes.status}).`);
+        if (rateLimits++ >= MAX_RATE_LIMIT_RETRIES) {
+            return res;
+        }
+        // Always back off at least a second, even if the reset time has already passed on our clock.
+        rateLimitResetAt = Math.max(rateLimitResetAt, resumeAt, Date.now() + 1000);
+    }
+};
+
+/**
+ * Turns a failed GitHub response into a readable error.
+ * @param res The failed response.
+ * @param description What was being fetched.
+ * @param notFoundMessage An optional message to use for a 404 response.
+ * @returns The error to throw.
+ */
+const toGitHubError = (res: Response, description: string, notFoundMessage?: string): Error => {
+    if (res.status === 404 && notFoundMessage) {
+        return new Error(notFoundMessage);
+    }
+    if (res.status === 401) {
+        return new Error('GitHub rejected the token. Please check it in the Settings tab.');
+    }
+    if (res.status === 403) {
+        return new Error(`Access to ${description} was denied by GitHub. Check that your token has access to this repository.`);
+    }
+    return new Error(`Could not fetch ${description} (status: ${res.status}).`);
+};
+
+/**
+ * Fetches a GitHub API endpoint and parses the JSON body, turning failures into readable errors.
+ * @param url The full API URL.
+ * @param description What is being fetched, used in error messages.
+ * @param options The token and rate limit callback.
+ * @param notFoundMessage An optional message to use for a 404 response.
+ * @returns A promise that resolves to the parsed response body.
+ */
+const fetchGitHubJson = async <T>(url: string, description: string, options: GitHubClientOptions, notFoundMessage?: string): Promise<T> => {
+    const res = await githubFetch(url, options);
+    if (!res.ok) {
+        throw toGitHubError(res, description, notFoundMessage);
     }
-    const repoInfo: GitHubRepoResponse = await repoInfoRes.json();
-    const defaultBranch = repoInfo.default_branch;
+    return res.json();
+};
+
+/**
+ * Parses a GitHub URL to extract the owner, repository name and what the URL points at.
+ * Supports repository, `/tree/<ref>`, `/commit/<sha>`, `/pull/<number>` and `/compare/<base>...<head>` URLs.
+ * @param url The full GitHub URL.
+ * @returns The parsed target, or null if parsing fails.
+ */
+export const parseGitHubUrl = (url: string): GitHubTarget | null => {
+    const match = url.trim().match(GITHUB_REPO_REGEX);
+    if (!match) return null;
+    const [, owner, rawRepo, kind, rest] = match;
+    const repo = rawRepo.replace(/\.git$/, '');
+
+    if (kind === 'pull') {
+        const pullNumber = parseInt(rest, 10);
+        return Number.isNaN(pullNumber) ? null : { kind: 'pull', owner, repo, pullNumber };
+    }
+    if (kind === 'compare') {
+        const separator = rest.includes('...') ? '...' : '..';
+        const [base, head] = rest.split(separator);
+        if (!base || !head) return null;
+        return { kind: 'compare', owner, repo, base: decodeURIComponent(base), head: decodeURIComponent(head) };
+    }
+    if (kind === 'tree' || kind === 'commit') {
+        return { kind: 'repo', owner, repo, ref: decodeURIComponent(rest) };
+    }
+    return { kind: 'repo', owner, repo };
+};
+
 
-    // 2. Get the latest commit SHA for the default branch to find the root tree SHA
-    const branchInfoRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/branches/${defaultBranch}`);
-    if (!branchInfoRes.ok) {
-         if (branchInfoRes.status === 403) {
-            throw new Error('GitHub API rate limit exceeded (60 requests/hour for unauthenticated users). Please wait a moment and try again.');
+/**
+ * Lists every file under a tree. GitHub truncates recursive listings of very large trees, so a truncated
+ * tree is walked instead: its own entries are listed, then each subdirectory, recursively in the same way.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param treeSha The tree to list.
+ * @param prefix The tree's path followed by a slash, or empty for the root, to make the file paths full.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the files, and whether the walk had to stop before listing them all.
+ */
+const listTreeFiles = async (owner: string, repo: string, treeSha: string, prefix: string, options: GitHubClientOptions): Promise<{ files: { path: string; sha: string; size?: number }[]; truncated: boolean }> => {
+    const files: { path: string; sha: string; size?: number }[] = [];
+    const toFiles = (items: GitHubFile[], itemPrefix: string) => items
+        .filter(item => item.type === 'blob')
+        .forEach(item => files.push({ path: itemPrefix + item.path, sha: item.sha, size: item.size }));
+
+    let requests = 0;
+    let truncated = false;
+    const walk = async (sha: string, path: string): Promise<void> => {
+        if (requests >= MAX_TREE_REQUESTS) {
+            truncated = true;
+            return;
+        }
+        requests++;
+        const recursive = await fetchGitHubJson<GitHubTreeResponse>(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${sha}?recursive=1`, 'file tree', options);
+        if (!recursive.truncated) {
+            toFiles(recursive.tree, path);
+            return;
         }
-        throw new Error(`Could not fetch branch info (status: ${branchInfoRes.status}).`);
+        requests++;
+        const directory = await fetchGitHubJson<GitHubTreeResponse>(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${sha}`, 'file tree', options);
+        // A single directory with too many entries cannot be listed in full any other way.
+        truncated ||= directory.truncated;
+        toFiles(directory.tree, path);
+        for (const item of directory.tree.filter(item => item.type === 'tree')) {
+            await walk(item.sha, `${path}${item.path}/`);
+        }
+    };
+    await walk(treeSha, prefix);
+    return { files, truncated };
+};
+
+/**
+ * Finds the tree of a directory, one level at a time from the root tree.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param rootSha The root tree.
+ * @param directory The directory path, e.g. `packages/app`.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the directory's tree SHA.
+ */
+const findSubtree = async (owner: string, repo: string, rootSha: string, directory: string, options: GitHubClientOptions): Promise<string> => {
+    let sha = rootSha;
+    for (const name of directory.split('/')) {
+        const tree = await fetchGitHubJson<GitHubTreeResponse>(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${sha}`, 'file tree', options);
+        const entry = tree.tree.find(item => item.type === 'tree' && item.path === name);
+        if (!entry) {
+            throw new Error(`There is no directory "${directory}" in ${owner}/${repo}.`);
+        }
+        sha = entry.sha;
     }
-    const branchInfo: GitHubBranchResponse = await branchInfoRes.json();
-    const treeSha = branchInfo.commit.commit.tree.sha;
+    return sha;
+};
 
-    // 3. Fetch the recursive file tree
-    const treeRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${treeSha}?recursive=1`);
-    if (!treeRes.ok) {
-         if (treeRes.status === 403) {
-            throw new Error('GitHub API rate limit exceeded (60 requests/hour for unauthenticated users). Please wait a moment and try again.');
+/**
+ * Splits the part of a `/tree/` URL after the repository into a ref and a directory. Refs can contain slashes,
+ * e.g. `feature/login/src`, so the longest leading part that names a branch, tag or commit is the ref.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param refAndPath The ref, optionally followed by a path, e.g. `main/src/utils`.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the ref and the directory, which is empty when the URL names only a ref.
+ */
+export const splitGitHubRefAndPath = async (owner: string, repo: string, refAndPath: string, options: GitHubClientOptions = {}): Promise<{ ref: string; directory: string }> => {
+    const segments = refAndPath.split('/').filter(Boolean);
+    for (let length = segments.length; length > 0; length--) {
+        const ref = segments.slice(0, length).join('/');
+        const res = await githubFetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${encodeURIComponent(ref)}`, options);
+        if (res.ok) {
+            return { ref, directory: segments.slice(length).join('/') };
+        }
+        // GitHub answers 422 rather than 404 for some names that are not refs.
+        if (res.status !== 404 && res.status !== 422) {
+            throw toGitHubError(res, 'commit info');
         }
-        throw new Error(`Could not fetch file tree (status: ${treeRes.status}).`);
     }
-    const treeData: GitHubTreeResponse = await treeRes.json();
+    throw new Error(`Could not find a branch, tag or commit named by "${refAndPath}" in ${owner}/${repo}.`);
+};
 
-    // Filter for files (blobs) only
-    return treeData.tree.filter(item => item.type === 'blob').map(item => ({ path: item.path }));
+/**
+ * Fetches the recursive file tree of a GitHub repository, or of one directory in it.
+ * @param repoUrl The full URL of the GitHub repository.
+ * @param ref An optional branch, tag or commit SHA. Defaults to the ref in the URL, then the default branch.
+ * @param options The token and rate limit callback.
+ * @param directory An optional directory to list instead of the whole repository, e.g. `packages/app`.
+ * @returns A promise that resolves to the commit SHA that was listed, its files with their blob SHAs and sizes,
+ * and whether the listing is incomplete because the tree is too large to list.
+ */
+export const fetchRepoFileTree = async (repoUrl: string, ref?: string, options: GitHubClientOptions = {}, directory?: string): Promise<{ sha: string; files: { path: string; sha: string; size?: number }[]; truncated: boolean }> => {
+    const target = parseGitHubUrl(repoUrl);
+    if (!target) {
+        throw new Error('Invalid GitHub repository URL.');
+    }
+    const { owner, repo } = target;
+
+    // 1. Work out which ref to list, falling back to the default branch
+    let resolvedRef = ref || (target.kind === 'repo' ? target.ref : undefined);
+    if (!resolvedRef) {
+        const repoInfo = await fetchGitHubJson<GitHubRepoResponse>(
+            `${GITHUB_API_BASE}/repos/${owner}/${repo}`,
+            'repository info',
+            options,
+            options.token
+                ? 'Repository not found. Please check the URL and that your GitHub token can access it.'
+                : 'Repository not found. Please check the URL, or add a GitHub token in Settings to review private repositories.'
+        );
+        resolvedRef = repoInfo.default_branch;
+    }
+
+    // 2. Resolve the ref (branch, tag or SHA) to a commit to find the root tree SHA
+    const commitInfo = await fetchGitHubJson<GitHubCommitResponse>(
+        `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${encodeURIComponent(resolvedRef)}`,
+        'commit info',
+        options,
+        `Could not find branch, tag or commit "${resolvedRef}" in ${owner}/${repo}.`
+    );
+    let treeSha = commitInfo.commit.tree.sha;
+
+    // 3. Find the directory's tree, if only a directory is listed
+    if (directory) {
+        treeSha = await findSubtree(owner, repo, treeSha, directory, options);
+    }
+
+    // 4. List the files (blobs), walking the tree if it is too large to list at once
+    const { files, truncated } = await listTreeFiles(owner, repo, treeSha, directory ? `${directory}/` : '', options);
+    return { sha: commitInfo.sha, files, truncated };
 };
 
 
 /**
- * Fetches the content of a specific file from a GitHub repository.
+ * Fetches every page of a pull request's changed files.
  * @param owner The repository owner.
  * @param repo The repository name.
- * @param path The full path to the file within the repository.
+ * @param pullNumber The pull request number.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the changed files.
+ */
+const fetchPullFiles = async (owner: string, repo: string, pullNumber: number, options: GitHubClientOptions): Promise<GitHubDiffFile[]> => {
+    const files: GitHubDiffFile[] = [];
+    for (let page = 1; page <= MAX_PULL_FILES / 100; page++) {
+        const pageFiles = await fetchGitHubJson<GitHubDiffFile[]>(
+            `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${pullNumber}/files?per_page=100&page=${page}`,
+            'pull request files',
+            options
+        );
+        files.push(...pageFiles);
+        if (pageFiles.length < 100) break;
+    }
+    return files;
+};
+
+/**
+ * Fetches the files changed by a pull request or comparison, along with their diff hunks.
+ * Removed files are left out since there is nothing left to review.
+ * @param target A pull request or compare target from `parseGitHubUrl`.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the head commit SHA to read file contents from, the changed files,
+ * and whether GitHub left files out because the change is too large to list.
+ */
+export const fetchChangedFiles = async (target: Exclude<GitHubTarget, { kind: 'repo' }>, options: GitHubClientOptions = {}): Promise<{ sha: string; files: ChangedFile[]; truncated: boolean }> => {
+    const { owner, repo } = target;
+    let headSha: string;
+    let diffFiles: GitHubDiffFile[];
+    let truncated: boolean;
+
+    if (target.kind === 'pull') {
+        const pull = await fetchGitHubJson<GitHubPullResponse>(
+            `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${target.pullNumber}`,
+            'pull request',
+            options,
+            `Pull request #${target.pullNumber} was not found in ${owner}/${repo}.`
+        );
+        headSha = pull.head.sha;
+        diffFiles = await fetchPullFiles(owner, repo, target.pullNumber, options);
+        truncated = diffFiles.length >= MAX_PULL_FILES;
+    } else {
+        const comparison = await fetchGitHubJson<GitHubCompareResponse>(
+            `${GITHUB_API_BASE}/repos/${owner}/${repo}/compare/${encodeURIComponent(target.base)}...${encodeURIComponent(target.head)}`,
+            'comparison',
+            options,
+            `Could not compare "${target.base}" with "${target.head}" in ${owner}/${repo}.`
+        );
+        // The comparison lists at most 250 commits, so its last one is not always the head.
+        const headCommit = await fetchGitHubJson<GitHubCommitResponse>(
+            `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits/${encodeURIComponent(target.head)}`,
+            'commit info',
+            options,
+            `Could not find branch, tag or commit "${target.head}" in ${owner}/${repo}.`
+        );
+        headSha = headCommit.sha;
+        // Comparisons list their files on one page, which cannot be paged past, so larger ones are partial.
+        diffFiles = comparison.files || [];
+        truncated = diffFiles.length >= MAX_COMPARE_FILES;
+    }
+
+    return {
+        sha: headSha,
+        files: diffFiles
+            .filter(file => file.status !== 'removed')
+            .map(file => ({ path: file.filename, sha: file.sha, status: file.status, patch: file.patch })),
+        truncated,
+    };
+};
+
+
+const contentUrl = (owner: string, repo: string, path: string, ref?: string): string => {
+    const query = ref ? `?ref=${encodeURIComponent(ref)}` : '';
+    return `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}${query}`;
+};
+
+/**
+ * Decodes base64 file content as UTF-8. Invalid byte sequences become U+FFFD, as when a browser reads a text file,
+ * so binary content is left for `detectBinaryContent` to report.
+ * @param base64 The content, possibly wrapped over several lines.
+ * @param path The file path, used in error messages.
+ * @returns The text.
+ */
+const decodeBase64Text = (base64: string, path: string): string => {
+    let binary: string;
+    try {
+        binary = atob(base64.replace(/\s/g, ''));
+    } catch {
+        throw new Error(`GitHub returned content for ${path} that is not valid base64.`);
+    }
+    const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+    return new TextDecoder('utf-8').decode(bytes);
+};
+
+/**
+ * Reads and decodes the body of a Contents API response. Files over 1 MB come without content,
+ * so they are read from the Git blobs API instead, which serves files of up to 100 MB.
+ * @param contentRes The response.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param path The file path, used in error messages.
+ * @param options The token and rate limit callback.
  * @returns A promise that resolves to the string content of the file.
  */
-export const getFileContent = async (owner: string, repo: string, path: string): Promise<string> => {
-    const contentRes = await fetch(`${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}`);
+const readContentResponse = async (contentRes: Response, owner: string, repo: string, path: string, options: GitHubClientOptions): Promise<string> => {
     if (!contentRes.ok) {
-        if (contentRes.status === 403) {
-            throw new Error('GitHub API rate limit exceeded for this file.');
+        if (contentRes.status === 401 || contentRes.status === 403) {
+            throw toGitHubError(contentRes, path);
         }
         throw new Error(`Failed to fetch content for ${path} (status: ${contentRes.status}).`);
     }
-    
+
     const contentData: GitHubContentResponse = await contentRes.json();
-    
-    // Decode base64 content
-    try {
-        return atob(contentData.content);
-    } catch (e) {
-        console.error(`Error decoding base64 content for ${path}:`, e);
-        return `// Error: Could not decode content for ${path}`;
+    if (Array.isArray(contentData)) {
+        throw new Error(`${path} is a directory, not a file.`);
+    }
+    if (contentData.encoding === 'base64' && (contentData.content || contentData.size === 0)) {
+        return decodeBase64Text(contentData.content, path);
+    }
+    const blob = await fetchGitHubJson<GitHubBlobResponse>(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/blobs/${contentData.sha}`, path, options);
+    return decodeBase64Text(blob.content, path);
+};
+
+/**
+ * Fetches the content of a specific file from a GitHub repository.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param path The full path to the file within the repository.
+ * @param ref An optional branch, tag or commit SHA to read the file at. Defaults to the default branch.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the string content of the file.
+ */
+export const getFileContent = async (owner: string, repo: string, path: string, ref?: string, options: GitHubClientOptions = {}): Promise<string> => {
+    const contentRes = await githubFetch(contentUrl(owner, repo, path, ref), options);
+    return readContentResponse(contentRes, owner, repo, path, options);
+};
+
+/**
+ * Like `getFileContent`, but resolves to null instead of failing when the file does not exist.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param path The full path to the file within the repository.
+ * @param ref An optional branch, tag or commit SHA to read the file at.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the string content of the file, or null if there is no such file.
+ */
+export const getOptionalFileContent = async (owner: string, repo: string, path: string, ref?: string, options: GitHubClientOptions = {}): Promise<string | null> => {
+    const contentRes = await githubFetch(contentUrl(owner, repo, path, ref), options);
+    if (contentRes.status === 404) {
+        return null;
+    }
+    return readContentResponse(contentRes, owner, repo, path, options);
+};
+
+/**
+ * Fetches the text of every review and inline review comment already on a pull request.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param pullNumber The pull request number.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the comment bodies.
+ */
+export const fetchPullRequestCommentBodies = async (owner: string, repo: string, pullNumber: number, options: GitHubClientOptions = {}): Promise<string[]> => {
+    const bodies: string[] = [];
+    for (const [kind, description] of [['reviews', 'pull request reviews'], ['comments', 'pull request comments']]) {
+        for (let page = 1; ; page++) {
+            const pageItems = await fetchGitHubJson<GitHubCommentResponse[]>(
+                `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${pullNumber}/${kind}?per_page=100&page=${page}`,
+                description,
+                options,
+                `Pull request #${pullNumber} was not found in ${owner}/${repo}.`
+            );
+            pageItems.forEach(item => bodies.push(item.body || ''));
+            if (pageItems.length < 100) break;
+        }
     }
-};
\ No newline at end of file
+    return bodies;
+};
+
+/**
+ * Finds a review on a pull request by its summary comment.
+ * @param reviewsUrl The API URL of the pull request's reviews.
+ * @param body The summary comment.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the review, or null if there is none with that summary.
+ */
+const findPullRequestReview = async (reviewsUrl: string, body: string, options: GitHubClientOptions): Promise<GitHubReviewResponse | null> => {
+    for (let page = 1; ; page++) {
+        const reviews = await fetchGitHubJson<GitHubReviewResponse[]>(`${reviewsUrl}?per_page=100&page=${page}`, 'pull request reviews', options);
+        const match = reviews.find(item => (item.body || '').trim() === body.trim());
+        if (match) return match;
+        if (reviews.length < 100) return null;
+    }
+};
+
+/**
+ * Creates a pull request review that comments without approving or requesting changes.
+ * Needs a token with write access to pull requests.
+ * @param owner The repository owner.
+ * @param repo The repository name.
+ * @param pullNumber The pull request number.
+ * @param review The summary and inline comments.
+ * @param options The token and rate limit callback.
+ * @returns A promise that resolves to the URL of the new review.
+ */
+export const createPullRequestReview = async (owner: string, repo: string, pullNumber: number, review: PullRequestReviewDraft, options: GitHubClientOptions = {}): Promise<string> => {
+    const reviewsUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls/${pullNumber}/reviews`;
+    const post = () => githubFetch(reviewsUrl, options, {
+        commit_id: review.commitSha,
+        body: review.body,
+        event: 'COMMENT',
+        comments: review.comments.map(comment => ({
+            path: comment.path,
+            line: comment.line,
+            side: 'RIGHT',
+            ...(comment.startLine ? { start_line: comment.startLine, start_side: 'RIGHT' } : {}),
+            body: comment.body,
+        })),
+    });
+
+    let res = await post();
+    for (let serverErrors = 0; isRetryableStatus(res.status) && serverErrors < MAX_SERVER_ERROR_RETRIES; ) {
+        await sleep(backoffDelay(serverErrors++), options.signal);
+        // The review may have been created before the error, so only post it again if it is not there.
+        const existing = await findPullRequestReview(reviewsUrl, review.body, options);
+        if (existing) {
+            return existing.html_url;
+        }
+        res = await post();
+    }
+    if (res.status === 422) {
+        const details = await res.json().catch(() => null);
+        throw new Error(`GitHub rejected the review: ${details?.errors?.join?.(' ') || details?.message || 'invalid request'}.`);
+    }
+    if (res.status === 403 || res.status === 404) {
+        // GitHub answers 404 rather than 403 when a token can read but not write.
+        throw new Error(`Could not publish to pull request #${pullNumber}. Check that your GitHub token has write access to pull requests in ${owner}/${repo}.`);
+    }
+    if (!res.ok) {
+        throw toGitHubError(res, 'the pull request review');
+    }
+    const created: GitHubReviewResponse = await res.json();
+    return created.html_url;
+};
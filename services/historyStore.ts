@@ -0,0 +1,69 @@
+// Keeps a local history of paste reviews and repository scans in IndexedDB, so results survive reloads and new scans.
+import { ChatMessage, ReviewResult } from '../types';
+import { STORES, runStoreRequest } from './db';
+import type { ScanJob } from './scanEngine';
+
+// The oldest entries are dropped beyond this, so the history does not grow without bound.
+const MAX_HISTORY_ENTRIES = 200;
+
+// A review of pasted code.
+export interface PasteHistoryEntry {
+  id: string;
+  kind: 'paste';
+  createdAt: number;
+  // The provider and model, e.g. "gemini/gemini-2.5-flash".
+  model: string;
+  // The name of the review profile.
+  profile: string;
+  language: string;
+  code: string;
+  result: ReviewResult;
+  // Follow-up questions about the review and their answers, oldest first.
+  chat?: ChatMessage[];
+}
+
+// A repository or local folder scan, finished or stopped. The job records the repository, ref, model and profile.
+export interface ScanHistoryEntry {
+  id: string;
+  kind: 'scan';
+  createdAt: number;
+  job: ScanJob;
+}
+
+export type HistoryEntry = PasteHistoryEntry | ScanHistoryEntry;
+
+/**
+ * Lists the history, newest first.
+ * @returns A promise that resolves to every saved entry.
+ */
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries = await runStoreRequest<HistoryEntry[]>(STORES.history, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+/**
+ * Saves (or replaces) an entry, e.g. a resumed scan, and drops the oldest entries beyond the limit.
+ * @param entry The entry to save.
+ */
+export const saveHistoryEntry = async (entry: HistoryEntry): Promise<void> => {
+  await runStoreRequest(STORES.history, 'readwrite', store => store.put(entry));
+  const entries = await listHistoryEntries();
+  for (const old of entries.slice(MAX_HISTORY_ENTRIES)) {
+    await deleteHistoryEntry(old.id);
+  }
+};
+
+/**
+ * Deletes an entry.
+ * @param id The entry id.
+ */
+export const deleteHistoryEntry = async (id: string): Promise<void> => {
+  await runStoreRequest(STORES.history, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Deletes the whole history.
+ */
+export const clearHistory = async (): Promise<void> => {
+  await runStoreRequest(STORES.history, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,133 @@
+import { matchesAnyGlob } from '../utils/glob';
+import { readZipEntries } from '../utils/zip';
+import { ScanFile } from './scanEngine';
+
+/**
+ * Files picked from the user's machine: a folder or the contents of a .zip archive.
+ * Everything stays in the browser; only the files chosen for review are read, and only their code is sent to the model.
+ */
+export interface LocalFileSource {
+  // The folder or archive name, shown as the scan scope.
+  name: string;
+  files: ScanFile[];
+  readFile: (path: string) => Promise<string>;
+}
+
+// Never worth walking into, whatever the rules say.
+const IGNORED_DIRECTORIES = new Set(['.git', '.hg', '.svn']);
+
+/**
+ * Drops a top-level folder shared by every path, such as `repo-main/` in a downloaded archive.
+ * @param paths The paths.
+ * @returns The prefix to strip, including its trailing `/`, or an empty string.
+ */
+const commonRootFolder = (paths: string[]): string => {
+  const first = paths[0]?.split('/')[0];
+  if (!first || paths.some(path => !path.startsWith(`${first}/`))) return '';
+  return `${first}/`;
+};
+
+const isIgnoredPath = (path: string): boolean => path.split('/').slice(0, -1).some(part => IGNORED_DIRECTORIES.has(part));
+
+/**
+ * Builds a source from a map of paths to files.
+ * @param name The folder or archive name.
+ * @param entries The files, keyed by their path.
+ * @param read Reads one file's text.
+ * @returns The source.
+ */
+const createSource = <T extends { size: number }>(name: string, entries: Map<string, T>, read: (entry: T) => Promise<string>): LocalFileSource => {
+  const root = commonRootFolder([...entries.keys()]);
+  const byPath = new Map<string, T>();
+  entries.forEach((entry, path) => {
+    const relative = path.slice(root.length);
+    if (relative && !isIgnoredPath(relative)) byPath.set(relative, entry);
+  });
+  return {
+    name,
+    files: [...byPath.entries()].map(([path, entry]) => ({ path, size: entry.size })).sort((a, b) => a.path.localeCompare(b.path)),
+    readFile: async path => {
+      const entry = byPath.get(path);
+      if (!entry) throw new Error(`File not found: ${path}`);
+      return read(entry);
+    },
+  };
+};
+
+/**
+ * Loads the files chosen with a folder picker (`<input type="file" webkitdirectory>`).
+ * @param fileList The selected files, whose `webkitRelativePath` starts with the folder name.
+ * @returns The source.
+ */
+export const loadFolderFiles = (fileList: File[]): LocalFileSource => {
+  const entries = new Map(fileList.map(file => [file.webkitRelativePath || file.name, file] as const));
+  const name = fileList[0]?.webkitRelativePath.split('/')[0] || 'folder';
+  return createSource(name, entries, file => file.text());
+};
+
+/**
+ * Loads the files inside a .zip archive.
+ * @param file The archive.
+ * @returns The source.
+ */
+export const loadZipFile = async (file: File): Promise<LocalFileSource> => {
+  const entries = new Map(readZipEntries(await file.arrayBuffer()).map(entry => [entry.path, entry] as const));
+  const decoder = new TextDecoder('utf-8');
+  return createSource(file.name.replace(/\.zip$/i, ''), entries, async entry => decoder.decode(await entry.read()));
+};
+
+/**
+ * Reads every entry of a dropped directory. Browsers return directory listings in batches.
+ * @param directory The directory entry.
+ * @returns All of its child entries.
+ */
+const readDirectory = async (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader();
+  const children: FileSystemEntry[] = [];
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return children;
+    children.push(...batch);
+  }
+};
+
+/**
+ * Loads a folder or .zip archive dropped onto the page.
+ * @param items The dropped items.
+ * @param exclude Exclude globs from the filter rules; matching folders are not walked at all.
+ * @returns The source.
+ */
+export const loadDroppedItems = async (items: DataTransferItemList, exclude: string[]): Promise<LocalFileSource> => {
+  const roots = Array.from(items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+  if (roots.length === 0) {
+    throw new Error("Nothing to review was dropped. Drop a folder or a .zip file.");
+  }
+
+  if (roots.length === 1 && roots[0].isFile && /\.zip$/i.test(roots[0].name)) {
+    const zip = await new Promise<File>((resolve, reject) => (roots[0] as FileSystemFileEntry).file(resolve, reject));
+    return loadZipFile(zip);
+  }
+
+  // A single dropped folder is the root, so its name is not part of the paths the rules see.
+  const rootPrefix = roots.length === 1 && roots[0].isDirectory ? `${roots[0].name}/` : '';
+  const files = new Map<string, File>();
+  const walk = async (entry: FileSystemEntry, path: string) => {
+    if (entry.isDirectory) {
+      const directory = `${path}/`;
+      const relative = directory.startsWith(rootPrefix) ? directory.slice(rootPrefix.length) : directory;
+      if (IGNORED_DIRECTORIES.has(entry.name) || (relative && matchesAnyGlob(relative, exclude))) return;
+      for (const child of await readDirectory(entry as FileSystemDirectoryEntry)) {
+        await walk(child, `${path}/${child.name}`);
+      }
+    } else if (entry.isFile) {
+      files.set(path, await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject)));
+    }
+  };
+  for (const root of roots) {
+    await walk(root, root.name);
+  }
+  const name = roots.length === 1 ? roots[0].name : 'dropped files';
+  return createSource(name, files, file => file.text());
+};
@@ -0,0 +1,125 @@
+import { ApiError, FinishReason, GenerateContentResponse, GenerateContentResponseUsageMetadata, GoogleGenAI } from "@google/genai";
+import { isRetryableStatus, withRetry } from "../../utils/retry";
+import { GenerateRequest, GenerateResponse, LlmProvider, ProviderSettings, StreamListener, TokenUsage } from "./types";
+
+// Rate limiting (429) and server errors (5xx) are transient, so they are retried with backoff.
+const isRetryableGeminiError = (error: unknown): boolean =>
+  error instanceof ApiError && isRetryableStatus(error.status);
+
+/**
+ * Turns an error from the Gemini SDK into one that can be shown to the user.
+ * @param error The error thrown by the SDK.
+ * @returns A user-friendly error.
+ */
+const toGeminiError = (error: unknown): Error => {
+  console.error("Error reviewing code with Gemini API:", error);
+  if (error instanceof Error) {
+      // Provide a more user-friendly error message
+      if (error.message.includes('API key not valid')) {
+          return new Error("The Gemini API key you provided is invalid. Please check it in the Settings tab.");
+      }
+      return new Error(`An error occurred while communicating with the API: ${error.message}`);
+  }
+  return new Error("An unknown error occurred while reviewing the code.");
+};
+
+/**
+ * Reads the token counts of a response.
+ * @param metadata The response's `usageMetadata`.
+ * @returns The usage, or undefined if the response has none.
+ */
+const toTokenUsage = (metadata: GenerateContentResponseUsageMetadata | undefined): TokenUsage | undefined =>
+  metadata ? {
+    inputTokens: metadata.promptTokenCount || 0,
+    outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+  } : undefined;
+
+/**
+ * Fails a response that stopped at the output token limit, since a cut-off JSON review cannot be read.
+ * @param finishReason Why the model stopped.
+ * @param maxOutputTokens The configured limit, or 0 for the model's own.
+ */
+const assertNotTruncated = (finishReason: FinishReason | undefined, maxOutputTokens: number): void => {
+  if (finishReason !== FinishReason.MAX_TOKENS) return;
+  throw new Error(maxOutputTokens > 0
+    ? `The response was cut off at the limit of ${maxOutputTokens} output tokens, which includes thinking tokens. Raise "Max output tokens" in the Settings tab, or set it to 0 for no limit.`
+    : "The response was cut off at the model's output token limit. Try reviewing a smaller file.");
+};
+
+/**
+ * Creates a provider backed by the Google Gemini API.
+ * @param settings The API key, model and generation settings.
+ * @returns The provider.
+ */
+export const createGeminiProvider = (settings: ProviderSettings): LlmProvider => {
+  if (!settings.apiKey) {
+    throw new Error("API Key is missing. Please provide it in the Settings tab.");
+  }
+  const ai = new GoogleGenAI({ apiKey: settings.apiKey });
+
+  const buildParams = ({ prompt, history, responseSchema, signal }: GenerateRequest) => ({
+    model: settings.model,
+    // A conversation is sent as a list of turns, the same as a Gemini chat session does.
+    contents: history?.length
+      ? [...history, { role: 'user', text: prompt }].map(({ role, text }) => ({ role, parts: [{ text }] }))
+      : prompt,
+    config: {
+      temperature: settings.temperature,
+      // 0 leaves the limit to the model. On thinking models the limit also counts thinking tokens.
+      maxOutputTokens: settings.maxOutputTokens || undefined,
+      ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+      abortSignal: signal,
+    }
+  });
+
+  const generate = async (request: GenerateRequest): Promise<GenerateResponse> => {
+    let response: GenerateContentResponse;
+    try {
+      response = await withRetry(() => ai.models.generateContent(buildParams(request)),
+        { signal: request.signal, isRetryable: isRetryableGeminiError });
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      throw toGeminiError(error);
+    }
+    assertNotTruncated(response.candidates?.[0]?.finishReason, settings.maxOutputTokens);
+    return { text: response.text || '', usage: toTokenUsage(response.usageMetadata) };
+  };
+
+  const generateStream = async (request: GenerateRequest, onText: StreamListener): Promise<GenerateResponse> => {
+    let text = '';
+    let usage: TokenUsage | undefined;
+    let finishReason: FinishReason | undefined;
+    try {
+      // Only opening the stream is retried: once text has been shown, a retry would repeat it.
+      const stream = await withRetry(() => ai.models.generateContentStream(buildParams(request)),
+        { signal: request.signal, isRetryable: isRetryableGeminiError });
+      for await (const chunk of stream) {
+        const delta = chunk.text || '';
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+        // The counts are cumulative; the last chunk has the totals.
+        usage = toTokenUsage(chunk.usageMetadata) || usage;
+        finishReason = chunk.candidates?.[0]?.finishReason || finishReason;
+      }
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      throw toGeminiError(error);
+    }
+    assertNotTruncated(finishReason, settings.maxOutputTokens);
+    return { text, usage };
+  };
+
+  return {
+    id: 'gemini',
+    model: settings.model,
+    generationConfig: { temperature: settings.temperature, maxOutputTokens: settings.maxOutputTokens },
+    generate,
+    generateStream,
+  };
+};
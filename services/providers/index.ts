@@ -0,0 +1,91 @@
+// Provider registry: defaults, persistence and construction of the active model provider.
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { LlmProvider, LlmSettings, ProviderId, ProviderSettings } from './types';
+
+export * from './types';
+
+const STORAGE_KEY = 'llm-settings';
+// Where the Gemini key was stored before other providers existed.
+const LEGACY_GEMINI_KEY = 'gemini-api-key';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Mock (offline, deterministic)',
+};
+
+export const DEFAULT_PROVIDER_SETTINGS: Record<ProviderId, ProviderSettings> = {
+  gemini: { apiKey: '', baseUrl: '', model: 'gemini-2.5-flash', temperature: 0.2, maxOutputTokens: 0 },
+  openai: { apiKey: '', baseUrl: 'https://api.openai.com/v1', model: 'gpt-4o-mini', temperature: 0.2, maxOutputTokens: 4096 },
+  mock: { apiKey: '', baseUrl: '', model: 'mock', temperature: 0, maxOutputTokens: 0 },
+};
+
+/**
+ * Loads the provider settings from local storage, filling in defaults and the legacy Gemini key.
+ * @returns The stored settings.
+ */
+export const loadLlmSettings = (): LlmSettings => {
+  let saved: Partial<LlmSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    // Fall back to the defaults below.
+  }
+  const providers = { ...DEFAULT_PROVIDER_SETTINGS };
+  (Object.keys(providers) as ProviderId[]).forEach(id => {
+    providers[id] = { ...providers[id], ...(saved.providers?.[id] || {}) };
+  });
+  const legacyKey = localStorage.getItem(LEGACY_GEMINI_KEY);
+  if (legacyKey && !providers.gemini.apiKey) {
+    providers.gemini = { ...providers.gemini, apiKey: legacyKey };
+  }
+  return { active: saved.active && saved.active in providers ? saved.active : 'gemini', providers };
+};
+
+/**
+ * Saves the provider settings to local storage.
+ * @param settings The settings to save.
+ */
+export const saveLlmSettings = (settings: LlmSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_GEMINI_KEY);
+};
+
+/**
+ * Checks whether a provider has what it needs to make requests.
+ * @param id The provider.
+ * @param settings Its settings.
+ * @returns True if the provider can be created.
+ */
+export const isProviderConfigured = (id: ProviderId, settings: ProviderSettings): boolean => {
+  switch (id) {
+    case 'gemini':
+      return !!settings.apiKey && !!settings.model;
+    case 'openai':
+      return !!settings.baseUrl && !!settings.model;
+    case 'mock':
+      return true;
+  }
+};
+
+/**
+ * Creates the active provider from the stored settings.
+ * @param settings The provider settings.
+ * @returns The provider, or null if it is not configured yet.
+ */
+export const createProvider = (settings: LlmSettings): LlmProvider | null => {
+  const providerSettings = settings.providers[settings.active];
+  if (!isProviderConfigured(settings.active, providerSettings)) {
+    return null;
+  }
+  switch (settings.active) {
+    case 'gemini':
+      return createGeminiProvider(providerSettings);
+    case 'openai':
+      return createOpenAiProvider(providerSettings);
+    case 'mock':
+      return createMockProvider(providerSettings);
+  }
+};
@@ -0,0 +1,78 @@
+import { estimateTokens } from "../../utils/chunking";
+import { sleep } from "../../utils/retry";
+import { GenerateRequest, GenerateResponse, LlmProvider, ProviderSettings, StreamListener } from "./types";
+
+// Simple line patterns the mock reviewer reports, so its output depends only on the code.
+const MOCK_RULES = [
+  { pattern: /\beval\s*\(/, category: 'security', severity: 'high', message: 'Avoid `eval`; it executes arbitrary code.' },
+  { pattern: /\b(TODO|FIXME)\b/, category: 'style', severity: 'info', message: 'Unresolved TODO/FIXME comment.' },
+  { pattern: /\bconsole\.log\s*\(/, category: 'style', severity: 'low', message: 'Debug logging left in the code.', deleteLine: true },
+];
+
+// Streamed responses arrive in pieces of this many characters, a short delay apart.
+const STREAM_PIECE_LENGTH = 40;
+const STREAM_DELAY_MS = 20;
+
+// Numbered code lines in a review prompt look like `12: const x = 1;`.
+const NUMBERED_LINE_REGEX = /^\s*(\d+): (.*)$/;
+
+/**
+ * Creates a deterministic provider that never calls a network API.
+ * Structured requests get findings from a few fixed line patterns; plain requests get a fixed reply.
+ * Token usage is estimated from the text, so usage tracking and budgets can be tried out too.
+ * Useful for tests and for trying out the UI without an API key.
+ * @param settings The settings; only the model name is used.
+ * @returns The provider.
+ */
+export const createMockProvider = (settings: ProviderSettings): LlmProvider => {
+  // The response text: findings for structured requests, a fixed reply otherwise.
+  const respond = ({ prompt, history, responseSchema, signal }: GenerateRequest): string => {
+    if (signal?.aborted) {
+      throw signal.reason;
+    }
+    if (!responseSchema) {
+      return history?.length ? `This is a mock reply to turn ${history.filter(turn => turn.role === 'user').length + 1} of the conversation.` : 'This is a mock response.';
+    }
+
+    const lines = prompt.split('\n')
+      .map(line => line.match(NUMBERED_LINE_REGEX))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => ({ lineNumber: Number(match[1]), text: match[2] }));
+
+    const findings = lines.flatMap(({ lineNumber, text }) => MOCK_RULES
+      .filter(rule => rule.pattern.test(text))
+      .map(rule => ({
+        category: rule.category,
+        severity: rule.severity,
+        startLine: lineNumber,
+        endLine: lineNumber,
+        message: rule.message,
+        ...(rule.deleteLine ? { fix: { startLine: lineNumber, endLine: lineNumber, replacement: '' } } : {}),
+      })));
+
+    return JSON.stringify({ summary: `Mock review of ${lines.length} line(s).`, findings });
+  };
+
+  const generate = async (request: GenerateRequest): Promise<GenerateResponse> => {
+    const text = respond(request);
+    const input = [...(request.history || []).map(turn => turn.text), request.prompt].join('\n');
+    return { text, usage: { inputTokens: estimateTokens(input), outputTokens: estimateTokens(text) } };
+  };
+
+  const generateStream = async (request: GenerateRequest, onText: StreamListener): Promise<GenerateResponse> => {
+    const response = await generate(request);
+    for (let i = 0; i < response.text.length; i += STREAM_PIECE_LENGTH) {
+      await sleep(STREAM_DELAY_MS, request.signal);
+      onText(response.text.slice(i, i + STREAM_PIECE_LENGTH));
+    }
+    return response;
+  };
+
+  return {
+    id: 'mock',
+    model: settings.model || 'mock',
+    generationConfig: { temperature: 0, maxOutputTokens: 0 },
+    generate,
+    generateStream,
+  };
+};
@@ -0,0 +1,153 @@
+import { isRetryableStatus, withRetry } from "../../utils/retry";
+import { GenerateRequest, GenerateResponse, LlmProvider, ProviderSettings, StreamListener, TokenUsage } from "./types";
+
+interface CompletionUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+interface ChatCompletionResponse {
+  choices: { message: { content: string | null } }[];
+  usage?: CompletionUsage;
+}
+
+// One server-sent event of a streamed chat completion. With `include_usage`, the last one has the usage and no choices.
+interface ChatCompletionChunk {
+  choices: { delta: { content?: string | null } }[];
+  usage?: CompletionUsage | null;
+}
+
+const toTokenUsage = (usage: CompletionUsage | null | undefined): TokenUsage | undefined =>
+  usage ? { inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 } : undefined;
+
+// Errors carry the HTTP status so transient failures can be retried.
+type HttpError = Error & { status?: number };
+
+const isRetryableHttpError = (error: unknown): boolean =>
+  typeof (error as HttpError)?.status === 'number' && isRetryableStatus((error as HttpError).status!);
+
+/**
+ * Turns a failed request into one that can be shown to the user.
+ * @param error The error thrown while calling the endpoint.
+ * @returns A user-friendly error.
+ */
+const toOpenAiError = (error: unknown): Error => {
+  console.error("Error reviewing code with the OpenAI-compatible API:", error);
+  if (error instanceof Error) {
+    return new Error(`An error occurred while communicating with the API: ${error.message}`);
+  }
+  return new Error("An unknown error occurred while reviewing the code.");
+};
+
+/**
+ * Creates a provider for any OpenAI-compatible chat completions endpoint, such as OpenAI itself,
+ * a self-hosted model behind vLLM, Ollama or LM Studio, or an API gateway.
+ * @param settings The base URL, optional API key, model and generation settings.
+ * @returns The provider.
+ */
+export const createOpenAiProvider = (settings: ProviderSettings): LlmProvider => {
+  if (!settings.baseUrl) {
+    throw new Error("The base URL for the OpenAI-compatible provider is missing. Please provide it in the Settings tab.");
+  }
+  const endpoint = `${settings.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const postCompletion = async ({ prompt, history = [], responseSchema, signal }: GenerateRequest, stream: boolean): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (settings.apiKey) {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+    const res = await fetch(endpoint, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: settings.model,
+        messages: [
+          ...history.map(({ role, text }) => ({ role: role === 'model' ? 'assistant' : 'user', content: text })),
+          { role: 'user', content: prompt },
+        ],
+        temperature: settings.temperature,
+        max_tokens: settings.maxOutputTokens || undefined,
+        stream,
+        ...(stream ? { stream_options: { include_usage: true } } : {}),
+        ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+      }),
+    });
+    if (!res.ok) {
+      const detail = await res.text().catch(() => '');
+      const error: HttpError = new Error(
+        res.status === 401
+          ? "The API key for the OpenAI-compatible provider was rejected. Please check it in the Settings tab."
+          : `The model endpoint returned status ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`
+      );
+      error.status = res.status;
+      throw error;
+    }
+    return res;
+  };
+
+  const requestCompletion = async (request: GenerateRequest): Promise<GenerateResponse> => {
+    const res = await postCompletion(request, false);
+    const data: ChatCompletionResponse = await res.json();
+    return { text: data.choices?.[0]?.message?.content || '', usage: toTokenUsage(data.usage) };
+  };
+
+  const generate = async (request: GenerateRequest): Promise<GenerateResponse> => {
+    try {
+      return await withRetry(() => requestCompletion(request), { signal: request.signal, isRetryable: isRetryableHttpError });
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      throw toOpenAiError(error);
+    }
+  };
+
+  const generateStream = async (request: GenerateRequest, onText: StreamListener): Promise<GenerateResponse> => {
+    let text = '';
+    let usage: TokenUsage | undefined;
+    try {
+      // Only opening the stream is retried: once text has been shown, a retry would repeat it.
+      const res = await withRetry(() => postCompletion(request, true), { signal: request.signal, isRetryable: isRetryableHttpError });
+      if (!res.body) {
+        throw new Error("The model endpoint did not return a stream.");
+      }
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      // The body is a series of `data: {...}` lines, ending with `data: [DONE]`.
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+          const chunk: ChatCompletionChunk = JSON.parse(data);
+          const delta = chunk.choices?.[0]?.delta?.content || '';
+          if (delta) {
+            text += delta;
+            onText(delta);
+          }
+          usage = toTokenUsage(chunk.usage) || usage;
+        }
+        if (done) break;
+      }
+      return { text, usage };
+    } catch (error) {
+      if (request.signal?.aborted) {
+        throw error;
+      }
+      throw toOpenAiError(error);
+    }
+  };
+
+  return {
+    id: 'openai',
+    model: settings.model,
+    generationConfig: { temperature: settings.temperature, maxOutputTokens: settings.maxOutputTokens },
+    generate,
+    generateStream,
+  };
+};
@@ -0,0 +1,59 @@
+// The interface every model backend implements, so reviews do not depend on a particular vendor.
+import { ChatMessage } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// Per-provider settings chosen in the Settings tab.
+export interface ProviderSettings {
+  apiKey: string;
+  // Only used by OpenAI-compatible providers, e.g. `http://localhost:11434/v1` for a self-hosted model.
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  // 0 leaves the limit to the model.
+  maxOutputTokens: number;
+  // Prices in USD per million input and output tokens, overriding the built-in price list, e.g. 0 for a local model.
+  inputPrice?: number;
+  outputPrice?: number;
+}
+
+// Everything stored for model providers: which one is active and the settings of each.
+export interface LlmSettings {
+  active: ProviderId;
+  providers: Record<ProviderId, ProviderSettings>;
+}
+
+export interface GenerateRequest {
+  prompt: string;
+  // Earlier turns of a conversation, oldest first. `prompt` is then the user's next message.
+  history?: ChatMessage[];
+  // A JSON Schema the response must follow. When set, the response text is JSON.
+  responseSchema?: Record<string, unknown>;
+  signal?: AbortSignal;
+}
+
+// Tokens a request was billed for.
+export interface TokenUsage {
+  inputTokens: number;
+  // Includes any thinking tokens, which are billed as output.
+  outputTokens: number;
+}
+
+export interface GenerateResponse {
+  text: string;
+  // As reported by the API. Missing if the endpoint does not report it.
+  usage?: TokenUsage;
+}
+
+// Receives each piece of the response text as it arrives.
+export type StreamListener = (delta: string) => void;
+
+export interface LlmProvider {
+  readonly id: ProviderId;
+  readonly model: string;
+  // Settings that change the output, used for cache keys.
+  readonly generationConfig: { temperature: number; maxOutputTokens: number };
+  generate(request: GenerateRequest): Promise<GenerateResponse>;
+  // Like `generate`, but reports the text as it is produced. Resolves with the full response.
+  generateStream(request: GenerateRequest, onText: StreamListener): Promise<GenerateResponse>;
+}
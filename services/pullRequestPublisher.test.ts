@@ -0,0 +1,68 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReviewFinding } from '../types';
+import { DEFAULT_FILE_FILTER_RULES } from '../utils/fileFilter';
+import { createPullRequestReview, fetchChangedFiles, fetchPullRequestCommentBodies } from './githubService';
+import { publishToPullRequest } from './pullRequestPublisher';
+import { ScanJob } from './scanEngine';
+
+vi.mock('./githubService', () => ({
+  fetchChangedFiles: vi.fn(),
+  fetchPullRequestCommentBodies: vi.fn(),
+  createPullRequestReview: vi.fn(async () => 'https://github.com/acme/app/pull/7#pullrequestreview-1'),
+}));
+
+// A patch that adds the first 20 lines of the file, so every finding can be commented on inline.
+const PATCH = `@@ -0,0 +1,20 @@\n${Array.from({ length: 20 }, (_, i) => `+line ${i + 1}`).join('\n')}`;
+
+const finding = (changes: Partial<ReviewFinding>): ReviewFinding =>
+  ({ category: 'bugs', severity: 'high', startLine: 3, endLine: 3, message: 'Off-by-one in the loop bound.', fingerprint: 'f1', ...changes });
+
+const job = (findings: ReviewFinding[], commitSha = 'sha1'): ScanJob => ({
+  id: `job-${commitSha}`,
+  repoUrl: 'https://github.com/acme/app',
+  owner: 'acme',
+  repo: 'app',
+  scope: 'acme/app#7',
+  isDiff: true,
+  commitSha,
+  totalFiles: 1,
+  files: [{ path: 'src/loop.ts' }],
+  rules: DEFAULT_FILE_FILTER_RULES,
+  completed: ['src/loop.ts'],
+  reviews: [{ path: 'src/loop.ts', summary: '', findings, rawFeedback: '', htmlFeedback: '' }],
+  errors: [],
+  skipped: [],
+  fromCache: 0,
+  status: 'completed',
+  createdAt: 0,
+  updatedAt: 0,
+});
+
+// Publishes a scan, with the comments of earlier publishes already on the pull request.
+const publish = async (scan: ScanJob, existingBodies: string[]) => {
+  vi.mocked(fetchChangedFiles).mockResolvedValue({ sha: scan.commitSha, files: [{ path: 'src/loop.ts', sha: 'blob', patch: PATCH }], truncated: false } as Awaited<ReturnType<typeof fetchChangedFiles>>);
+  vi.mocked(fetchPullRequestCommentBodies).mockResolvedValue(existingBodies);
+  return publishToPullRequest(scan, 7, { token: 'token' });
+};
+
+// The bodies of everything the last publish posted.
+const postedBodies = (): string[] => {
+  const [, , , review] = vi.mocked(createPullRequestReview).mock.lastCall!;
+  return [review.body, ...review.comments.map(comment => comment.body)];
+};
+
+describe('publishToPullRequest', () => {
+  beforeEach(() => vi.clearAllMocks());
+
+  it('does not post a finding again after a later commit moves its code', async () => {
+    await publish(job([finding({})]), []);
+    const result = await publish(job([finding({ startLine: 9, endLine: 9 })], 'sha2'), postedBodies());
+    expect(result).toMatchObject({ inline: 0, duplicates: 1 });
+  });
+
+  it('posts a finding with the same message about different code', async () => {
+    await publish(job([finding({})]), []);
+    const result = await publish(job([finding({ fingerprint: 'f2' })], 'sha2'), postedBodies());
+    expect(result).toMatchObject({ inline: 1, duplicates: 0 });
+  });
+});
@@ -0,0 +1,189 @@
+// Publishes a scan's findings to a GitHub pull request as a review with inline comments.
+import { getLanguageForFile } from '../constants';
+import { FINDING_SEVERITIES, FindingSeverity, ReviewFinding } from '../types';
+import { getVisibleLines, parsePatch } from '../utils/diff';
+import { CATEGORY_LABELS, filterBySeverity, formatLineRange, sortFindings } from '../utils/findings';
+import { sha256Hex } from '../utils/hash';
+import { summarizeScan } from '../utils/report';
+import { GitHubClientOptions, PullRequestReviewComment, createPullRequestReview, fetchChangedFiles, fetchPullRequestCommentBodies } from './githubService';
+import { ScanJob } from './scanEngine';
+
+// Hidden markers in published comments, so publishing the same review again skips what is already there.
+const MARKER_PREFIX = 'gemini-code-review';
+const MARKER_REGEX = new RegExp(`<!-- ${MARKER_PREFIX}:([\\w-]+) -->`, 'g');
+
+export interface PublishOptions extends GitHubClientOptions {
+  // Findings below this severity are not published. Defaults to publishing everything.
+  minSeverity?: FindingSeverity;
+}
+
+export interface PublishResult {
+  // The URL of the new review, or null if everything had already been published.
+  reviewUrl: string | null;
+  // Findings posted as inline comments.
+  inline: number;
+  // Findings listed in the summary because their lines are not part of the pull request's diff.
+  inSummary: number;
+  // Findings skipped because an earlier publish already posted them.
+  duplicates: number;
+}
+
+// A finding that could not be attached to a line, with its marker.
+interface SummaryFinding {
+  path: string;
+  finding: ReviewFinding;
+  key: string;
+}
+
+const marker = (key: string) => `<!-- ${MARKER_PREFIX}:${key} -->`;
+
+/**
+ * Computes a stable key for a finding, so the same finding is recognised when a review is published again.
+ * The key uses the finding's fingerprint of the code it flags rather than its lines, so it survives commits that
+ * move the code; findings from scans without fingerprints fall back to their lines.
+ * @param path The file the finding is in.
+ * @param finding The finding.
+ * @returns The key.
+ */
+const findingKey = async (path: string, finding: ReviewFinding): Promise<string> => {
+  const location = finding.fingerprint || `${finding.startLine}-${finding.endLine}`;
+  const hash = await sha256Hex([path, finding.category, finding.message, location].join('\n'));
+  return `finding-${hash.slice(0, 16)}`;
+};
+
+const formatHeading = (finding: ReviewFinding) =>
+  `**${finding.severity.toUpperCase()} · ${CATEGORY_LABELS[finding.category]}**`;
+
+/**
+ * Renders the body of an inline comment. A fix for exactly the commented lines becomes a suggestion that can be
+ * committed from the pull request; other fixes are shown as code.
+ * @param path The file the finding is in, used to tag the suggested fix.
+ * @param finding The finding.
+ * @param position Where the comment is placed.
+ * @param key The finding's marker key.
+ * @returns The Markdown body.
+ */
+const formatComment = (path: string, finding: ReviewFinding, position: Pick<PullRequestReviewComment, 'line' | 'startLine'>, key: string): string => {
+  const parts = [formatHeading(finding), finding.message];
+  const { fix } = finding;
+  if (fix && fix.startLine === (position.startLine ?? position.line) && fix.endLine === position.line) {
+    parts.push(`\`\`\`suggestion\n${fix.replacement ? `${fix.replacement}\n` : ''}\`\`\``);
+  } else if (fix) {
+    const fence = (getLanguageForFile(path) || '').toLowerCase();
+    parts.push(`<details><summary>Suggested fix for ${formatLineRange(fix).toLowerCase()}</summary>\n\n\`\`\`${fence}\n${fix.replacement}\n\`\`\`\n\n</details>`);
+  }
+  parts.push(marker(key));
+  return parts.join('\n\n');
+};
+
+/**
+ * Renders the review's summary comment: the executive summary (unless it was already posted)
+ * and any findings that could not be attached to a line.
+ * @param job The scan.
+ * @param includeSummary Whether to include the executive summary.
+ * @param summaryFindings Findings outside the diff.
+ * @returns The Markdown body.
+ */
+const formatSummary = (job: ScanJob, includeSummary: boolean, summaryFindings: SummaryFinding[]): string => {
+  const sections: string[] = [];
+  if (includeSummary) {
+    const summary = summarizeScan(job);
+    sections.push([
+      '## Code Review Summary',
+      `**Scope:** ${summary.scope}${job.model ? ` · **Model:** ${job.model}` : ''}`,
+      `${summary.findings} issue(s) found in ${summary.withIssues} of ${summary.analyzed} analyzed file(s)` +
+        (summary.errors ? `, ${summary.errors} file(s) could not be scanned.` : '.'),
+      FINDING_SEVERITIES.map(severity => `${summary.bySeverity[severity]} ${severity}`).join(' · '),
+      marker(`summary-${job.id}`),
+    ].join('\n\n'));
+  } else {
+    sections.push('## Additional Code Review Findings');
+  }
+  if (summaryFindings.length > 0) {
+    const items = summaryFindings.map(({ path, finding, key }) => {
+      const lines = finding.startLine === finding.endLine ? `${finding.startLine}` : `${finding.startLine}-${finding.endLine}`;
+      return `- \`${path}:${lines}\` ${formatHeading(finding)}: ${finding.message} ${marker(key)}`;
+    });
+    sections.push(`### Findings outside the changed lines\n\n${items.join('\n')}`);
+  }
+  return sections.join('\n\n');
+};
+
+/**
+ * Works out where a finding can be commented on, given the lines the pull request's diff shows.
+ * @param finding The finding.
+ * @param visibleLines From `getVisibleLines`, or undefined if the file is not in the diff.
+ * @returns The comment position, or null if it has to go in the summary instead.
+ */
+const placeFinding = (finding: ReviewFinding, visibleLines: Map<number, number> | undefined): Pick<PullRequestReviewComment, 'line' | 'startLine'> | null => {
+  if (!visibleLines) return null;
+  const startHunk = visibleLines.get(finding.startLine);
+  const endHunk = visibleLines.get(finding.endLine);
+  if (endHunk !== undefined) {
+    // A range has to lie within one hunk; otherwise anchor it to its last line.
+    return finding.startLine < finding.endLine && startHunk === endHunk
+      ? { line: finding.endLine, startLine: finding.startLine }
+      : { line: finding.endLine };
+  }
+  return startHunk !== undefined ? { line: finding.startLine } : null;
+};
+
+/**
+ * Publishes a scan's findings to a pull request as a single review. Findings on lines the pull request changes
+ * (or shows as context) become inline comments; the rest are listed in the summary comment.
+ * Findings and summaries posted by an earlier publish are not posted again.
+ * @param job A finished scan of the pull request's head commit.
+ * @param pullNumber The pull request to publish to.
+ * @param options A token with write access to pull requests, and the minimum severity to publish.
+ * @returns A promise that resolves to what was published.
+ */
+export const publishToPullRequest = async (job: ScanJob, pullNumber: number, options: PublishOptions): Promise<PublishResult> => {
+  if (!options.token) {
+    throw new Error('Publishing needs a GitHub token with write access to pull requests. Please add one in the Settings tab.');
+  }
+  const { owner, repo } = job;
+  const changes = await fetchChangedFiles({ kind: 'pull', owner, repo, pullNumber }, options);
+  if (changes.sha !== job.commitSha) {
+    throw new Error(`Pull request #${pullNumber} is at commit ${changes.sha.slice(0, 7)}, but this scan reviewed ${job.commitSha.slice(0, 7)}. Scan the pull request again before publishing, so comments land on the right lines.`);
+  }
+  const visibleLinesByPath = new Map(changes.files
+    .filter(file => file.patch)
+    .map(file => [file.path, getVisibleLines(parsePatch(file.patch!))]));
+
+  const published = new Set<string>();
+  (await fetchPullRequestCommentBodies(owner, repo, pullNumber, options)).forEach(body => {
+    for (const match of body.matchAll(MARKER_REGEX)) published.add(match[1]);
+  });
+
+  const comments: PullRequestReviewComment[] = [];
+  const summaryFindings: SummaryFinding[] = [];
+  let duplicates = 0;
+  const reviews = [...job.reviews].sort((a, b) => a.path.localeCompare(b.path));
+  for (const review of reviews) {
+    for (const finding of sortFindings(filterBySeverity(review.findings, options.minSeverity || 'info'))) {
+      const key = await findingKey(review.path, finding);
+      if (published.has(key)) {
+        duplicates++;
+        continue;
+      }
+      const position = placeFinding(finding, visibleLinesByPath.get(review.path));
+      if (position) {
+        comments.push({ path: review.path, ...position, body: formatComment(review.path, finding, position, key) });
+      } else {
+        summaryFindings.push({ path: review.path, finding, key });
+      }
+    }
+  }
+
+  const includeSummary = !published.has(`summary-${job.id}`);
+  if (!includeSummary && comments.length === 0 && summaryFindings.length === 0) {
+    return { reviewUrl: null, inline: 0, inSummary: 0, duplicates };
+  }
+  const reviewUrl = await createPullRequestReview(owner, repo, pullNumber, {
+    commitSha: job.commitSha,
+    // A marker unique to this publish, so a review whose request failed after it was created is found, not posted twice.
+    body: `${formatSummary(job, includeSummary, summaryFindings)}\n\n${marker(`review-${crypto.randomUUID()}`)}`,
+    comments,
+  }, options);
+  return { reviewUrl, inline: comments.length, inSummary: summaryFindings.length, duplicates };
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { loadRepoConfig, parseRepoConfig } from './repoConfig';
+
+describe('parseRepoConfig', () => {
+  it('reads JSON', () => {
+    expect(parseRepoConfig('.codereview.json', '{"exclude":["fixtures/"],"maxFileSizeKb":100,"other":1}'))
+      .toEqual({ exclude: ['fixtures/'], maxFileSizeKb: 100 });
+  });
+
+  it('reads YAML block and flow lists, scalars and comments', () => {
+    const yaml = [
+      '# Review settings',
+      'include:',
+      '  - src/',
+      "  - 'lib/*.ts'",
+      'exclude: [fixtures/, "*.snap"]',
+      'maxFileSizeKb: 50 # KB',
+      'skipGenerated: false',
+    ].join('\n');
+    expect(parseRepoConfig('.codereview.yml', yaml)).toEqual({
+      include: ['src/', 'lib/*.ts'],
+      exclude: ['fixtures/', '*.snap'],
+      maxFileSizeKb: 50,
+      skipGenerated: false,
+    });
+  });
+
+  it('keeps a # inside quotes or a word in YAML', () => {
+    const yaml = [
+      'exclude:',
+      '  - "src/ #tmp" # scratch files',
+      "  - 'docs/#drafts/'",
+      '  - notes#1.md',
+    ].join('\n');
+    expect(parseRepoConfig('.codereview.yml', yaml)).toEqual({ exclude: ['src/ #tmp', 'docs/#drafts/', 'notes#1.md'] });
+  });
+
+  it('rejects invalid files and settings with the file name in the message', () => {
+    expect(() => parseRepoConfig('.codereview.json', '{')).toThrow('Could not parse .codereview.json');
+    expect(() => parseRepoConfig('.codereview.json', '[]')).toThrow('.codereview.json must contain an object.');
+    expect(() => parseRepoConfig('.codereview.yml', '  - orphan')).toThrow('Unexpected list item on line 1.');
+    expect(() => parseRepoConfig('.codereview.json', '{"exclude":"dist/"}')).toThrow('"exclude" must be a list of glob patterns.');
+    expect(() => parseRepoConfig('.codereview.json', '{"maxFileSizeKb":-1}')).toThrow('must be a non-negative number');
+    expect(() => parseRepoConfig('.codereview.yaml', 'skipGenerated: maybe')).toThrow('must be true or false');
+  });
+});
+
+describe('loadRepoConfig', () => {
+  it('uses the first config file that exists', async () => {
+    const files: Record<string, string> = { '.codereview.yml': 'exclude: [a/]', '.codereview.yaml': 'exclude: [b/]' };
+    const read: string[] = [];
+    const config = await loadRepoConfig(async path => {
+      read.push(path);
+      return files[path] ?? null;
+    });
+    expect(config).toEqual({ path: '.codereview.yml', config: { exclude: ['a/'] } });
+    expect(read).toEqual(['.codereview.json', '.codereview.yml']);
+  });
+
+  it('only reads files that are known to exist', async () => {
+    const read: string[] = [];
+    const config = await loadRepoConfig(async path => {
+      read.push(path);
+      return null;
+    }, ['src/app.ts', '.codereview.yaml']);
+    expect(config).toBeNull();
+    expect(read).toEqual(['.codereview.yaml']);
+  });
+});
@@ -0,0 +1,135 @@
+// Reads the optional per-repository review config file (`.codereview.json`, `.codereview.yml` or `.codereview.yaml`).
+import { FileFilterRules } from '../utils/fileFilter';
+
+export const REPO_CONFIG_FILES = ['.codereview.json', '.codereview.yml', '.codereview.yaml'];
+
+export type RepoConfig = Partial<FileFilterRules>;
+
+/**
+ * Removes a `#` comment from a line of YAML. As in YAML, a `#` only starts a comment at the start of the line or
+ * after whitespace, and never inside a quoted string, so `"src/ #tmp"` and `a#b` are kept.
+ * @param line The line.
+ * @returns The line without its comment.
+ */
+const stripComment = (line: string): string => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(line[i - 1]))) {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+/**
+ * Parses the small subset of YAML a config file needs: top-level `key: value` pairs,
+ * block lists (`- item`) and flow lists (`[a, b]`), with `#` comments.
+ * @param text The YAML text.
+ * @returns The parsed top-level mapping.
+ */
+const parseSimpleYaml = (text: string): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  let currentList: unknown[] | null = null;
+
+  const parseScalar = (raw: string): unknown => {
+    const value = raw.trim();
+    if (/^(['"]).*\1$/.test(value)) return value.slice(1, -1);
+    if (value === 'true' || value === 'false') return value === 'true';
+    if (value !== '' && !Number.isNaN(Number(value))) return Number(value);
+    return value;
+  };
+
+  text.split('\n').forEach((rawLine, index) => {
+    const line = stripComment(rawLine).trimEnd();
+    if (!line.trim()) return;
+
+    const listItem = line.match(/^\s*-\s+(.*)$/);
+    if (listItem) {
+      if (!currentList) throw new Error(`Unexpected list item on line ${index + 1}.`);
+      currentList.push(parseScalar(listItem[1]));
+      return;
+    }
+
+    const pair = line.match(/^([A-Za-z0-9_-]+):\s*(.*)$/);
+    if (!pair) throw new Error(`Could not parse line ${index + 1}.`);
+    const [, key, value] = pair;
+    if (value === '') {
+      currentList = [];
+      result[key] = currentList;
+    } else if (value.startsWith('[') && value.endsWith(']')) {
+      currentList = null;
+      result[key] = value.slice(1, -1).split(',').map(item => parseScalar(item)).filter(item => item !== '');
+    } else {
+      currentList = null;
+      result[key] = parseScalar(value);
+    }
+  });
+  return result;
+};
+
+const toStringList = (value: unknown, key: string): string[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`"${key}" must be a list of glob patterns.`);
+  }
+  return value;
+};
+
+/**
+ * Parses and validates a repository config file.
+ * @param path The config file's path, used to pick JSON or YAML.
+ * @param text The file content.
+ * @returns The rules it defines. Unknown keys are ignored.
+ */
+export const parseRepoConfig = (path: string, text: string): RepoConfig => {
+  let data: Record<string, unknown>;
+  try {
+    data = path.endsWith('.json') ? JSON.parse(text) : parseSimpleYaml(text);
+  } catch (e: any) {
+    throw new Error(`Could not parse ${path}: ${e.message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${path} must contain an object.`);
+  }
+
+  const config: RepoConfig = {};
+  const include = toStringList(data.include, 'include');
+  const exclude = toStringList(data.exclude, 'exclude');
+  if (include) config.include = include;
+  if (exclude) config.exclude = exclude;
+  if (data.maxFileSizeKb !== undefined) {
+    if (typeof data.maxFileSizeKb !== 'number' || data.maxFileSizeKb < 0) {
+      throw new Error(`"maxFileSizeKb" in ${path} must be a non-negative number.`);
+    }
+    config.maxFileSizeKb = data.maxFileSizeKb;
+  }
+  if (data.skipGenerated !== undefined) {
+    if (typeof data.skipGenerated !== 'boolean') {
+      throw new Error(`"skipGenerated" in ${path} must be true or false.`);
+    }
+    config.skipGenerated = data.skipGenerated;
+  }
+  return config;
+};
+
+/**
+ * Loads the repository config, if the repository has one.
+ * @param readFile Reads a file at the scanned ref, resolving to null if it does not exist.
+ * @param knownPaths Every file path in the repository, when known. Saves requests for config files that do not exist.
+ * @returns A promise that resolves to the config and the file it came from, or null if there is none.
+ */
+export const loadRepoConfig = async (readFile: (path: string) => Promise<string | null>, knownPaths?: string[]): Promise<{ path: string; config: RepoConfig } | null> => {
+  const candidates = knownPaths ? REPO_CONFIG_FILES.filter(name => knownPaths.includes(name)) : REPO_CONFIG_FILES;
+  for (const path of candidates) {
+    const text = await readFile(path);
+    if (text !== null) {
+      return { path, config: parseRepoConfig(path, text) };
+    }
+  }
+  return null;
+};
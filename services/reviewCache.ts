@@ -0,0 +1,70 @@
+// Caches review results in IndexedDB so unchanged files are not sent to the model again.
+import { ReviewResult } from '../types';
+import { sha256Hex } from '../utils/hash';
+import { STORES, runStoreRequest } from './db';
+import { LlmProvider } from './providers';
+import { PROMPT_VERSION } from './reviewService';
+
+interface ReviewCacheEntry {
+  id: string;
+  result: ReviewResult;
+  createdAt: number;
+}
+
+/**
+ * Everything that determines a review's output: the provider and its model settings,
+ * the file's git blob SHA, its language, and any per-review configuration such as the diff it is reviewed against.
+ */
+export interface ReviewCacheKeyParts {
+  provider: LlmProvider;
+  blobSha: string;
+  language: string;
+  config?: Record<string, unknown>;
+}
+
+/**
+ * Builds the cache key for a review. Changing the model, prompt version or configuration gives a new key.
+ * @param parts The provider, blob SHA, language and configuration.
+ * @returns A promise that resolves to the key.
+ */
+export const buildReviewCacheKey = async ({ provider, blobSha, language, config = {} }: ReviewCacheKeyParts): Promise<string> => {
+  const configHash = await sha256Hex(JSON.stringify({ ...provider.generationConfig, ...config }));
+  return [blobSha, language, `${provider.id}/${provider.model}`, `v${PROMPT_VERSION}`, configHash].join(':');
+};
+
+/**
+ * Looks up a cached review.
+ * @param key A key from `buildReviewCacheKey`.
+ * @returns A promise that resolves to the cached review, or null on a miss.
+ */
+export const getCachedReview = async (key: string): Promise<ReviewResult | null> => {
+  const entry = await runStoreRequest<ReviewCacheEntry | undefined>(STORES.reviewCache, 'readonly', store => store.get(key));
+  return entry ? entry.result : null;
+};
+
+/**
+ * Stores a review in the cache.
+ * @param key A key from `buildReviewCacheKey`.
+ * @param result The review to store.
+ */
+export const putCachedReview = async (key: string, result: ReviewResult): Promise<void> => {
+  const entry: ReviewCacheEntry = { id: key, result, createdAt: Date.now() };
+  await runStoreRequest(STORES.reviewCache, 'readwrite', store => store.put(entry));
+};
+
+/**
+ * Reports how many reviews are cached and roughly how much space they take.
+ * @returns A promise that resolves to the entry count and approximate size in bytes.
+ */
+export const getReviewCacheStats = async (): Promise<{ entries: number; bytes: number }> => {
+  const entries = await runStoreRequest<ReviewCacheEntry[]>(STORES.reviewCache, 'readonly', store => store.getAll());
+  const bytes = entries.reduce((total, entry) => total + new Blob([JSON.stringify(entry)]).size, 0);
+  return { entries: entries.length, bytes };
+};
+
+/**
+ * Deletes every cached review.
+ */
+export const clearReviewCache = async (): Promise<void> => {
+  await runStoreRequest(STORES.reviewCache, 'readwrite', store => store.clear());
+};
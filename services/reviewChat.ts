@@ -0,0 +1,88 @@
+// Follow-up conversations about a finished review: the reviewed code and the review stay in the conversation as context.
+import { ChatMessage } from '../types';
+import { estimateTokens } from '../utils/chunking';
+import { LlmProvider } from './providers';
+
+// Token budget for the reviewed code in the conversation; longer code is cut off at a line boundary.
+const MAX_CODE_TOKENS = 30000;
+
+// What a conversation is about.
+export interface ReviewChatContext {
+  code: string;
+  language: string;
+  // The file path, if known.
+  filePath?: string;
+  // The review as Markdown, as it was shown.
+  review: string;
+}
+
+export interface ChatOptions {
+  signal?: AbortSignal;
+  // When set, the answer is streamed and this is called with the answer so far as it grows.
+  onProgress?: (partial: string) => void;
+}
+
+/**
+ * Numbers the reviewed code the way the review did, so the model and the user can refer to lines.
+ * @param code The code.
+ * @returns The numbered code, cut off if it is over the token budget.
+ */
+const numberCode = (code: string): string => {
+  const lines = code.split('\n');
+  let tokens = 0;
+  const numbered: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = `${i + 1}: ${lines[i]}`;
+    tokens += estimateTokens(line) + 1;
+    if (tokens > MAX_CODE_TOKENS) {
+      numbered.push(`... (${lines.length - i} more line(s) left out)`);
+      break;
+    }
+    numbered.push(line);
+  }
+  return numbered.join('\n');
+};
+
+/**
+ * Builds the opening turns of a conversation: the review request with the code, and the review as the model's answer.
+ * @param context The reviewed code and the review.
+ * @returns The turns that come before the user's first question.
+ */
+export const buildChatHistory = ({ code, language, filePath, review }: ReviewChatContext): ChatMessage[] => [
+  {
+    role: 'user',
+    text: [
+      `Review the following ${language} code${filePath ? ` from \`${filePath}\`` : ''}. Each line starts with its line number.`,
+      'After the review I will ask follow-up questions about it. Answer them in Markdown, refer to line numbers where it helps,',
+      'and put any corrected code in fenced code blocks. If a finding in your review turns out to be wrong, say so.',
+      '',
+      `\`\`\`${language.toLowerCase()}`,
+      numberCode(code),
+      '```',
+    ].join('\n'),
+  },
+  { role: 'model', text: review },
+];
+
+/**
+ * Asks a follow-up question about a review.
+ * @param provider The model provider to use.
+ * @param context The reviewed code and the review.
+ * @param messages The conversation so far, oldest first, without the opening turns.
+ * @param question The user's question.
+ * @param options Cancellation and streaming options.
+ * @returns A promise that resolves to the answer, in Markdown.
+ */
+export const askAboutReview = async (provider: LlmProvider, context: ReviewChatContext, messages: ChatMessage[], question: string, options: ChatOptions = {}): Promise<string> => {
+  const request = { prompt: question, history: [...buildChatHistory(context), ...messages], signal: options.signal };
+  const { onProgress } = options;
+  if (!onProgress) {
+    return (await provider.generate(request)).text;
+  }
+  let answer = '';
+  const response = await provider.generateStream(request, delta => {
+    answer += delta;
+    onProgress(answer);
+  });
+  return response.text;
+};
@@ -0,0 +1,169 @@
+// Repository-aware context for file reviews: a layout outline, the README and the files a file imports.
+import { estimateTokens } from '../utils/chunking';
+import { detectBinaryContent } from '../utils/fileFilter';
+import { resolveImports } from '../utils/imports';
+
+const STORAGE_KEY = 'review-context-settings';
+// How much of the budget the outline and README may each take; imported files get the rest.
+const OUTLINE_SHARE = 0.2;
+const README_SHARE = 0.2;
+// Imported files are cached while a scan runs, since many files import the same modules.
+const MAX_CACHED_FILES = 200;
+const README_REGEX = /^readme(\.(md|markdown|rst|txt))?$/i;
+
+export interface ReviewContextSettings {
+  // Give each file review the context below.
+  enabled: boolean;
+  // Approximate token budget for the context added to each file review.
+  maxTokens: number;
+  // After all files are reviewed, review the module structure of the whole repository.
+  architecturePass: boolean;
+}
+
+export const DEFAULT_REVIEW_CONTEXT_SETTINGS: ReviewContextSettings = {
+  enabled: true,
+  maxTokens: 4000,
+  architecturePass: false,
+};
+
+// Where a scan's context comes from: the same place as its files.
+export interface ContextSource {
+  // Lists every file path in the repository, not just the ones being reviewed.
+  listPaths: () => Promise<string[]>;
+  // Reads a file, resolving to null if it cannot be read.
+  readFile: (path: string, signal?: AbortSignal) => Promise<string | null>;
+}
+
+// The context for one file, and the repository files it imports.
+export interface FileContext {
+  text: string;
+  imports: string[];
+}
+
+export interface ContextBuilder {
+  // Builds the context for one file within the token budget.
+  buildContext: (path: string, content: string, language: string, signal?: AbortSignal) => Promise<FileContext>;
+  // The repository layout outline, for the architecture pass.
+  getOutline: (maxTokens: number) => Promise<string>;
+  // The README, if the repository has one at its root.
+  getReadme: () => Promise<{ path: string; content: string } | null>;
+}
+
+/**
+ * Loads the context settings from local storage, filling in defaults.
+ * @returns The stored settings.
+ */
+export const loadReviewContextSettings = (): ReviewContextSettings => {
+  try {
+    return { ...DEFAULT_REVIEW_CONTEXT_SETTINGS, ...JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}') };
+  } catch {
+    return DEFAULT_REVIEW_CONTEXT_SETTINGS;
+  }
+};
+
+/**
+ * Saves the context settings to local storage.
+ * @param settings The settings to save.
+ */
+export const saveReviewContextSettings = (settings: ReviewContextSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+/**
+ * Cuts text down to a token budget.
+ * @param text The text.
+ * @param maxTokens The budget.
+ * @returns The text, marked as truncated if it was cut.
+ */
+const truncateToTokens = (text: string, maxTokens: number): string =>
+  estimateTokens(text) <= maxTokens ? text : `${text.slice(0, Math.max(0, maxTokens * 4 - 20))}\n... (truncated)`;
+
+/**
+ * Outlines a repository's layout: each directory with its files, or just the file counts if that is too long.
+ * @param paths Every file path in the repository.
+ * @param maxTokens The token budget.
+ * @returns The outline.
+ */
+export const buildTreeOutline = (paths: string[], maxTokens: number): string => {
+  const directories = new Map<string, string[]>();
+  [...paths].sort().forEach(path => {
+    const slash = path.lastIndexOf('/');
+    const dir = slash === -1 ? '.' : path.slice(0, slash);
+    directories.set(dir, [...(directories.get(dir) || []), path.slice(slash + 1)]);
+  });
+  const detailed = Array.from(directories, ([dir, files]) => `${dir}/: ${files.join(', ')}`).join('\n');
+  if (estimateTokens(detailed) <= maxTokens) return detailed;
+  const counts = Array.from(directories, ([dir, files]) => `${dir}/ (${files.length} files)`).join('\n');
+  return truncateToTokens(counts, maxTokens);
+};
+
+/**
+ * Creates a context builder for a scan. The file list and README are fetched once, on first use.
+ * @param source Where to list and read repository files.
+ * @param maxTokens The token budget for each file's context.
+ * @returns The builder.
+ */
+export const createContextBuilder = (source: ContextSource, maxTokens: number): ContextBuilder => {
+  let pathsPromise: Promise<string[]> | null = null;
+  const fileCache = new Map<string, Promise<string | null>>();
+
+  const getPaths = () => {
+    pathsPromise ??= source.listPaths().catch(e => {
+      // Without a file list there is nothing to resolve imports against, but the review can still go ahead.
+      console.error('Could not list files for review context:', e);
+      pathsPromise = null;
+      return [];
+    });
+    return pathsPromise;
+  };
+
+  const readCached = (path: string, signal?: AbortSignal): Promise<string | null> => {
+    let content = fileCache.get(path);
+    if (!content) {
+      if (fileCache.size >= MAX_CACHED_FILES) fileCache.clear();
+      // Binary files and LFS pointers tell the model nothing, so they are left out like unreadable ones.
+      content = source.readFile(path, signal)
+        .then(text => text !== null && detectBinaryContent(text) ? null : text)
+        .catch(() => null);
+      fileCache.set(path, content);
+    }
+    return content;
+  };
+
+  const getReadme = async () => {
+    const path = (await getPaths()).find(p => README_REGEX.test(p));
+    const content = path ? await readCached(path) : null;
+    return path && content ? { path, content } : null;
+  };
+
+  const getOutline = async (tokens: number) => buildTreeOutline(await getPaths(), tokens);
+
+  const buildContext = async (path: string, content: string, language: string, signal?: AbortSignal): Promise<FileContext> => {
+    const paths = await getPaths();
+    const imports = resolveImports(content, path, language, new Set(paths));
+    const sections: string[] = [];
+    let remaining = maxTokens;
+    const add = (section: string) => {
+      sections.push(section);
+      remaining -= estimateTokens(section);
+    };
+
+    if (paths.length) {
+      add(`### Repository layout\n${await getOutline(Math.floor(maxTokens * OUTLINE_SHARE))}`);
+    }
+    const readme = await getReadme();
+    if (readme && readme.path !== path) {
+      add(`### ${readme.path}\n${truncateToTokens(readme.content, Math.floor(maxTokens * README_SHARE))}`);
+    }
+    // Share what is left between the imported files, in import order.
+    for (let i = 0; i < imports.length && remaining > 0; i++) {
+      const imported = await readCached(imports[i], signal);
+      if (imported === null) continue;
+      const share = Math.floor(remaining / (imports.length - i));
+      add(`### Imported file: ${imports[i]}\n\`\`\`\n${truncateToTokens(imported, share)}\n\`\`\``);
+    }
+    return { text: sections.join('\n\n'), imports };
+  };
+
+  return { buildContext, getOutline, getReadme };
+};
@@ -0,0 +1,223 @@
+// Named review profiles: the prompt template, the finding categories to ask for and the least severe findings to keep.
+import { FINDING_CATEGORIES, FINDING_SEVERITIES, FindingCategory, FindingSeverity } from '../types';
+
+const PROFILES_STORAGE_KEY = 'review-profiles';
+const ACTIVE_PROFILE_STORAGE_KEY = 'active-review-profile';
+const EXPORT_VERSION = 1;
+
+export interface ReviewProfile {
+  id: string;
+  name: string;
+  // The review instructions, with `{{variable}}` placeholders from `TEMPLATE_VARIABLES`.
+  template: string;
+  // The finding categories the model is asked for; findings in other categories are dropped.
+  categories: FindingCategory[];
+  // Findings less severe than this are dropped.
+  minSeverity: FindingSeverity;
+  // In-house rules the code is checked against, filled in for `{{guidelines}}`.
+  guidelines: string;
+}
+
+export const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'language', description: 'The programming language, e.g. TypeScript.' },
+  { name: 'filePath', description: 'The file path, or "a pasted snippet".' },
+  { name: 'categories', description: "The profile's categories, one per line with what each covers." },
+  { name: 'guidelines', description: "The profile's team guidelines under a short heading, or nothing if it has none. Added at the end if the template leaves it out." },
+  { name: 'code', description: 'The code with line numbers, in a fenced block. Added at the end if the template leaves it out.' },
+];
+
+// What each category asks the model to look for.
+const CATEGORY_PROMPTS: Record<FindingCategory, string> = {
+  bugs: 'Logical errors, edge cases not handled, or potential runtime exceptions.',
+  performance: 'Optimizations to improve execution speed or reduce memory consumption.',
+  security: 'Potential security risks (e.g., injection attacks, data exposure).',
+  style: 'Code clarity, naming conventions, and adherence to {{language}} style guides.',
+  refactoring: 'Concrete changes that would improve maintainability and structure.',
+};
+
+export const DEFAULT_PROMPT_TEMPLATE = `As an expert senior software engineer and code reviewer, please provide a thorough review of the following {{language}} code from {{filePath}}.
+
+Your review should be comprehensive and constructive. Report each issue as a separate finding with one of these categories:
+{{categories}}
+
+Give every finding a severity (critical, high, medium, low or info) and the 1-based line range it applies to.
+Be specific in each message. Where the fix is clear, put it in "fix": the lines to replace and their complete
+replacement, with the original indentation, so it can be applied to the file as is.
+Use "summary" for a brief overall assessment of the code.
+
+{{guidelines}}
+
+**IMPORTANT:** If you find no significant issues, bugs, or areas for improvement, return an empty "findings" array.
+
+{{code}}`;
+
+const SECURITY_PROMPT_TEMPLATE = `As an application security engineer, audit the following {{language}} code from {{filePath}} for vulnerabilities.
+
+Look for injection (SQL, command, template, path traversal), broken authentication and authorization, exposure of secrets
+or personal data, unsafe deserialization, weak cryptography, missing input validation and insecure defaults.
+Report each issue as a separate finding with one of these categories:
+{{categories}}
+
+Give every finding a severity (critical, high, medium, low or info) that reflects how exploitable and damaging it is,
+and the 1-based line range it applies to. Explain how the issue could be exploited. Where the fix is clear, put it in
+"fix": the lines to replace and their complete replacement, with the original indentation, so it can be applied as is.
+Use "summary" for a brief overall assessment of the code's security.
+
+{{guidelines}}
+
+**IMPORTANT:** Do not report style or maintainability issues. If you find no security issues, return an empty "findings" array.
+
+{{code}}`;
+
+const FRONTEND_GUIDELINES = `- Accessibility: interactive elements are focusable and keyboard operable, form controls have labels, images have alt text,
+  semantic elements are used before ARIA roles, and ARIA attributes are valid.
+- React: hooks follow the rules of hooks and list every dependency, list items have stable keys, effects clean up
+  subscriptions and timers, state is not mutated, and components do not re-render needlessly.`;
+
+export const BUILT_IN_PROFILES: ReviewProfile[] = [
+  { id: 'default', name: 'General review', template: DEFAULT_PROMPT_TEMPLATE, categories: FINDING_CATEGORIES, minSeverity: 'info', guidelines: '' },
+  { id: 'security', name: 'Security audit', template: SECURITY_PROMPT_TEMPLATE, categories: ['bugs', 'security'], minSeverity: 'low', guidelines: '' },
+  { id: 'frontend', name: 'Frontend (accessibility & React)', template: DEFAULT_PROMPT_TEMPLATE, categories: FINDING_CATEGORIES, minSeverity: 'info', guidelines: FRONTEND_GUIDELINES },
+];
+
+export const DEFAULT_REVIEW_PROFILE = BUILT_IN_PROFILES[0];
+
+export interface PromptVariables {
+  language: string;
+  filePath?: string;
+  // The code to review, already numbered.
+  numberedCode: string;
+}
+
+/**
+ * Fills in a profile's template.
+ * @param profile The review profile.
+ * @param variables The language, file path and numbered code.
+ * @returns The review instructions and code for the prompt.
+ */
+export const renderPromptTemplate = (profile: ReviewProfile, { language, filePath, numberedCode }: PromptVariables): string => {
+  const values: Record<string, string> = {
+    language,
+    filePath: filePath ? `\`${filePath}\`` : 'a pasted snippet',
+    categories: profile.categories.map(category => `- **${category}:** ${CATEGORY_PROMPTS[category].replace('{{language}}', language)}`).join('\n'),
+    guidelines: profile.guidelines.trim() ? `Also check the code against these team guidelines:\n${profile.guidelines.trim()}` : '',
+    code: `Here is the code to review. Each line is prefixed with its line number, which is not part of the code:\n\`\`\`${language.toLowerCase()}\n${numberedCode}\n\`\`\``,
+  };
+  // Guidelines and code are never left out: templates without them get them at the end.
+  const template = ['guidelines', 'code'].reduce((text, name) =>
+    new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(text) ? text : `${text}\n\n{{${name}}}`, profile.template);
+  // Unknown placeholders are left as they are, so a typo shows up in the prompt rather than vanishing.
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => values[name] ?? placeholder);
+};
+
+/**
+ * Validates a profile from storage or an imported file.
+ * @param data The parsed profile.
+ * @param label How to refer to the profile in error messages.
+ * @returns The profile. Missing optional fields get defaults, and a missing id is generated.
+ */
+export const parseReviewProfile = (data: any, label: string): ReviewProfile => {
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`${label} must be an object.`);
+  }
+  if (typeof data.name !== 'string' || !data.name.trim()) {
+    throw new Error(`${label} needs a "name".`);
+  }
+  if (typeof data.template !== 'string' || !data.template.trim()) {
+    throw new Error(`${label} ("${data.name}") needs a "template".`);
+  }
+  const categories = data.categories ?? FINDING_CATEGORIES;
+  if (!Array.isArray(categories) || !categories.length || categories.some(c => !FINDING_CATEGORIES.includes(c))) {
+    throw new Error(`"categories" of "${data.name}" must list one or more of: ${FINDING_CATEGORIES.join(', ')}.`);
+  }
+  const minSeverity = data.minSeverity ?? 'info';
+  if (!FINDING_SEVERITIES.includes(minSeverity)) {
+    throw new Error(`"minSeverity" of "${data.name}" must be one of: ${FINDING_SEVERITIES.join(', ')}.`);
+  }
+  if (data.guidelines !== undefined && typeof data.guidelines !== 'string') {
+    throw new Error(`"guidelines" of "${data.name}" must be text.`);
+  }
+  return {
+    id: typeof data.id === 'string' && data.id ? data.id : crypto.randomUUID(),
+    name: data.name.trim(),
+    template: data.template,
+    // Keep the standard order, whatever order the file lists them in.
+    categories: FINDING_CATEGORIES.filter(category => categories.includes(category)),
+    minSeverity,
+    guidelines: data.guidelines || '',
+  };
+};
+
+/**
+ * Parses profiles exported from the app: an export file, a list of profiles or a single profile.
+ * @param text The JSON text.
+ * @returns The profiles.
+ */
+export const parseReviewProfiles = (text: string): ReviewProfile[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch (e: any) {
+    throw new Error(`The profile file is not valid JSON: ${e.message}`);
+  }
+  const list = Array.isArray(data) ? data : Array.isArray(data?.profiles) ? data.profiles : [data];
+  if (!list.length) {
+    throw new Error('The profile file contains no profiles.');
+  }
+  return list.map((profile: any, i: number) => parseReviewProfile(profile, `Profile ${i + 1}`));
+};
+
+/**
+ * Serialises profiles for sharing.
+ * @param profiles The profiles to export.
+ * @returns The JSON text of the export file.
+ */
+export const exportReviewProfiles = (profiles: ReviewProfile[]): string =>
+  JSON.stringify({ version: EXPORT_VERSION, profiles }, null, 2);
+
+/**
+ * Adds imported profiles to a list. An imported profile replaces the one with the same id.
+ * @param profiles The current profiles.
+ * @param imported The imported profiles.
+ * @returns The merged list.
+ */
+export const mergeReviewProfiles = (profiles: ReviewProfile[], imported: ReviewProfile[]): ReviewProfile[] => {
+  const merged = profiles.map(profile => imported.find(p => p.id === profile.id) || profile);
+  return [...merged, ...imported.filter(p => !profiles.some(profile => profile.id === p.id))];
+};
+
+/**
+ * Loads the saved profiles from local storage, or the built-in ones if none are saved.
+ * @returns The profiles, never empty.
+ */
+export const loadReviewProfiles = (): ReviewProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return saved ? parseReviewProfiles(saved) : BUILT_IN_PROFILES;
+  } catch (e) {
+    console.error('Could not load the review profiles:', e);
+    return BUILT_IN_PROFILES;
+  }
+};
+
+/**
+ * Saves the profiles to local storage.
+ * @param profiles The profiles to save.
+ */
+export const saveReviewProfiles = (profiles: ReviewProfile[]): void => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, exportReviewProfiles(profiles));
+};
+
+/**
+ * Loads the id of the profile chosen for reviews.
+ * @returns The saved id, or the default profile's.
+ */
+export const loadActiveProfileId = (): string => localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY) || DEFAULT_REVIEW_PROFILE.id;
+
+/**
+ * Saves the id of the profile chosen for reviews.
+ * @param id The profile id.
+ */
+export const saveActiveProfileId = (id: string): void => {
+  localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
+};
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROVIDER_SETTINGS } from './providers';
+import { createMockProvider } from './providers/mockProvider';
+import { BUILT_IN_PROFILES, DEFAULT_REVIEW_PROFILE } from './reviewProfiles';
+import { reviewCode } from './reviewService';
+
+// The mock provider reports `eval` as a high security finding, TODO comments as info and `console.log` as low,
+// with a fix that deletes the line.
+const provider = createMockProvider(DEFAULT_PROVIDER_SETTINGS.mock);
+
+const CODE = [
+  'export const run = (input) => {',
+  '  // TODO: validate the input',
+  '  console.log(input);',
+  '  return eval(input);',
+  '};',
+].join('\n');
+
+describe('reviewCode', () => {
+  it('turns the response into findings with fixes and fingerprints', async () => {
+    const result = await reviewCode(provider, CODE, 'JavaScript', 'src/run.js');
+    expect(result.summary).toBe('Mock review of 5 line(s).');
+    expect(result.findings.map(finding => [finding.startLine, finding.category, finding.severity])).toEqual([
+      [2, 'style', 'info'],
+      [3, 'style', 'low'],
+      [4, 'security', 'high'],
+    ]);
+    expect(result.findings[1].fix).toEqual({ startLine: 3, endLine: 3, replacement: '' });
+    result.findings.forEach(finding => expect(finding.fingerprint).toBeTruthy());
+  });
+
+  it('returns the same fingerprint for the same code on another line', async () => {
+    const before = await reviewCode(provider, CODE, 'JavaScript');
+    const after = await reviewCode(provider, `// Runs code.\n${CODE}`, 'JavaScript');
+    expect(after.findings.map(finding => finding.fingerprint)).toEqual(before.findings.map(finding => finding.fingerprint));
+  });
+
+  it('leaves out findings below the profile threshold', async () => {
+    const result = await reviewCode(provider, CODE, 'JavaScript', undefined, { profile: { ...DEFAULT_REVIEW_PROFILE, minSeverity: 'low' } });
+    expect(result.findings.map(finding => finding.severity)).toEqual(['low', 'high']);
+  });
+
+  it('leaves out categories the profile does not review', async () => {
+    const security = BUILT_IN_PROFILES.find(profile => profile.id === 'security')!;
+    const result = await reviewCode(provider, CODE, 'JavaScript', undefined, { profile: security });
+    expect(result.findings.map(finding => finding.category)).toEqual(['security']);
+  });
+
+  it('keeps only findings on the changed lines of a diff', async () => {
+    const diff = '@@ -1,4 +1,5 @@\n export const run = (input) => {\n   // TODO: validate the input\n   console.log(input);\n+  return eval(input);\n };';
+    const result = await reviewCode(provider, CODE, 'JavaScript', 'src/run.js', { diff });
+    expect(result.findings.map(finding => finding.startLine)).toEqual([4]);
+  });
+
+  it('drops suppressed findings', async () => {
+    const code = CODE.replace('return eval(input);', 'return eval(input); // review-ignore: security');
+    const result = await reviewCode(provider, code, 'JavaScript');
+    expect(result.findings.map(finding => finding.startLine)).toEqual([2, 3]);
+  });
+
+  it('reviews large files in chunks without reporting a finding twice', async () => {
+    const code = Array.from({ length: 60 }, (_, i) => i === 30 ? 'eval(code);' : `const value${i} = ${i};`).join('\n');
+    const result = await reviewCode(provider, code, 'JavaScript', 'big.js', { maxChunkTokens: 100 });
+    expect(result.summary).toContain('**Lines 1-');
+    expect(result.findings.map(finding => finding.startLine)).toEqual([31]);
+  });
+
+  it('does not call the model for empty code', async () => {
+    expect(await reviewCode(provider, '  \n', 'JavaScript')).toEqual({ summary: 'Please provide some code to review.', findings: [] });
+  });
+});
@@ -0,0 +1,280 @@
+import { CodeEdit, FINDING_SEVERITIES, FindingCategory, ReviewFinding, ReviewResult } from "../types";
+import { CodeChunk, mergeChunkFindings, splitIntoChunks } from "../utils/chunking";
+import { getChangedLines, isFindingOnChangedLines, parsePatch } from "../utils/diff";
+import { filterBySeverity } from "../utils/findings";
+import { parsePartialJson } from "../utils/partialJson";
+import { isSuppressed, parseSuppressions } from "../utils/suppressions";
+import { fingerprintFinding } from "../utils/triage";
+import { LlmProvider } from "./providers";
+import { DEFAULT_REVIEW_PROFILE, ReviewProfile, renderPromptTemplate } from "./reviewProfiles";
+
+// Reviews are cached by provider, model and this version, so bump it whenever the prompt, the response schema
+// or what is done with the response changes.
+export const PROMPT_VERSION = 7;
+
+// Files larger than this (in estimated tokens) are split into chunks that are reviewed separately.
+const MAX_CHUNK_TOKENS = 8000;
+const CHUNK_OVERLAP_LINES = 20;
+
+export interface ReviewOptions {
+  // Unified diff hunks for the file. When set, the review focuses on the changed lines only.
+  diff?: string;
+  // Context from the rest of the repository (layout, README, imported files), from `createContextBuilder`.
+  context?: string;
+  // The prompt template, categories and severity threshold. Defaults to the general review profile.
+  profile?: ReviewProfile;
+  // Cancels the request, including any pending retry.
+  signal?: AbortSignal;
+  // Overrides the token budget per chunk for large files.
+  maxChunkTokens?: number;
+  // When set, the response is streamed and this is called with the review so far as it grows.
+  onProgress?: (partial: ReviewResult) => void;
+}
+
+/**
+ * Builds the JSON Schema the model must follow, so every review comes back as typed findings.
+ * @param categories The categories the model may use.
+ * @returns The response schema.
+ */
+const buildResponseSchema = (categories: FindingCategory[]) => ({
+  type: 'object',
+  properties: {
+    summary: {
+      type: 'string',
+      description: "A brief assessment of the code's quality, purpose, and adherence to best practices.",
+    },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: categories },
+          severity: { type: 'string', enum: FINDING_SEVERITIES },
+          startLine: { type: 'integer', description: "1-based line where the issue starts." },
+          endLine: { type: 'integer', description: "1-based line where the issue ends (inclusive)." },
+          message: { type: 'string', description: "A specific explanation of the issue, in Markdown." },
+          fix: {
+            type: 'object',
+            description: "Optional fix that can be applied as is: the lines to replace and their replacement.",
+            properties: {
+              startLine: { type: 'integer', description: "1-based first line to replace." },
+              endLine: { type: 'integer', description: "1-based last line to replace (inclusive)." },
+              replacement: {
+                type: 'string',
+                description: "The complete new text for those lines, with the original indentation and without line numbers. Empty to delete them.",
+              },
+            },
+            required: ['startLine', 'endLine', 'replacement'],
+            propertyOrdering: ['startLine', 'endLine', 'replacement'],
+          },
+        },
+        required: ['category', 'severity', 'startLine', 'endLine', 'message'],
+        propertyOrdering: ['category', 'severity', 'startLine', 'endLine', 'message', 'fix'],
+      },
+    },
+  },
+  required: ['summary', 'findings'],
+  propertyOrdering: ['summary', 'findings'],
+});
+
+/**
+ * Validates a fix returned by the model.
+ * @param fix The fix as the model returned it.
+ * @returns The fix, or undefined if it has no valid line range or replacement.
+ */
+const normalizeFix = (fix: any): CodeEdit | undefined => {
+  const startLine = Math.floor(Number(fix?.startLine));
+  const endLine = Math.floor(Number(fix?.endLine));
+  if (!(startLine >= 1) || !(endLine >= startLine) || typeof fix?.replacement !== 'string') return undefined;
+  // The replacement stands for whole lines, so a final line break is not part of it.
+  return { startLine, endLine, replacement: fix.replacement.replace(/\r?\n$/, '') };
+};
+
+/**
+ * Validates and normalises the review data returned by the model.
+ * Findings with an unknown category or severity are dropped rather than guessed, as are findings in categories
+ * the profile did not ask for.
+ * @param data The parsed JSON of the model response.
+ * @param categories The categories the profile asked for.
+ * @returns The review result.
+ */
+const normalizeReview = (data: any, categories: FindingCategory[]): ReviewResult => {
+  const findings: ReviewFinding[] = (Array.isArray(data?.findings) ? data.findings : [])
+    .filter((f: any) => categories.includes(f?.category) && FINDING_SEVERITIES.includes(f?.severity) && typeof f?.message === 'string')
+    .map((f: any) => {
+      const startLine = Math.max(1, Math.floor(Number(f.startLine) || 1));
+      const endLine = Math.max(startLine, Math.floor(Number(f.endLine) || startLine));
+      const finding: ReviewFinding = { category: f.category, severity: f.severity, startLine, endLine, message: f.message.trim() };
+      const fix = normalizeFix(f.fix);
+      if (fix) {
+        finding.fix = fix;
+      }
+      return finding;
+    });
+
+  return { summary: typeof data?.summary === 'string' ? data.summary.trim() : '', findings };
+};
+
+/**
+ * Parses the JSON text returned by the model.
+ * @param text The raw JSON text of the model response.
+ * @param categories The categories the profile asked for.
+ * @returns The parsed review result.
+ */
+const parseReviewResponse = (text: string | undefined, categories: FindingCategory[]): ReviewResult => {
+  let data: any;
+  try {
+    data = JSON.parse(text || '');
+  } catch (e) {
+    throw new Error("The model returned a response that is not valid JSON.");
+  }
+  return normalizeReview(data, categories);
+};
+
+/**
+ * Builds the review prompt for one chunk of a file: the profile's template, followed by notes on what is being
+ * reviewed (a chunk, a diff, repository context) and which findings to leave out.
+ * @param chunk The code to review, with its true line numbers.
+ * @param totalLines The number of lines in the whole file.
+ * @param language The programming language.
+ * @param filePath The file path, if known.
+ * @param profile The review profile.
+ * @param diff The file's diff hunks, when reviewing a change.
+ * @param context Context from the rest of the repository.
+ * @returns The prompt text.
+ */
+const buildReviewPrompt = (chunk: CodeChunk, totalLines: number, language: string, filePath: string | undefined, profile: ReviewProfile, diff?: string, context?: string): string => {
+  const chunkContext = chunk.startLine > 1 || chunk.endLine < totalLines ? `
+    The file is too large to review at once, so this is only lines ${chunk.startLine} to ${chunk.endLine} of ${totalLines}.
+    Code outside this range exists but is not shown; do not report it as missing.
+  ` : '';
+
+  const diffContext = diff ? `
+    This file was changed in a pull request or commit range. Here are the unified diff hunks with surrounding context:
+    \`\`\`diff
+    ${diff}
+    \`\`\`
+    Only report issues in the added or modified lines (those starting with "+" in the diff). Use the surrounding code for context,
+    and give line numbers from the numbered code under review, which is the new version of the file.
+  ` : '';
+
+  const repositoryContext = context ? `
+    Here is context from elsewhere in the repository: its layout, README and the files this code imports.
+    Use it to check how the code uses other modules, e.g. wrong call signatures, missing exports or broken imports.
+    Only report issues in the code under review, never in the context itself.
+    ${context}
+  ` : '';
+
+  const severityContext = profile.minSeverity !== 'info'
+    ? `Only report findings of ${profile.minSeverity} severity or higher (${FINDING_SEVERITIES.slice(0, FINDING_SEVERITIES.indexOf(profile.minSeverity) + 1).join(', ')}).`
+    : '';
+
+  // Number the lines so the model can report accurate line ranges.
+  const numberedCode = chunk.text.split('\n').map((line, i) => `${chunk.startLine + i}: ${line}`).join('\n');
+
+  return `
+    ${renderPromptTemplate(profile, { language, filePath, numberedCode })}
+    ${chunkContext}
+    ${diffContext}
+    ${repositoryContext}
+    ${severityContext}
+  `;
+};
+
+/**
+ * Sends one review prompt to the model and parses the structured response.
+ * @param provider The model provider.
+ * @param prompt The review prompt.
+ * @param categories The categories the profile asked for.
+ * @param signal An optional abort signal.
+ * @param onProgress If set, the response is streamed and this receives the partial review as it arrives.
+ * @returns A promise that resolves to the parsed review.
+ */
+const requestReview = async (provider: LlmProvider, prompt: string, categories: FindingCategory[], signal?: AbortSignal, onProgress?: (partial: ReviewResult) => void): Promise<ReviewResult> => {
+  const request = { prompt, responseSchema: buildResponseSchema(categories), signal };
+  if (!onProgress) {
+    const response = await provider.generate(request);
+    return parseReviewResponse(response.text, categories);
+  }
+  let text = '';
+  const response = await provider.generateStream(request, delta => {
+    text += delta;
+    const partial = parsePartialJson(text);
+    if (partial) {
+      onProgress(normalizeReview(partial, categories));
+    }
+  });
+  return parseReviewResponse(response.text, categories);
+};
+
+/**
+ * Keeps findings inside a chunk, since the model cannot see anything else, and clamps their line ranges to it.
+ * Fixes that reach outside the chunk are dropped, since they would replace code the model has not seen.
+ * @param findings The findings reported for the chunk.
+ * @param chunk The chunk that was reviewed.
+ * @returns The findings within the chunk.
+ */
+const clampToChunk = (findings: ReviewFinding[], chunk: CodeChunk): ReviewFinding[] =>
+  findings
+    .filter(finding => finding.startLine <= chunk.endLine && finding.endLine >= chunk.startLine)
+    .map(({ fix, ...finding }) => ({
+      ...finding,
+      startLine: Math.max(finding.startLine, chunk.startLine),
+      endLine: Math.min(finding.endLine, chunk.endLine),
+      ...(fix && fix.startLine >= chunk.startLine && fix.endLine <= chunk.endLine ? { fix } : {}),
+    }));
+
+/**
+ * Reviews a file (or snippet) with the given model provider.
+ * @param provider The model provider to use.
+ * @param code The code to review.
+ * @param language The programming language.
+ * @param filePath The file path, if known.
+ * @param options Diff, repository context, review profile, cancellation and chunking options.
+ * @returns A promise that resolves to the structured review.
+ */
+export const reviewCode = async (provider: LlmProvider, code: string, language: string, filePath?: string, options: ReviewOptions = {}): Promise<ReviewResult> => {
+  if (!code.trim()) {
+    return { summary: "Please provide some code to review.", findings: [] };
+  }
+  const profile = options.profile || DEFAULT_REVIEW_PROFILE;
+  const lines = code.split('\n');
+  const totalLines = lines.length;
+  const suppressions = parseSuppressions(code);
+  const changedLines = options.diff ? getChangedLines(parsePatch(options.diff)) : null;
+
+  // Large files are reviewed in chunks; chunks without changed lines are skipped when reviewing a diff.
+  const chunks = splitIntoChunks(code, { maxTokens: options.maxChunkTokens ?? MAX_CHUNK_TOKENS, overlapLines: CHUNK_OVERLAP_LINES })
+    .filter(chunk => !changedLines || isFindingOnChangedLines(chunk, changedLines));
+
+  const summaries: string[] = [];
+  const findings: ReviewFinding[] = [];
+  const combine = (extraSummaries: string[], extraFindings: ReviewFinding[]): ReviewResult => {
+    const merged = mergeChunkFindings([...findings, ...extraFindings]);
+    // The model is asked to leave out findings below the profile's threshold, but does not always.
+    const result: ReviewResult = { summary: [...summaries, ...extraSummaries].join('\n\n'), findings: filterBySeverity(merged, profile.minSeverity) };
+    if (changedLines) {
+      // Attach findings to the change: anything outside the changed lines is pre-existing and out of scope.
+      result.findings = result.findings.filter(finding => isFindingOnChangedLines(finding, changedLines));
+    }
+    result.findings = result.findings
+      .filter(finding => !isSuppressed(suppressions, finding))
+      .map(finding => ({ ...finding, fingerprint: fingerprintFinding(lines, finding) }));
+    return result;
+  };
+
+  for (const chunk of chunks) {
+    const labelSummary = (summary: string) => chunks.length > 1 ? `**Lines ${chunk.startLine}-${chunk.endLine}:** ${summary}` : summary;
+    const onChunkProgress = options.onProgress && ((partial: ReviewResult) =>
+      options.onProgress!(combine(partial.summary ? [labelSummary(partial.summary)] : [], clampToChunk(partial.findings, chunk))));
+
+    const prompt = buildReviewPrompt(chunk, totalLines, language, filePath, profile, options.diff, options.context);
+    const chunkResult = await requestReview(provider, prompt, profile.categories, options.signal, onChunkProgress);
+    if (chunkResult.summary) {
+      summaries.push(labelSummary(chunkResult.summary));
+    }
+    findings.push(...clampToChunk(chunkResult.findings, chunk));
+  }
+
+  return combine([], []);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILE_FILTER_RULES } from '../utils/fileFilter';
+import { ReviewFileFn, ScanJob, runScan } from './scanEngine';
+import { UsageTotals } from './usage';
+
+const job: ScanJob = {
+  id: 'job',
+  repoUrl: 'https://github.com/acme/app',
+  owner: 'acme',
+  repo: 'app',
+  scope: 'acme/app',
+  isDiff: false,
+  commitSha: 'abc',
+  totalFiles: 20,
+  files: Array.from({ length: 20 }, (_, i) => ({ path: `src/file${i}.ts` })),
+  rules: DEFAULT_FILE_FILTER_RULES,
+  completed: [],
+  reviews: [],
+  errors: [],
+  skipped: [],
+  fromCache: 0,
+  status: 'running',
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+// Reviews every file for $0.10, reporting the usage to the meter like a metered provider would.
+const createMeteredReviewer = () => {
+  const listeners = new Set<(usage: UsageTotals) => void>();
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const reviewFile: ReviewFileFn = async () => {
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    inFlight--;
+    listeners.forEach(listener => listener({ requests: 1, inputTokens: 1000, outputTokens: 100, costUsd: 0.1 }));
+    return { review: null, fromCache: false };
+  };
+  const meter = {
+    subscribe: (listener: (usage: UsageTotals) => void) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+  return { reviewFile, meter, getMaxInFlight: () => maxInFlight };
+};
+
+const run = (reviewFile: ReviewFileFn, usage: NonNullable<Parameters<typeof runScan>[2]['usage']>, scan = job) =>
+  runScan(scan, reviewFile, { concurrency: 8, signal: new AbortController().signal, onUpdate: () => {}, persist: async () => {}, usage });
+
+describe('runScan', () => {
+  it('reviews every file within the concurrency limit', async () => {
+    const { reviewFile, meter, getMaxInFlight } = createMeteredReviewer();
+    const finished = await run(reviewFile, { meter });
+    expect(finished.status).toBe('completed');
+    expect(finished.completed).toHaveLength(20);
+    expect(finished.usage?.requests).toBe(20);
+    expect(getMaxInFlight()).toBe(8);
+  });
+
+  it('sets aside the estimated cost of files in flight, so concurrent files do not overshoot the budget', async () => {
+    const { reviewFile, meter } = createMeteredReviewer();
+    const finished = await run(reviewFile, { meter, budgetUsd: 0.5, estimateCostUsd: () => 0.1 });
+    expect(finished.status).toBe('stopped');
+    expect(finished.stopReason).toBe('budget');
+    expect(finished.completed).toHaveLength(5);
+    expect(finished.usage?.costUsd).toBeCloseTo(0.5);
+  });
+
+  it('finishes a stopped scan when resumed with a larger budget', async () => {
+    const { reviewFile, meter } = createMeteredReviewer();
+    const stopped = await run(reviewFile, { meter, budgetUsd: 0.5, estimateCostUsd: () => 0.1 });
+    const finished = await run(reviewFile, { meter, budgetUsd: 5, estimateCostUsd: () => 0.1 }, stopped);
+    expect(finished.status).toBe('completed');
+    expect(finished.stopReason).toBeUndefined();
+    expect(new Set(finished.completed).size).toBe(20);
+  });
+});
@@ -0,0 +1,205 @@
+import { ArchitectureReview, FileError, FileReview, FileSkip } from '../types';
+import { FileFilterRules } from '../utils/fileFilter';
+import { ReviewProfile } from './reviewProfiles';
+import { saveScanJob } from './scanStore';
+import { EMPTY_USAGE, UsageMeter, UsageTotals, addUsage } from './usage';
+
+export type ScanStatus = 'running' | 'stopped' | 'completed';
+
+// Where a scan's files come from: a Git host or local files. Missing on older saved scans, which are all from GitHub.
+export type ScanSource = 'remote' | 'local';
+
+// A file queued for review. `sha` is its git blob SHA and `size` its size in bytes, when known;
+// `patch` holds its diff hunks when scanning a pull request or comparison.
+export interface ScanFile {
+  path: string;
+  sha?: string;
+  size?: number;
+  patch?: string;
+}
+
+/**
+ * Everything needed to show, persist and resume a repository scan.
+ * Jobs are saved after every file, so an interrupted scan can pick up at the next unreviewed file.
+ */
+export interface ScanJob {
+  id: string;
+  source?: ScanSource;
+  // The repository URL, or `local:<name>` for a local folder or archive.
+  repoUrl: string;
+  owner: string;
+  repo: string;
+  // Human-readable description of what is being scanned, e.g. "owner/repo pull request #12".
+  scope: string;
+  isDiff: boolean;
+  commitSha: string;
+  // The provider and model that reviewed the files, e.g. "gemini/gemini-2.5-flash". Missing on older saved scans.
+  model?: string;
+  // The directory the scan is limited to, e.g. `packages/app`, when not the whole repository.
+  directory?: string;
+  // Number of files in the tree or diff, before filtering for reviewable files.
+  totalFiles: number;
+  // Whether every file in the tree or diff was listed. False when the host could only list part of a very
+  // large tree, so files are missing from the scan. Missing on older saved scans.
+  listingComplete?: boolean;
+  // The files selected for review, and the rules used to select them.
+  files: ScanFile[];
+  rules: FileFilterRules;
+  // The review profile the files are reviewed with, so a resumed scan keeps using it even if it was edited since.
+  // Missing on older saved scans, which used the general review.
+  profile?: ReviewProfile;
+  // Token budget for the repository context of each file review (0 for none), and whether to finish with an
+  // architecture pass. Missing when both are off.
+  context?: { maxTokens: number; architecturePass: boolean };
+  // Paths that have been reviewed (successfully or not).
+  completed: string[];
+  reviews: FileReview[];
+  errors: FileError[];
+  // Files that were queued but turned out not to be worth reviewing, e.g. generated code.
+  skipped: FileSkip[];
+  // How many completed files were answered from the review cache instead of the model.
+  fromCache: number;
+  // The repository files each reviewed file imports, when reviewed with context.
+  imports?: Record<string, string[]>;
+  architecture?: ArchitectureReview;
+  // The tokens and cost of the model requests so far, over all runs. Missing on older saved scans.
+  usage?: UsageTotals;
+  status: ScanStatus;
+  // Set when the scan stopped by itself because it reached its cost budget, rather than being stopped.
+  stopReason?: 'budget';
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface ScanEngineOptions {
+  // How many files to fetch and review at the same time.
+  concurrency: number;
+  // Stops the scan. In-flight files are cancelled and stay unreviewed, so a resume picks them up again.
+  signal: AbortSignal;
+  // Called with a fresh copy of the job every time a file finishes.
+  onUpdate: (job: ScanJob) => void;
+  // Saves each snapshot of the job so it can be resumed. Defaults to the browser's scan store.
+  persist?: (job: ScanJob) => Promise<void>;
+  // Runs once every file is done, e.g. the architecture pass, and returns changes to the job. Skipped if stopped.
+  finalize?: (job: ScanJob, signal: AbortSignal) => Promise<Partial<ScanJob>>;
+  // Counts the usage of the provider the files are reviewed with. The scan stops once its cost reaches
+  // `budgetUsd`, and can be resumed after raising it. `estimateCostUsd` estimates a file's cost, which is set
+  // aside from the budget while the file is in flight, so files reviewed at the same time do not overshoot it together.
+  usage?: { meter: Pick<UsageMeter, 'subscribe'>; budgetUsd?: number | null; estimateCostUsd?: (file: ScanFile) => number | null };
+}
+
+// The outcome of reviewing one file: the review (null if the file has no issues) and whether it came from the cache.
+// `skipped` is set, with a reason, when the file was not reviewed at all; `imports` when the review used context.
+export interface ReviewFileOutcome {
+  review: FileReview | null;
+  fromCache: boolean;
+  skipped?: string;
+  imports?: string[];
+}
+
+/**
+ * Reviews one file.
+ */
+export type ReviewFileFn = (file: ScanFile, signal: AbortSignal) => Promise<ReviewFileOutcome>;
+
+/**
+ * Runs (or resumes) a scan, reviewing every file not yet completed with a bounded number of concurrent workers.
+ * @param job The scan to run. It is not modified; updated copies are reported through `onUpdate`.
+ * @param reviewFile Fetches and reviews a single file.
+ * @param options Concurrency, cancellation and progress reporting.
+ * @returns A promise that resolves to the final job, with status `completed` or `stopped`.
+ */
+export const runScan = async (job: ScanJob, reviewFile: ReviewFileFn, options: ScanEngineOptions): Promise<ScanJob> => {
+  const { onUpdate, persist = saveScanJob } = options;
+  let current: ScanJob = { ...job, fromCache: job.fromCache || 0, skipped: job.skipped || [], status: 'running', stopReason: undefined, updatedAt: Date.now() };
+  const completed = new Set(current.completed);
+  const queue = current.files.filter(file => !completed.has(file.path));
+
+  // Persist sequentially so an older snapshot never overwrites a newer one.
+  let saving: Promise<void> = Promise.resolve();
+  const update = (changes: Partial<ScanJob>) => {
+    current = { ...current, ...changes, updatedAt: Date.now() };
+    const snapshot = current;
+    saving = saving.then(() => persist(snapshot)).catch(e => console.error('Could not save scan state:', e));
+    onUpdate(snapshot);
+  };
+  update({});
+
+  // The workers stop when the caller stops the scan, or when the budget runs out.
+  const controller = new AbortController();
+  const signal = controller.signal;
+  const stop = () => controller.abort(options.signal.reason);
+  if (options.signal.aborted) stop(); else options.signal.addEventListener('abort', stop);
+  const budgetUsd = options.usage?.budgetUsd;
+  const checkBudget = () => {
+    const cost = current.usage?.costUsd;
+    if (budgetUsd && cost != null && cost >= budgetUsd && !signal.aborted) {
+      current = { ...current, stopReason: 'budget' };
+      controller.abort();
+    }
+  };
+  // The estimated cost of the files in flight, set aside until their real usage has been counted.
+  let reservedUsd = 0;
+  const estimateCost = (file: ScanFile): number =>
+    budgetUsd && current.usage?.costUsd !== null ? options.usage?.estimateCostUsd?.(file) ?? 0 : 0;
+  const unsubscribe = options.usage?.meter.subscribe(usage => {
+    update({ usage: addUsage(current.usage || EMPTY_USAGE, usage) });
+    checkBudget();
+  });
+  checkBudget();
+
+  const worker = async () => {
+    while (!signal.aborted) {
+      const file = queue.shift();
+      if (!file) return;
+      const estimate = estimateCost(file);
+      if (budgetUsd && estimate > 0 && (current.usage?.costUsd || 0) + reservedUsd + estimate > budgetUsd) {
+        queue.unshift(file);
+        // Files in flight may cost less than estimated, so the last of them to finish decides whether to go on.
+        if (reservedUsd > 0) return;
+        current = { ...current, stopReason: 'budget' };
+        controller.abort();
+        return;
+      }
+      reservedUsd += estimate;
+      try {
+        const { review, fromCache, skipped, imports } = await reviewFile(file, signal);
+        update({
+          ...(imports ? { imports: { ...current.imports, [file.path]: imports } } : {}),
+          completed: [...current.completed, file.path],
+          reviews: review ? [...current.reviews, review] : current.reviews,
+          skipped: skipped ? [...current.skipped, { path: file.path, reason: skipped }] : current.skipped,
+          fromCache: current.fromCache + (fromCache ? 1 : 0),
+        });
+      } catch (e: any) {
+        // A cancelled file is not an error: it stays queued for the next resume.
+        if (signal.aborted) return;
+        update({
+          completed: [...current.completed, file.path],
+          errors: [...current.errors, { path: file.path, error: e.message }],
+        });
+      } finally {
+        reservedUsd -= estimate;
+      }
+    }
+  };
+
+  try {
+    const workerCount = Math.max(1, Math.min(options.concurrency, queue.length));
+    await Promise.all(Array.from({ length: workerCount }, worker));
+
+    if (options.finalize && !signal.aborted) {
+      const changes = await options.finalize(current, signal).catch(e => {
+        if (!signal.aborted) console.error('Could not finish the scan:', e);
+        return {};
+      });
+      update(changes);
+    }
+  } finally {
+    unsubscribe?.();
+    options.signal.removeEventListener('abort', stop);
+  }
+  update({ status: signal.aborted ? 'stopped' : 'completed' });
+  await saving;
+  return current;
+};
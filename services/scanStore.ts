@@ -0,0 +1,37 @@
+// Persists repository scans in IndexedDB so they survive reloads and can be resumed.
+import { STORES, runStoreRequest } from './db';
+import type { ScanJob } from './scanEngine';
+
+/**
+ * Saves (or replaces) a scan.
+ * @param job The scan to save.
+ */
+export const saveScanJob = async (job: ScanJob): Promise<void> => {
+  await runStoreRequest(STORES.scans, 'readwrite', store => store.put(job));
+};
+
+/**
+ * Finds the most recent scan that was interrupted before it completed.
+ * A scan still marked `running` was cut off by a reload or closed tab.
+ * @returns A promise that resolves to the scan, or null if there is nothing to resume.
+ */
+export const loadUnfinishedScanJob = async (): Promise<ScanJob | null> => {
+  const jobs = await runStoreRequest<ScanJob[]>(STORES.scans, 'readonly', store => store.getAll());
+  const unfinished = jobs.filter(job => job.status !== 'completed').sort((a, b) => b.updatedAt - a.updatedAt);
+  return unfinished[0] || null;
+};
+
+/**
+ * Deletes a scan.
+ * @param id The scan id.
+ */
+export const deleteScanJob = async (id: string): Promise<void> => {
+  await runStoreRequest(STORES.scans, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Deletes every saved scan, e.g. before starting a new one.
+ */
+export const clearScanJobs = async (): Promise<void> => {
+  await runStoreRequest(STORES.scans, 'readwrite', store => store.clear());
+};
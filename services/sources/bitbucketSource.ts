@@ -0,0 +1,174 @@
+import { splitMultiFileDiff } from '../../utils/diff';
+import { ScanFile } from '../scanEngine';
+import { fetchWithRetry, splitRefAndPath, toSourceError } from './http';
+import { RepoLocation, RepoTarget, RepositorySource, SourceClientOptions } from './types';
+
+const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
+// Captures workspace, repository slug and, optionally, the kind of page plus the rest of the path.
+const BITBUCKET_REPO_REGEX = /bitbucket\.org\/([^/]+)\/([^/#?]+)(?:\/(src|commits|pull-requests|branches\/compare)\/([^#?]+?))?\/?(?:[#?].*)?$/;
+// Bitbucket's largest page size for source listings.
+const PAGE_SIZE = 100;
+// How deep `/src` listings recurse; deeper directories are not listed.
+const MAX_DEPTH = 100;
+
+interface BitbucketRepository {
+  mainbranch?: { name: string };
+}
+
+interface BitbucketCommit {
+  hash: string;
+}
+
+interface BitbucketSourceEntry {
+  type: 'commit_file' | 'commit_directory';
+  path: string;
+  size?: number;
+}
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketPullRequest {
+  source: { commit: { hash: string } };
+}
+
+/**
+ * Parses a Bitbucket Cloud URL into a repository location.
+ * Supports `/src/<ref>` (optionally followed by a directory), `/commits/<sha>`, `/pull-requests/<id>` and `/branches/compare/<head>%0D<base>`.
+ * @param url The URL.
+ * @returns The location, or null if it is not a Bitbucket URL.
+ */
+export const parseBitbucketLocation = (url: string): RepoLocation | null => {
+  const match = url.trim().match(BITBUCKET_REPO_REGEX);
+  if (!match) return null;
+  const [, owner, rawRepo, kind, rest] = match;
+  const repo = rawRepo.replace(/\.git$/, '');
+
+  let target: RepoTarget = { kind: 'repo' };
+  if (kind === 'pull-requests') {
+    const pullNumber = parseInt(rest, 10);
+    if (Number.isNaN(pullNumber)) return null;
+    target = { kind: 'pull', pullNumber };
+  } else if (kind === 'branches/compare') {
+    // Bitbucket puts the head first, separated from the base by an encoded carriage return.
+    const [head, base] = decodeURIComponent(rest).split('\r');
+    if (!base || !head) return null;
+    target = { kind: 'compare', base, head };
+  } else if (kind) {
+    // `/src/<ref>/<path>` may continue with a directory; it is split from the ref when files are listed.
+    target = { kind: 'repo', ref: decodeURIComponent(rest) };
+  }
+  return { host: 'bitbucket', origin: 'https://bitbucket.org', owner, repo, target };
+};
+
+/**
+ * Creates a source backed by the Bitbucket Cloud API (2.0).
+ * @param location The repository location.
+ * @param options The token, rate limit callback and abort signal. A token of the form `username:app-password`
+ *   is sent with basic authentication; anything else is sent as a bearer (repository or workspace access) token.
+ * @returns The source.
+ */
+export const createBitbucketSource = (location: RepoLocation, options: SourceClientOptions): RepositorySource => {
+  const { owner, repo, target } = location;
+  const repoPath = `${owner}/${repo}`;
+  const apiBase = `${BITBUCKET_API_BASE}/repositories/${encodeURIComponent(owner)}/${encodeURIComponent(repo)}`;
+  const headers: Record<string, string> = {};
+  if (options.token) {
+    headers['Authorization'] = options.token.includes(':') ? `Basic ${btoa(options.token)}` : `Bearer ${options.token}`;
+  }
+
+  const request = async (url: string, description: string, notFoundMessage?: string, signal?: AbortSignal): Promise<Response> => {
+    const res = await fetchWithRetry(url, headers, { ...options, signal: signal || options.signal });
+    if (!res.ok) {
+      throw toSourceError(res, 'Bitbucket', description, notFoundMessage);
+    }
+    return res;
+  };
+
+  const fetchJson = async <T>(path: string, description: string, notFoundMessage?: string): Promise<T> =>
+    (await request(`${apiBase}${path}`, description, notFoundMessage)).json();
+
+  const resolveCommit = async (ref: string): Promise<string> => {
+    const commit = await fetchJson<BitbucketCommit>(
+      `/commit/${encodeURIComponent(ref)}`,
+      'commit info',
+      `Could not find branch, tag or commit "${ref}" in ${repoPath}.`
+    );
+    return commit.hash;
+  };
+
+  const toChangedFiles = (diff: string): ScanFile[] =>
+    splitMultiFileDiff(diff).filter(file => !file.deleted).map(file => ({ path: file.path, patch: file.patch || undefined }));
+
+  const fileUrl = (path: string, ref: string) =>
+    `${apiBase}/src/${encodeURIComponent(ref)}/${path.split('/').map(encodeURIComponent).join('/')}`;
+
+  return {
+    location,
+
+    listFiles: async (ref, directory) => {
+      let resolvedRef = ref || (target.kind === 'repo' ? target.ref : undefined);
+      // A `/src/` URL may name a directory after the ref, and the ref itself may contain slashes.
+      let split: { ref: string; directory: string } | undefined;
+      if (!ref && resolvedRef?.includes('/')) {
+        split = await splitRefAndPath(resolvedRef, candidate => fetchWithRetry(`${apiBase}/commit/${encodeURIComponent(candidate)}`, headers, options), 'Bitbucket', repoPath);
+        resolvedRef = split.ref;
+        directory = directory || split.directory || undefined;
+      }
+      if (!resolvedRef) {
+        const info = await fetchJson<BitbucketRepository>('', 'repository info', options.token
+          ? 'Repository not found. Please check the URL and that your Bitbucket token can access it.'
+          : 'Repository not found. Please check the URL, or add a Bitbucket token in Settings to review private repositories.');
+        if (!info.mainbranch) {
+          throw new Error('This repository has no main branch yet.');
+        }
+        resolvedRef = info.mainbranch.name;
+      }
+      const sha = await resolveCommit(resolvedRef);
+
+      // Bitbucket has no content hashes per file, so these files are never served from the review cache.
+      const files: ScanFile[] = [];
+      const directoryPath = directory ? `${directory.split('/').map(encodeURIComponent).join('/')}/` : '';
+      let next: string | undefined = `${apiBase}/src/${sha}/${directoryPath}?max_depth=${MAX_DEPTH}&pagelen=${PAGE_SIZE}`;
+      while (next) {
+        const page: BitbucketPage<BitbucketSourceEntry> = await (await request(next, 'file tree', `There is no directory "${directory}" in ${repoPath}.`)).json();
+        page.values
+          .filter(entry => entry.type === 'commit_file')
+          .forEach(entry => files.push({ path: entry.path, size: entry.size }));
+        next = page.next;
+      }
+      return split ? { sha, files, ref: split.ref, directory } : { sha, files };
+    },
+
+    listChangedFiles: async () => {
+      if (target.kind === 'repo') {
+        throw new Error('This URL does not point at a pull request or comparison.');
+      }
+      if (target.kind === 'pull') {
+        const notFound = `Pull request #${target.pullNumber} was not found in ${repoPath}.`;
+        const pull = await fetchJson<BitbucketPullRequest>(`/pullrequests/${target.pullNumber}`, 'pull request', notFound);
+        const diff = await (await request(`${apiBase}/pullrequests/${target.pullNumber}/diff`, 'pull request changes', notFound)).text();
+        // The pull request only has the short hash of its head commit.
+        return { sha: await resolveCommit(pull.source.commit.hash), files: toChangedFiles(diff) };
+      }
+      const notFound = `Could not compare "${target.base}" with "${target.head}" in ${repoPath}.`;
+      const sha = await resolveCommit(target.head);
+      const spec = `${encodeURIComponent(target.head)}..${encodeURIComponent(target.base)}`;
+      const diff = await (await request(`${apiBase}/diff/${spec}`, 'comparison', notFound)).text();
+      return { sha, files: toChangedFiles(diff) };
+    },
+
+    getFileContent: async (path, ref, signal) => (await request(fileUrl(path, ref), path, undefined, signal)).text(),
+
+    getOptionalFileContent: async (path, ref) => {
+      const res = await fetchWithRetry(fileUrl(path, ref), headers, options);
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw toSourceError(res, 'Bitbucket', path);
+      }
+      return res.text();
+    },
+  };
+};
@@ -0,0 +1,54 @@
+import { GitHubTarget, fetchChangedFiles, fetchRepoFileTree, getFileContent, getOptionalFileContent, parseGitHubUrl, splitGitHubRefAndPath } from '../githubService';
+import { RepoLocation, RepositorySource, SourceClientOptions } from './types';
+
+/**
+ * Parses a GitHub URL into a repository location.
+ * @param url The URL.
+ * @returns The location, or null if it is not a GitHub URL.
+ */
+export const parseGitHubLocation = (url: string): RepoLocation | null => {
+  const parsed = parseGitHubUrl(url);
+  if (!parsed) return null;
+  const { owner, repo } = parsed;
+  const target = parsed.kind === 'pull' ? { kind: 'pull' as const, pullNumber: parsed.pullNumber }
+    : parsed.kind === 'compare' ? { kind: 'compare' as const, base: parsed.base, head: parsed.head }
+    : { kind: 'repo' as const, ref: parsed.ref };
+  return { host: 'github', origin: 'https://github.com', owner, repo, target };
+};
+
+/**
+ * Creates a source backed by the GitHub API.
+ * @param location The repository location.
+ * @param options The token, rate limit callback and abort signal.
+ * @returns The source.
+ */
+export const createGitHubSource = (location: RepoLocation, options: SourceClientOptions): RepositorySource => {
+  const { owner, repo, target } = location;
+  const repoUrl = `https://github.com/${owner}/${repo}`;
+
+  return {
+    location,
+    listFiles: async (ref, directory) => {
+      // A `/tree/` URL does not say where the ref ends and a path begins, e.g. `/tree/main/src`.
+      if (!ref && target.kind === 'repo' && target.ref?.includes('/')) {
+        const split = await splitGitHubRefAndPath(owner, repo, target.ref, options);
+        const listedDirectory = directory || split.directory || undefined;
+        const listing = await fetchRepoFileTree(repoUrl, split.ref, options, listedDirectory);
+        return { ...listing, ref: split.ref, directory: listedDirectory };
+      }
+      return fetchRepoFileTree(repoUrl, ref || (target.kind === 'repo' ? target.ref : undefined), options, directory);
+    },
+    listChangedFiles: async () => {
+      if (target.kind === 'repo') {
+        throw new Error('This URL does not point at a pull request or comparison.');
+      }
+      const githubTarget: GitHubTarget = target.kind === 'pull'
+        ? { kind: 'pull', owner, repo, pullNumber: target.pullNumber }
+        : { kind: 'compare', owner, repo, base: target.base, head: target.head };
+      const changes = await fetchChangedFiles(githubTarget, options);
+      return { sha: changes.sha, files: changes.files.map(({ path, sha, patch }) => ({ path, sha, patch })), truncated: changes.truncated };
+    },
+    getFileContent: (path, ref, signal) => getFileContent(owner, repo, path, ref, { ...options, signal: signal || options.signal }),
+    getOptionalFileContent: (path, ref) => getOptionalFileContent(owner, repo, path, ref, options),
+  };
+};
@@ -0,0 +1,206 @@
+import { ScanFile } from '../scanEngine';
+import { fetchWithRetry, splitRefAndPath, toSourceError } from './http';
+import { RepoLocation, RepoTarget, RepositorySource, SourceClientOptions } from './types';
+
+const GITLAB_COM_ORIGIN = 'https://gitlab.com';
+// GitLab caps `per_page` at 100.
+const PAGE_SIZE = 100;
+
+interface GitLabProject {
+  default_branch: string;
+}
+
+interface GitLabCommit {
+  id: string;
+}
+
+interface GitLabTreeItem {
+  id: string;
+  path: string;
+  type: 'blob' | 'tree' | 'commit';
+}
+
+interface GitLabDiff {
+  new_path: string;
+  deleted_file: boolean;
+  diff: string;
+}
+
+interface GitLabMergeRequest {
+  sha: string;
+}
+
+interface GitLabComparison {
+  commit: GitLabCommit | null;
+  diffs: GitLabDiff[];
+}
+
+/**
+ * Normalises a configured GitLab instance to its origin, e.g. `gitlab.example.com/` to `https://gitlab.example.com`.
+ * @param host The configured host or base URL.
+ * @returns The origin, or null if it is not a valid URL.
+ */
+const toOrigin = (host: string): string | null => {
+  try {
+    return new URL(/^https?:\/\//.test(host.trim()) ? host.trim() : `https://${host.trim()}`).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses a GitLab URL into a repository location. URLs on gitlab.com or a configured self-hosted instance are
+ * recognised, as is any URL with GitLab's `/-/` path separator (e.g. `/-/tree/main`, `/-/merge_requests/12`).
+ * Supports nested groups, `/-/tree/<ref>` (optionally followed by a directory), `/-/commit/<sha>`, `/-/merge_requests/<iid>` and `/-/compare/<base>...<head>`.
+ * @param url The URL.
+ * @param gitlabHosts Self-hosted GitLab instances.
+ * @returns The location, or null if it is not a GitLab URL.
+ */
+export const parseGitLabLocation = (url: string, gitlabHosts: string[] = []): RepoLocation | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+  const knownOrigins = [GITLAB_COM_ORIGIN, ...gitlabHosts.map(toOrigin)];
+  const path = parsed.pathname.replace(/^\/+|\/+$/g, '');
+  if (!knownOrigins.includes(parsed.origin) && !path.includes('/-/')) return null;
+
+  const [projectPath, rest = ''] = path.split('/-/');
+  const parts = projectPath.split('/').filter(Boolean);
+  if (parts.length < 2) return null;
+  const repo = parts.pop()!.replace(/\.git$/, '');
+  const owner = parts.join('/');
+
+  const [kind, ...restParts] = rest.split('/');
+  const value = decodeURIComponent(restParts.join('/'));
+  let target: RepoTarget = { kind: 'repo' };
+  if (kind === 'merge_requests') {
+    const pullNumber = parseInt(restParts[0], 10);
+    if (Number.isNaN(pullNumber)) return null;
+    target = { kind: 'pull', pullNumber };
+  } else if (kind === 'compare') {
+    const separator = value.includes('...') ? '...' : '..';
+    const [base, head] = value.split(separator);
+    if (!base || !head) return null;
+    target = { kind: 'compare', base, head };
+  } else if ((kind === 'tree' || kind === 'commit') && value) {
+    target = { kind: 'repo', ref: value };
+  }
+  return { host: 'gitlab', origin: parsed.origin, owner, repo, target };
+};
+
+/**
+ * Creates a source backed by the GitLab REST API (v4), on gitlab.com or a self-hosted instance.
+ * @param location The repository location.
+ * @param options The personal access token, rate limit callback and abort signal.
+ * @returns The source.
+ */
+export const createGitLabSource = (location: RepoLocation, options: SourceClientOptions): RepositorySource => {
+  const { owner, repo, target } = location;
+  const projectPath = `${owner}/${repo}`;
+  const apiBase = `${location.origin}/api/v4/projects/${encodeURIComponent(projectPath)}`;
+  const headers: Record<string, string> = options.token ? { 'PRIVATE-TOKEN': options.token } : {};
+
+  const fetchJson = async <T>(path: string, description: string, notFoundMessage?: string): Promise<{ data: T; res: Response }> => {
+    const res = await fetchWithRetry(`${apiBase}${path}`, headers, options);
+    if (!res.ok) {
+      throw toSourceError(res, 'GitLab', description, notFoundMessage);
+    }
+    return { data: await res.json(), res };
+  };
+
+  // Follows GitLab's `X-Next-Page` header through every page of a list.
+  const fetchAllPages = async <T>(path: string, description: string, notFoundMessage?: string): Promise<T[]> => {
+    const items: T[] = [];
+    const separator = path.includes('?') ? '&' : '?';
+    for (let page = '1'; page; ) {
+      const { data, res } = await fetchJson<T[]>(`${path}${separator}per_page=${PAGE_SIZE}&page=${page}`, description, notFoundMessage);
+      items.push(...data);
+      page = res.headers.get('X-Next-Page') || '';
+    }
+    return items;
+  };
+
+  const resolveCommit = async (ref: string): Promise<string> => {
+    const { data } = await fetchJson<GitLabCommit>(
+      `/repository/commits/${encodeURIComponent(ref)}`,
+      'commit info',
+      `Could not find branch, tag or commit "${ref}" in ${projectPath}.`
+    );
+    return data.id;
+  };
+
+  const toChangedFiles = (diffs: GitLabDiff[]): ScanFile[] =>
+    diffs.filter(diff => !diff.deleted_file).map(diff => ({ path: diff.new_path, patch: diff.diff || undefined }));
+
+  const fileUrl = (path: string, ref: string) =>
+    `${apiBase}/repository/files/${encodeURIComponent(path)}/raw?ref=${encodeURIComponent(ref)}`;
+
+  return {
+    location,
+
+    listFiles: async (ref, directory) => {
+      let resolvedRef = ref || (target.kind === 'repo' ? target.ref : undefined);
+      // A `/-/tree/` URL may name a directory after the ref, and the ref itself may contain slashes.
+      let split: { ref: string; directory: string } | undefined;
+      if (!ref && resolvedRef?.includes('/')) {
+        split = await splitRefAndPath(resolvedRef, candidate => fetchWithRetry(`${apiBase}/repository/commits/${encodeURIComponent(candidate)}`, headers, options), 'GitLab', projectPath);
+        resolvedRef = split.ref;
+        directory = directory || split.directory || undefined;
+      }
+      if (!resolvedRef) {
+        const { data } = await fetchJson<GitLabProject>('', 'project info', options.token
+          ? 'Project not found. Please check the URL and that your GitLab token can access it.'
+          : 'Project not found. Please check the URL, or add a GitLab token in Settings to review private projects.');
+        resolvedRef = data.default_branch;
+      }
+      const sha = await resolveCommit(resolvedRef);
+      const tree = await fetchAllPages<GitLabTreeItem>(
+        `/repository/tree?recursive=true&ref=${sha}${directory ? `&path=${encodeURIComponent(directory)}` : ''}`,
+        'file tree',
+        `There is no directory "${directory}" in ${projectPath}.`
+      );
+      // The tree API does not report sizes, so the size limit only applies once a file is read.
+      const files = tree.filter(item => item.type === 'blob').map(item => ({ path: item.path, sha: item.id }));
+      return split ? { sha, files, ref: split.ref, directory } : { sha, files };
+    },
+
+    listChangedFiles: async () => {
+      if (target.kind === 'repo') {
+        throw new Error('This URL does not point at a merge request or comparison.');
+      }
+      if (target.kind === 'pull') {
+        const notFound = `Merge request !${target.pullNumber} was not found in ${projectPath}.`;
+        const { data: mergeRequest } = await fetchJson<GitLabMergeRequest>(`/merge_requests/${target.pullNumber}`, 'merge request', notFound);
+        const diffs = await fetchAllPages<GitLabDiff>(`/merge_requests/${target.pullNumber}/diffs`, 'merge request changes', notFound);
+        return { sha: mergeRequest.sha, files: toChangedFiles(diffs) };
+      }
+      const { data: comparison } = await fetchJson<GitLabComparison>(
+        `/repository/compare?from=${encodeURIComponent(target.base)}&to=${encodeURIComponent(target.head)}`,
+        'comparison',
+        `Could not compare "${target.base}" with "${target.head}" in ${projectPath}.`
+      );
+      const sha = comparison.commit?.id || await resolveCommit(target.head);
+      return { sha, files: toChangedFiles(comparison.diffs) };
+    },
+
+    getFileContent: async (path, ref, signal) => {
+      const res = await fetchWithRetry(fileUrl(path, ref), headers, { ...options, signal: signal || options.signal });
+      if (!res.ok) {
+        throw toSourceError(res, 'GitLab', path);
+      }
+      return res.text();
+    },
+
+    getOptionalFileContent: async (path, ref) => {
+      const res = await fetchWithRetry(fileUrl(path, ref), headers, options);
+      if (res.status === 404) return null;
+      if (!res.ok) {
+        throw toSourceError(res, 'GitLab', path);
+      }
+      return res.text();
+    },
+  };
+};
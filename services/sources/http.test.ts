@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { splitRefAndPath } from './http';
+
+const refs = (...names: string[]) => vi.fn(async (ref: string) => new Response('{}', { status: names.includes(ref) ? 200 : 404 }));
+
+describe('splitRefAndPath', () => {
+  it('takes the longest leading part that names a ref and leaves the rest as the directory', async () => {
+    const fetchCommit = refs('feature', 'feature/login');
+    await expect(splitRefAndPath('feature/login/src/app', fetchCommit, 'GitLab', 'acme/app'))
+      .resolves.toEqual({ ref: 'feature/login', directory: 'src/app' });
+    expect(fetchCommit.mock.calls.map(([ref]) => ref)).toEqual(['feature/login/src/app', 'feature/login/src', 'feature/login']);
+  });
+
+  it('returns an empty directory when the whole path is a ref', async () => {
+    await expect(splitRefAndPath('release/1.0', refs('release/1.0'), 'GitLab', 'acme/app'))
+      .resolves.toEqual({ ref: 'release/1.0', directory: '' });
+  });
+
+  it('fails when no part names a ref', async () => {
+    await expect(splitRefAndPath('nope/src', refs(), 'Bitbucket', 'acme/app'))
+      .rejects.toThrow('Could not find a branch, tag or commit named by "nope/src" in acme/app.');
+  });
+
+  it('stops on errors other than not found', async () => {
+    const fetchCommit = vi.fn(async () => new Response('', { status: 401 }));
+    await expect(splitRefAndPath('main/src', fetchCommit, 'Bitbucket', 'acme/app')).rejects.toThrow('Bitbucket rejected the access token');
+    expect(fetchCommit).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,82 @@
+// Request helpers shared by the GitLab and Bitbucket clients.
+import { backoffDelay, isRetryableStatus, sleep } from '../../utils/retry';
+import { SourceClientOptions } from './types';
+
+// How many times to retry a request that failed with a server error or a rate limit.
+const MAX_RETRIES = 3;
+// Never pause longer than this for a rate limit.
+const MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+
+/**
+ * Fetches a URL, waiting out rate limits (`Retry-After`) and retrying server errors with backoff.
+ * @param url The full API URL.
+ * @param headers The request headers, including authentication.
+ * @param options The rate limit callback and abort signal.
+ * @returns A promise that resolves to the response. Other errors are returned for the caller to handle.
+ */
+export const fetchWithRetry = async (url: string, headers: Record<string, string>, options: SourceClientOptions): Promise<Response> => {
+  for (let attempt = 0; ; attempt++) {
+    const res = await fetch(url, { headers, signal: options.signal });
+    if (!isRetryableStatus(res.status) || attempt >= MAX_RETRIES) {
+      return res;
+    }
+    const retryAfter = Number(res.headers.get('Retry-After'));
+    if (res.status === 429 && retryAfter > 0) {
+      const waitMs = Math.min(retryAfter * 1000, MAX_RATE_LIMIT_WAIT_MS);
+      options.onRateLimit?.(new Date(Date.now() + waitMs));
+      await sleep(waitMs, options.signal);
+    } else {
+      await sleep(backoffDelay(attempt), options.signal);
+    }
+  }
+};
+
+/**
+ * Turns a failed response from a Git host into a readable error.
+ * @param res The failed response.
+ * @param hostName The host's name, e.g. "GitLab".
+ * @param description What was being fetched.
+ * @param notFoundMessage An optional message to use for a 404 response.
+ * @returns The error to throw.
+ */
+export const toSourceError = (res: Response, hostName: string, description: string, notFoundMessage?: string): Error => {
+  if (res.status === 404 && notFoundMessage) {
+    return new Error(notFoundMessage);
+  }
+  if (res.status === 401) {
+    return new Error(`${hostName} rejected the access token. Please check it in the Settings tab.`);
+  }
+  if (res.status === 403) {
+    return new Error(`Access to ${description} was denied by ${hostName}. Check that your token has access to this repository.`);
+  }
+  return new Error(`Could not fetch ${description} from ${hostName} (status: ${res.status}).`);
+};
+
+/**
+ * Splits a ref that may be followed by a path, e.g. `feature/login/src`, into the ref and the directory. Refs can
+ * contain slashes, so the longest leading part that names a branch, tag or commit is the ref.
+ * @param refAndPath The ref, optionally followed by a path.
+ * @param fetchCommit Fetches the commit a candidate ref points at; a 404 means it is not a ref.
+ * @param hostName The host's name, e.g. "GitLab".
+ * @param repoPath The repository, for error messages.
+ * @returns A promise that resolves to the ref and the directory, which is empty when there is only a ref.
+ */
+export const splitRefAndPath = async (
+  refAndPath: string,
+  fetchCommit: (ref: string) => Promise<Response>,
+  hostName: string,
+  repoPath: string
+): Promise<{ ref: string; directory: string }> => {
+  const segments = refAndPath.split('/').filter(Boolean);
+  for (let length = segments.length; length > 0; length--) {
+    const ref = segments.slice(0, length).join('/');
+    const res = await fetchCommit(ref);
+    if (res.ok) {
+      return { ref, directory: segments.slice(length).join('/') };
+    }
+    if (res.status !== 404) {
+      throw toSourceError(res, hostName, 'commit info');
+    }
+  }
+  throw new Error(`Could not find a branch, tag or commit named by "${refAndPath}" in ${repoPath}.`);
+};
@@ -0,0 +1,93 @@
+// Git host registry: URL detection, persisted tokens and construction of repository sources.
+import { createBitbucketSource, parseBitbucketLocation } from './bitbucketSource';
+import { createGitHubSource, parseGitHubLocation } from './githubSource';
+import { createGitLabSource, parseGitLabLocation } from './gitlabSource';
+import { GitHostId, GitHostSettings, RepoLocation, RepositorySource, SourceClientOptions } from './types';
+
+export * from './types';
+
+const STORAGE_KEY = 'git-host-settings';
+// Where the GitHub token was stored before other hosts were supported.
+const LEGACY_GITHUB_TOKEN_KEY = 'github-token';
+
+export const GIT_HOST_LABELS: Record<GitHostId, string> = {
+  github: 'GitHub',
+  gitlab: 'GitLab',
+  bitbucket: 'Bitbucket',
+};
+
+/**
+ * Loads the Git host settings from local storage, filling in the legacy GitHub token.
+ * @returns The stored settings.
+ */
+export const loadGitHostSettings = (): GitHostSettings => {
+  let saved: Partial<GitHostSettings> = {};
+  try {
+    saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    // Fall back to the defaults below.
+  }
+  const tokens = { github: '', gitlab: '', bitbucket: '', ...(saved.tokens || {}) };
+  const legacyToken = localStorage.getItem(LEGACY_GITHUB_TOKEN_KEY);
+  if (legacyToken && !tokens.github) {
+    tokens.github = legacyToken;
+  }
+  return { tokens, gitlabHosts: Array.isArray(saved.gitlabHosts) ? saved.gitlabHosts : [] };
+};
+
+/**
+ * Saves the Git host settings to local storage.
+ * @param settings The settings to save.
+ */
+export const saveGitHostSettings = (settings: GitHostSettings): void => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  localStorage.removeItem(LEGACY_GITHUB_TOKEN_KEY);
+};
+
+/**
+ * Works out which host a repository URL belongs to and what it points at.
+ * @param url The URL typed by the user.
+ * @param gitlabHosts Self-hosted GitLab instances to recognise.
+ * @returns The location, or null if no host recognises the URL.
+ */
+export const parseRepoUrl = (url: string, gitlabHosts: string[] = []): RepoLocation | null =>
+  parseGitHubLocation(url) || parseGitLabLocation(url, gitlabHosts) || parseBitbucketLocation(url);
+
+/**
+ * Creates a source for the host a location belongs to.
+ * @param location The parsed repository URL.
+ * @param options The token for that host, rate limit callback and abort signal.
+ * @returns The source.
+ */
+export const createRepositorySource = (location: RepoLocation, options: SourceClientOptions = {}): RepositorySource => {
+  switch (location.host) {
+    case 'github':
+      return createGitHubSource(location, options);
+    case 'gitlab':
+      return createGitLabSource(location, options);
+    case 'bitbucket':
+      return createBitbucketSource(location, options);
+  }
+};
+
+/**
+ * Describes what a location points at, for scan summaries and reports.
+ * @param location The parsed repository URL.
+ * @param ref The branch, tag or commit for whole-repository scans, if different from the URL's.
+ * @param directory The directory a repository scan is limited to, if any.
+ * @returns E.g. "owner/repo@main", "owner/repo@main:packages/app", "owner/repo pull request #12"
+ * or "group/project merge request !12".
+ */
+export const describeTarget = (location: RepoLocation, ref?: string, directory?: string): string => {
+  const { owner, repo, target } = location;
+  switch (target.kind) {
+    case 'pull':
+      return location.host === 'gitlab'
+        ? `${owner}/${repo} merge request !${target.pullNumber}`
+        : `${owner}/${repo} pull request #${target.pullNumber}`;
+    case 'compare':
+      return `${owner}/${repo} ${target.base}...${target.head}`;
+    case 'repo':
+      return `${owner}/${repo}@${ref || target.ref || 'default branch'}${directory ? `:${directory}` : ''}`;
+  }
+};
@@ -0,0 +1,67 @@
+// The interface every Git host implements, so repository scans do not depend on GitHub.
+import { ScanFile } from '../scanEngine';
+
+export type GitHostId = 'github' | 'gitlab' | 'bitbucket';
+
+/**
+ * What a repository URL points at: the repository (optionally at a branch, tag or commit),
+ * a pull/merge request, or a comparison between two refs.
+ */
+export type RepoTarget =
+  | { kind: 'repo'; ref?: string }
+  | { kind: 'pull'; pullNumber: number }
+  | { kind: 'compare'; base: string; head: string };
+
+// A parsed repository URL on any host.
+export interface RepoLocation {
+  host: GitHostId;
+  // The host's web origin, e.g. `https://gitlab.example.com`.
+  origin: string;
+  // The user, organisation, workspace or (nested) group that owns the repository.
+  owner: string;
+  repo: string;
+  target: RepoTarget;
+}
+
+// Stored settings for Git hosts: an access token per host and the self-hosted GitLab instances to recognise.
+export interface GitHostSettings {
+  tokens: Record<GitHostId, string>;
+  gitlabHosts: string[];
+}
+
+/**
+ * Options shared by every request to a Git host.
+ * `token` authenticates the request, `onRateLimit` is called before the client pauses for a rate limit,
+ * and `signal` cancels in-flight requests and any pause.
+ */
+export interface SourceClientOptions {
+  token?: string | null;
+  onRateLimit?: (resetAt: Date) => void;
+  signal?: AbortSignal;
+}
+
+// A listing of files at a single commit.
+export interface SourceListing {
+  // The commit the files were listed at; file contents should be read at this commit.
+  sha: string;
+  files: ScanFile[];
+  // Set when the host could not list every file, e.g. a tree too large to walk. Such listings are partial.
+  truncated?: boolean;
+  // Set when the URL points at a directory, e.g. `https://github.com/owner/repo/tree/main/src`: the ref and the
+  // directory it was split into. Only that directory is listed.
+  ref?: string;
+  directory?: string;
+}
+
+export interface RepositorySource {
+  readonly location: RepoLocation;
+  // Lists every file in the repository at a ref (defaulting to the ref in the URL, then the default branch),
+  // or just the files under `directory`, e.g. `packages/app`. Paths are always from the repository root.
+  listFiles(ref?: string, directory?: string): Promise<SourceListing>;
+  // Lists the files changed by the pull request or comparison in the URL, with their diff hunks.
+  // Removed files are left out since there is nothing left to review.
+  listChangedFiles(): Promise<SourceListing>;
+  getFileContent(path: string, ref: string, signal?: AbortSignal): Promise<string>;
+  // Like `getFileContent`, but resolves to null when the file does not exist.
+  getOptionalFileContent(path: string, ref: string): Promise<string | null>;
+}
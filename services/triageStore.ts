@@ -0,0 +1,29 @@
+// Persists the triage of scan findings in IndexedDB, so dismissed findings stay hidden in later scans.
+import { TriageRecord } from '../utils/triage';
+import { STORES, runStoreRequest } from './db';
+
+/**
+ * Lists the triage records of a repository.
+ * @param repoKey The repository, from `getScanRepoKey`.
+ * @returns A promise that resolves to the records.
+ */
+export const listTriageRecords = async (repoKey: string): Promise<TriageRecord[]> => {
+  const records = await runStoreRequest<TriageRecord[]>(STORES.triage, 'readonly', store => store.getAll());
+  return records.filter(record => record.repoKey === repoKey);
+};
+
+/**
+ * Saves (or replaces) the triage of a finding.
+ * @param record The record.
+ */
+export const saveTriageRecord = async (record: TriageRecord): Promise<void> => {
+  await runStoreRequest(STORES.triage, 'readwrite', store => store.put(record));
+};
+
+/**
+ * Deletes the triage of a finding, making it open again.
+ * @param id The record id.
+ */
+export const deleteTriageRecord = async (id: string): Promise<void> => {
+  await runStoreRequest(STORES.triage, 'readwrite', store => store.delete(id));
+};
@@ -0,0 +1,236 @@
+// Token usage and cost: prices per model, meters that count what requests use, estimates before a scan starts
+// and running monthly totals.
+import { estimateTokens } from '../utils/chunking';
+import { GenerateRequest, GenerateResponse, LlmProvider, ProviderId, ProviderSettings, TokenUsage } from './providers';
+import { ReviewProfile, renderPromptTemplate } from './reviewProfiles';
+import type { ScanFile } from './scanEngine';
+
+const MONTHLY_STORAGE_KEY = 'monthly-usage';
+const BUDGET_STORAGE_KEY = 'scan-budget-usd';
+
+// USD per million tokens.
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices of common models (standard tier, prompts up to 200k tokens). Models are matched by the longest prefix.
+const MODEL_PRICES: Record<string, ModelPrice> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+};
+
+// Rough figures for estimates. The notes added to each prompt besides the template:
+const PROMPT_NOTES_TOKENS = 150;
+// Line numbers add about a tenth to the code.
+const LINE_NUMBER_OVERHEAD = 1.1;
+const OUTPUT_TOKENS_PER_REQUEST = 600;
+// Files larger than this are reviewed in chunks, one request each (see `reviewCode`).
+const CHUNK_TOKENS = 8000;
+// Assumed for files whose size is not known.
+const DEFAULT_FILE_BYTES = 4096;
+const ARCHITECTURE_PASS_USAGE: TokenUsage = { inputTokens: 30000, outputTokens: 2000 };
+
+// Usage added up over any number of requests.
+export interface UsageTotals extends TokenUsage {
+  requests: number;
+  // Null if the price of a model that was used is not known.
+  costUsd: number | null;
+}
+
+export const EMPTY_USAGE: UsageTotals = { requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+/**
+ * Looks up the price of a model: the provider's own prices if set, else the built-in list.
+ * @param id The provider.
+ * @param settings The provider settings, with the model and any price overrides.
+ * @returns The price, or null if it is not known.
+ */
+export const getModelPrice = (id: ProviderId, settings: ProviderSettings): ModelPrice | null => {
+  if (id === 'mock') return { input: 0, output: 0 };
+  const known = Object.keys(MODEL_PRICES)
+    .filter(prefix => settings.model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  const listed = known ? MODEL_PRICES[known] : null;
+  const input = settings.inputPrice ?? listed?.input;
+  const output = settings.outputPrice ?? listed?.output;
+  return input !== undefined && output !== undefined ? { input, output } : null;
+};
+
+/**
+ * Works out what token usage costs.
+ * @param usage The token usage.
+ * @param price The model's price, if known.
+ * @returns The cost in USD, or null if the price is not known.
+ */
+export const getUsageCost = (usage: TokenUsage, price: ModelPrice | null): number | null =>
+  price ? (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000 : null;
+
+/**
+ * Adds up usage.
+ * @param a Usage so far.
+ * @param b More usage.
+ * @returns The sum. The cost is null if either cost is.
+ */
+export const addUsage = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+  requests: a.requests + b.requests,
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  costUsd: a.costUsd === null || b.costUsd === null ? null : a.costUsd + b.costUsd,
+});
+
+// Counts what a provider's requests use.
+export interface UsageMeter {
+  // The provider to make the requests with.
+  provider: LlmProvider;
+  // Calls the listener with the usage of each response. Returns a function that removes the listener.
+  subscribe: (listener: (usage: UsageTotals) => void) => () => void;
+}
+
+/**
+ * Wraps a provider so that the usage of every response is reported. Endpoints that do not report usage
+ * are estimated from the length of the text.
+ * @param provider The provider.
+ * @param price The model's price, if known.
+ * @returns The meter.
+ */
+export const createUsageMeter = (provider: LlmProvider, price: ModelPrice | null): UsageMeter => {
+  const listeners = new Set<(usage: UsageTotals) => void>();
+  const report = (request: GenerateRequest, response: GenerateResponse) => {
+    const tokens = response.usage || {
+      inputTokens: estimateTokens([...(request.history || []).map(turn => turn.text), request.prompt].join('\n')),
+      outputTokens: estimateTokens(response.text),
+    };
+    const usage: UsageTotals = { requests: 1, ...tokens, costUsd: getUsageCost(tokens, price) };
+    listeners.forEach(listener => listener(usage));
+    return response;
+  };
+  return {
+    provider: {
+      id: provider.id,
+      model: provider.model,
+      generationConfig: provider.generationConfig,
+      generate: async request => report(request, await provider.generate(request)),
+      generateStream: async (request, onText) => report(request, await provider.generateStream(request, onText)),
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+export interface ScanEstimateOptions {
+  profile: ReviewProfile;
+  // Token budget for the repository context of each file, or 0 for none.
+  contextTokens: number;
+  architecturePass: boolean;
+  // The model's output limit per request.
+  maxOutputTokens: number;
+  price: ModelPrice | null;
+}
+
+/**
+ * Estimates the token usage of a scan from the sizes of its files, assuming nothing comes from the review cache.
+ * @param files The files to review.
+ * @param options The review profile, context settings, output limit and price.
+ * @returns The estimated usage and cost.
+ */
+export const estimateScanUsage = (files: ScanFile[], options: ScanEstimateOptions): UsageTotals => {
+  const promptTokens = estimateTokens(renderPromptTemplate(options.profile, { language: '', filePath: '', numberedCode: '' })) + PROMPT_NOTES_TOKENS;
+  const outputPerRequest = options.maxOutputTokens > 0 ? Math.min(OUTPUT_TOKENS_PER_REQUEST, options.maxOutputTokens) : OUTPUT_TOKENS_PER_REQUEST;
+  const totals = files.reduce((sum, file) => {
+    const codeTokens = Math.ceil((file.size ?? DEFAULT_FILE_BYTES) / 4 * LINE_NUMBER_OVERHEAD);
+    const requests = Math.max(1, Math.ceil(codeTokens / CHUNK_TOKENS));
+    return {
+      requests: sum.requests + requests,
+      inputTokens: sum.inputTokens + codeTokens + requests * (promptTokens + options.contextTokens),
+      outputTokens: sum.outputTokens + requests * outputPerRequest,
+    };
+  }, { requests: 0, inputTokens: 0, outputTokens: 0 });
+  if (options.architecturePass) {
+    totals.requests += 1;
+    totals.inputTokens += ARCHITECTURE_PASS_USAGE.inputTokens;
+    totals.outputTokens += ARCHITECTURE_PASS_USAGE.outputTokens;
+  }
+  return { ...totals, costUsd: getUsageCost(totals, options.price) };
+};
+
+/**
+ * Formats a cost for display.
+ * @param costUsd The cost in USD, or null if unknown.
+ * @returns E.g. "$0.42", "<$0.01" or "unknown cost".
+ */
+export const formatCost = (costUsd: number | null): string => {
+  if (costUsd === null) return 'unknown cost';
+  if (costUsd > 0 && costUsd < 0.01) return '<$0.01';
+  return `$${costUsd.toFixed(2)}`;
+};
+
+/**
+ * Formats a token count for display.
+ * @param tokens The count.
+ * @returns E.g. "950", "12.3k" or "1.2M".
+ */
+export const formatTokens = (tokens: number): string =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+/**
+ * Loads the usage totals of each month from local storage.
+ * @returns The totals by month, e.g. "2025-06".
+ */
+export const loadMonthlyUsage = (): Record<string, UsageTotals> => {
+  try {
+    return JSON.parse(localStorage.getItem(MONTHLY_STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+/**
+ * Adds usage to the current month's totals in local storage.
+ * @param usage The usage to add.
+ * @param date When it happened.
+ */
+export const recordMonthlyUsage = (usage: UsageTotals, date = new Date()): void => {
+  const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  const totals = loadMonthlyUsage();
+  totals[month] = addUsage(totals[month] || EMPTY_USAGE, usage);
+  localStorage.setItem(MONTHLY_STORAGE_KEY, JSON.stringify(totals));
+};
+
+/**
+ * Deletes the monthly totals.
+ */
+export const clearMonthlyUsage = (): void => {
+  localStorage.removeItem(MONTHLY_STORAGE_KEY);
+};
+
+/**
+ * Loads the cost cap for a single scan.
+ * @returns The cap in USD, or null for none.
+ */
+export const loadScanBudget = (): number | null => {
+  const saved = Number(localStorage.getItem(BUDGET_STORAGE_KEY));
+  return saved > 0 ? saved : null;
+};
+
+/**
+ * Saves the cost cap for a single scan.
+ * @param budgetUsd The cap in USD, or null for none.
+ */
+export const saveScanBudget = (budgetUsd: number | null): void => {
+  if (budgetUsd) {
+    localStorage.setItem(BUDGET_STORAGE_KEY, String(budgetUsd));
+  } else {
+    localStorage.removeItem(BUDGET_STORAGE_KEY);
+  }
+};
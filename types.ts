@@ -0,0 +1,81 @@
+// Shared types describing the structured output of a code review.
+
+export type FindingCategory = 'bugs' | 'performance' | 'security' | 'style' | 'refactoring';
+
+export type FindingSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export const FINDING_CATEGORIES: FindingCategory[] = ['bugs', 'performance', 'security', 'style', 'refactoring'];
+
+// Ordered from most to least severe.
+export const FINDING_SEVERITIES: FindingSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+// A machine-applicable fix: replaces lines `startLine` to `endLine` (1-based, inclusive) of the reviewed code
+// with `replacement`. An empty replacement deletes the lines.
+export interface CodeEdit {
+  startLine: number;
+  endLine: number;
+  replacement: string;
+}
+
+export interface ReviewFinding {
+  category: FindingCategory;
+  severity: FindingSeverity;
+  startLine: number;
+  endLine: number;
+  message: string;
+  fix?: CodeEdit;
+  // Identifies the finding across scans by its category and the code it is about, for triage.
+  fingerprint?: string;
+}
+
+export interface ReviewResult {
+  // A short overall assessment of the reviewed code.
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+// One turn of a follow-up conversation about a review.
+export interface ChatMessage {
+  role: 'user' | 'model';
+  // Markdown.
+  text: string;
+}
+
+// The review of a single file in a repository scan.
+export interface FileReview {
+  path: string;
+  summary: string;
+  findings: ReviewFinding[];
+  rawFeedback: string;
+  htmlFeedback: string;
+  // Follow-up questions about the review and their answers, oldest first.
+  chat?: ChatMessage[];
+}
+
+// A finding about how a repository is structured as a whole, rather than about specific lines.
+export interface ArchitectureFinding {
+  category: FindingCategory;
+  severity: FindingSeverity;
+  // The files or directories the finding is about.
+  paths: string[];
+  message: string;
+}
+
+// The result of reviewing a repository's module structure after its files were reviewed.
+export interface ArchitectureReview {
+  summary: string;
+  findings: ArchitectureFinding[];
+  // Set instead of a review when the pass failed.
+  error?: string;
+}
+
+export interface FileError {
+  path: string;
+  error: string;
+}
+
+// A file that was left out of a scan, and why.
+export interface FileSkip {
+  path: string;
+  reason: string;
+}
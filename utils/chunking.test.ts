@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewFinding } from '../types';
+import { estimateTokens, mergeChunkFindings, splitIntoChunks } from './chunking';
+
+const finding = (changes: Partial<ReviewFinding>): ReviewFinding =>
+  ({ category: 'bugs', severity: 'medium', startLine: 1, endLine: 1, message: 'Possible null dereference.', ...changes });
+
+describe('estimateTokens', () => {
+  it('counts about four characters per token', () => {
+    expect(estimateTokens('')).toBe(0);
+    expect(estimateTokens('abcd')).toBe(1);
+    expect(estimateTokens('abcde')).toBe(2);
+  });
+});
+
+describe('splitIntoChunks', () => {
+  it('keeps code that fits the budget in one chunk', () => {
+    const code = 'const a = 1;\nconst b = 2;';
+    expect(splitIntoChunks(code, { maxTokens: 100, overlapLines: 2 })).toEqual([{ startLine: 1, endLine: 2, text: code }]);
+  });
+
+  it('covers every line, keeps the file line numbers and overlaps chunks', () => {
+    const lines = Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`);
+    const chunks = splitIntoChunks(lines.join('\n'), { maxTokens: 50, overlapLines: 2 });
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0].startLine).toBe(1);
+    expect(chunks[chunks.length - 1].endLine).toBe(40);
+    chunks.forEach(chunk => expect(chunk.text).toBe(lines.slice(chunk.startLine - 1, chunk.endLine).join('\n')));
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i].startLine).toBe(chunks[i - 1].endLine - 1);
+    }
+  });
+
+  it('prefers to cut at a top-level declaration', () => {
+    const body = (name: string) => [`function ${name}() {`, ...Array.from({ length: 6 }, (_, i) => `  doSomething(${i});`), '}'];
+    const code = [...body('first'), ...body('second')].join('\n');
+    const chunks = splitIntoChunks(code, { maxTokens: 60, overlapLines: 0 });
+    expect(chunks[1].text.startsWith('function second()')).toBe(true);
+  });
+
+  it('always makes progress on lines longer than the budget', () => {
+    const code = ['x'.repeat(100), 'y'.repeat(100)].join('\n');
+    const chunks = splitIntoChunks(code, { maxTokens: 10, overlapLines: 5 });
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 1], [2, 2]]);
+  });
+});
+
+describe('mergeChunkFindings', () => {
+  it('drops a finding reported again on the same line, keeping the more severe one', () => {
+    const merged = mergeChunkFindings([
+      finding({ startLine: 10, endLine: 10, severity: 'low' }),
+      finding({ startLine: 10, endLine: 12, severity: 'high', message: 'Worded differently.' }),
+    ]);
+    expect(merged).toHaveLength(1);
+    expect(merged[0].severity).toBe('high');
+  });
+
+  it('drops an overlapping finding that says the same thing', () => {
+    const merged = mergeChunkFindings([
+      finding({ startLine: 5, endLine: 8 }),
+      finding({ startLine: 7, endLine: 9, message: 'possible NULL dereference' }),
+    ]);
+    expect(merged).toHaveLength(1);
+  });
+
+  it('keeps findings in other categories or on separate lines', () => {
+    const merged = mergeChunkFindings([
+      finding({ startLine: 5, endLine: 5 }),
+      finding({ startLine: 5, endLine: 5, category: 'security' }),
+      finding({ startLine: 20, endLine: 20 }),
+    ]);
+    expect(merged).toHaveLength(3);
+  });
+});
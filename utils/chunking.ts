@@ -0,0 +1,109 @@
+import { ReviewFinding } from '../types';
+import { severityRank } from './findings';
+
+// A slice of a file to review on its own. Line numbers are 1-based and refer to the whole file.
+export interface CodeChunk {
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  // Approximate token budget for the code in each chunk.
+  maxTokens: number;
+  // Lines repeated at the start of each chunk from the end of the previous one, for context.
+  overlapLines: number;
+}
+
+// Lines that start a top-level declaration in common languages: a good place to cut.
+const DECLARATION_REGEX = /^(export\s+)?(default\s+)?(async\s+)?(function|class|interface|enum|type|const|let|var|def|func|fn|struct|impl|trait|module|namespace|public|private|protected|internal|static|abstract|final|override|package|object|@\w+)\b/;
+
+/**
+ * Roughly estimates how many tokens a piece of text uses (about four characters per token for code).
+ * @param text The text to measure.
+ * @returns The estimated token count.
+ */
+export const estimateTokens = (text: string): number => Math.ceil(text.length / 4);
+
+/**
+ * Checks whether a line is a natural boundary between top-level functions or classes.
+ * @param line The line to check.
+ * @param previousLine The line before it.
+ * @returns True if a chunk may start at this line.
+ */
+const isBoundary = (line: string, previousLine: string | undefined): boolean => {
+  if (!line.trim() || /^\s/.test(line)) return false;
+  return DECLARATION_REGEX.test(line) || (previousLine !== undefined && !previousLine.trim());
+};
+
+/**
+ * Splits code into chunks that fit a token budget, cutting at function/class boundaries where possible.
+ * Each chunk keeps its true starting line number so findings can be mapped back onto the file.
+ * @param code The full file content.
+ * @param options The token budget and overlap.
+ * @returns The chunks, in file order. Code that fits the budget is returned as a single chunk.
+ */
+export const splitIntoChunks = (code: string, { maxTokens, overlapLines }: ChunkOptions): CodeChunk[] => {
+  const lines = code.split('\n');
+  if (estimateTokens(code) <= maxTokens) {
+    return [{ startLine: 1, endLine: lines.length, text: code }];
+  }
+
+  const chunks: CodeChunk[] = [];
+  let start = 0;
+  while (start < lines.length) {
+    // Grow the chunk until it would exceed the budget, always taking at least one line.
+    let end = start;
+    let tokens = 0;
+    while (end < lines.length) {
+      const lineTokens = estimateTokens(lines[end] + '\n');
+      if (end > start && tokens + lineTokens > maxTokens) break;
+      tokens += lineTokens;
+      end++;
+    }
+
+    // Prefer to cut at the last boundary in the second half of the chunk.
+    if (end < lines.length) {
+      const minimumEnd = start + Math.floor((end - start) / 2);
+      for (let i = end; i > minimumEnd; i--) {
+        if (isBoundary(lines[i], lines[i - 1])) {
+          end = i;
+          break;
+        }
+      }
+    }
+
+    chunks.push({ startLine: start + 1, endLine: end, text: lines.slice(start, end).join('\n') });
+    if (end >= lines.length) break;
+    // Step back for overlap, but always make progress.
+    start = Math.max(end - overlapLines, start + 1);
+  }
+  return chunks;
+};
+
+const normalizeMessage = (message: string) => message.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+/**
+ * Merges findings from overlapping chunks, dropping duplicates reported in more than one chunk.
+ * Two findings are duplicates when they share a category, their line ranges overlap, and they start on
+ * the same line or say the same thing. The more severe of the two is kept.
+ * @param findings The findings from all chunks, with file-level line numbers.
+ * @returns The de-duplicated findings.
+ */
+export const mergeChunkFindings = (findings: ReviewFinding[]): ReviewFinding[] => {
+  const merged: ReviewFinding[] = [];
+  findings.forEach(finding => {
+    const duplicateIndex = merged.findIndex(existing =>
+      existing.category === finding.category &&
+      existing.startLine <= finding.endLine &&
+      finding.startLine <= existing.endLine &&
+      (existing.startLine === finding.startLine || normalizeMessage(existing.message) === normalizeMessage(finding.message))
+    );
+    if (duplicateIndex === -1) {
+      merged.push(finding);
+    } else if (severityRank(finding.severity) < severityRank(merged[duplicateIndex].severity)) {
+      merged[duplicateIndex] = finding;
+    }
+  });
+  return merged;
+};
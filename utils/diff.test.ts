@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { getChangedLines, getVisibleLines, isFindingOnChangedLines, parsePatch, splitMultiFileDiff } from './diff';
+
+const PATCH = [
+  '@@ -1,4 +1,5 @@',
+  ' import a from "a";',
+  '-const b = 1;',
+  '+const b = 2;',
+  '+const c = 3;',
+  ' ',
+  ' export default a;',
+  '@@ -20 +21,2 @@',
+  ' last();',
+  '+extra();',
+].join('\n');
+
+describe('parsePatch', () => {
+  it('reads the hunk headers and bodies, defaulting omitted counts to one', () => {
+    const hunks = parsePatch(PATCH);
+    expect(hunks).toHaveLength(2);
+    expect(hunks[0]).toMatchObject({ oldStart: 1, oldLines: 4, newStart: 1, newLines: 5 });
+    expect(hunks[0].lines).toHaveLength(6);
+    expect(hunks[1]).toMatchObject({ oldStart: 20, oldLines: 1, newStart: 21, newLines: 2 });
+  });
+
+  it('ignores lines outside hunks', () => {
+    expect(parsePatch('diff --git a/x b/x\n--- a/x\n+++ b/x')).toEqual([]);
+  });
+});
+
+describe('getChangedLines', () => {
+  it('lists added lines by their number in the new file', () => {
+    expect([...getChangedLines(parsePatch(PATCH))]).toEqual([2, 3, 22]);
+  });
+});
+
+describe('getVisibleLines', () => {
+  it('maps added and context lines to their hunk', () => {
+    const visible = getVisibleLines(parsePatch(PATCH));
+    expect([...visible.entries()]).toEqual([[1, 0], [2, 0], [3, 0], [4, 0], [5, 0], [21, 1], [22, 1]]);
+  });
+});
+
+describe('isFindingOnChangedLines', () => {
+  it('checks whether a line range touches a changed line', () => {
+    const changed = new Set([2, 3, 22]);
+    expect(isFindingOnChangedLines({ startLine: 1, endLine: 2 }, changed)).toBe(true);
+    expect(isFindingOnChangedLines({ startLine: 4, endLine: 21 }, changed)).toBe(false);
+  });
+});
+
+describe('splitMultiFileDiff', () => {
+  it('splits a git diff into files, marking deletions and keeping binary files', () => {
+    const diff = [
+      'diff --git a/src/app.ts b/src/app.ts',
+      'index 1111111..2222222 100644',
+      '--- a/src/app.ts',
+      '+++ b/src/app.ts',
+      '@@ -1 +1 @@',
+      '-old();',
+      '+updated();',
+      'diff --git a/old.ts b/old.ts',
+      'deleted file mode 100644',
+      '--- a/old.ts',
+      '+++ /dev/null',
+      '@@ -1 +0,0 @@',
+      '-gone();',
+      'diff --git a/logo.png b/logo.png',
+      'Binary files a/logo.png and b/logo.png differ',
+      '',
+    ].join('\n');
+    expect(splitMultiFileDiff(diff)).toEqual([
+      { path: 'src/app.ts', deleted: false, patch: '@@ -1 +1 @@\n-old();\n+updated();' },
+      { path: 'old.ts', deleted: true, patch: '@@ -1 +0,0 @@\n-gone();' },
+      { path: 'logo.png', deleted: false, patch: '' },
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import { ReviewFinding } from '../types';
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Raw hunk body lines, each prefixed with ' ', '+' or '-'.
+  lines: string[];
+}
+
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+/**
+ * Parses the hunks of a unified diff, as returned in GitHub's `patch` field.
+ * @param patch The unified diff text for a single file.
+ * @returns The hunks in the order they appear.
+ */
+export const parsePatch = (patch: string): DiffHunk[] => {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+
+  for (const line of patch.split('\n')) {
+    const header = line.match(HUNK_HEADER_REGEX);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        oldLines: header[2] === undefined ? 1 : Number(header[2]),
+        newStart: Number(header[3]),
+        newLines: header[4] === undefined ? 1 : Number(header[4]),
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (current && (line.startsWith(' ') || line.startsWith('+') || line.startsWith('-'))) {
+      current.lines.push(line);
+    }
+  }
+  return hunks;
+};
+
+/**
+ * Collects the line numbers, in the new version of the file, that a diff adds or modifies.
+ * @param hunks The parsed diff hunks.
+ * @returns The set of changed line numbers.
+ */
+export const getChangedLines = (hunks: DiffHunk[]): Set<number> => {
+  const changed = new Set<number>();
+  hunks.forEach(hunk => {
+    let lineNumber = hunk.newStart;
+    hunk.lines.forEach(line => {
+      if (line.startsWith('+')) {
+        changed.add(lineNumber);
+        lineNumber++;
+      } else if (line.startsWith(' ')) {
+        lineNumber++;
+      }
+    });
+  });
+  return changed;
+};
+
+/**
+ * Maps each line of the new version of a file that a diff shows (added or context lines) to the hunk it is in.
+ * These are the lines a pull request comment can be attached to.
+ * @param hunks The parsed diff hunks.
+ * @returns Line numbers mapped to hunk indexes.
+ */
+export const getVisibleLines = (hunks: DiffHunk[]): Map<number, number> => {
+  const visible = new Map<number, number>();
+  hunks.forEach((hunk, index) => {
+    let lineNumber = hunk.newStart;
+    hunk.lines.forEach(line => {
+      if (!line.startsWith('-')) {
+        visible.set(lineNumber, index);
+        lineNumber++;
+      }
+    });
+  });
+  return visible;
+};
+
+/**
+ * Checks whether a finding's (or any other) line range touches at least one changed line.
+ * @param finding The finding or line range to check.
+ * @param changedLines Line numbers from `getChangedLines`.
+ * @returns True if the range overlaps the change.
+ */
+export const isFindingOnChangedLines = (finding: Pick<ReviewFinding, 'startLine' | 'endLine'>, changedLines: Set<number>): boolean => {
+  for (let line = finding.startLine; line <= finding.endLine; line++) {
+    if (changedLines.has(line)) return true;
+  }
+  return false;
+};
+
+// One file's section of a multi-file `git diff`.
+export interface FileDiff {
+  path: string;
+  deleted: boolean;
+  // The file's hunks, starting at its first `@@` header; empty for binary files.
+  patch: string;
+}
+
+/**
+ * Splits the output of `git diff` (as returned by Bitbucket's diff endpoints) into one patch per file.
+ * @param diff The multi-file unified diff.
+ * @returns The files in the order they appear.
+ */
+export const splitMultiFileDiff = (diff: string): FileDiff[] => {
+  const files: FileDiff[] = [];
+  for (const section of diff.split(/^(?=diff --git )/m)) {
+    if (!section.startsWith('diff --git ')) continue;
+    const lines = section.split('\n');
+    const newPath = lines.find(line => line.startsWith('+++ '))?.slice(4).trim();
+    // Binary and mode-only changes have no `+++` line, so fall back to the `b/` path in the header.
+    const headerPath = lines[0].match(/ b\/(.+)$/)?.[1];
+    const deleted = newPath === '/dev/null' || lines.some(line => line.startsWith('deleted file mode'));
+    const path = newPath && newPath !== '/dev/null' ? newPath.replace(/^b\//, '') : headerPath;
+    if (!path) continue;
+    const hunkStart = lines.findIndex(line => line.startsWith('@@'));
+    const patch = hunkStart === -1 ? '' : lines.slice(hunkStart).join('\n').replace(/\n+$/, '');
+    files.push({ path, deleted, patch });
+  }
+  return files;
+};
@@ -0,0 +1,16 @@
+/**
+ * Saves text as a file through the browser's download mechanism.
+ * @param filename The suggested file name.
+ * @param content The file content.
+ * @param mimeType The MIME type of the content.
+ */
+export const downloadTextFile = (filename: string, content: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
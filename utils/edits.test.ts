@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { applyEdits, buildFilePatch, buildPatch, editsOverlap } from './edits';
+
+const CONTENT = 'one\ntwo\nthree\nfour\nfive\n';
+
+describe('editsOverlap', () => {
+  it('checks whether two line ranges share a line', () => {
+    expect(editsOverlap({ startLine: 1, endLine: 3, replacement: '' }, { startLine: 3, endLine: 4, replacement: '' })).toBe(true);
+    expect(editsOverlap({ startLine: 1, endLine: 2, replacement: '' }, { startLine: 3, endLine: 4, replacement: '' })).toBe(false);
+  });
+});
+
+describe('applyEdits', () => {
+  it('applies edits given in any order, by their original line numbers', () => {
+    const edited = applyEdits(CONTENT, [
+      { startLine: 4, endLine: 4, replacement: 'FOUR\nFOUR AND A HALF' },
+      { startLine: 1, endLine: 2, replacement: 'ONE' },
+    ]);
+    expect(edited).toBe('ONE\nthree\nFOUR\nFOUR AND A HALF\nfive\n');
+  });
+
+  it('keeps a missing final line break missing', () => {
+    expect(applyEdits('a\nb', [{ startLine: 1, endLine: 1, replacement: 'A' }])).toBe('A\nb');
+  });
+
+  it('gives the new last line a line break when the unterminated last line is deleted', () => {
+    expect(applyEdits('a\nb', [{ startLine: 2, endLine: 2, replacement: '' }])).toBe('a\n');
+  });
+
+  it('rejects edits that overlap or do not fit the file', () => {
+    expect(() => applyEdits(CONTENT, [
+      { startLine: 1, endLine: 2, replacement: '' },
+      { startLine: 2, endLine: 3, replacement: '' },
+    ])).toThrow('overlap');
+    expect(() => applyEdits(CONTENT, [{ startLine: 5, endLine: 6, replacement: '' }])).toThrow('does not fit');
+  });
+});
+
+describe('buildFilePatch', () => {
+  it('renders an edit as a unified diff with context', () => {
+    const patch = buildFilePatch({ path: 'src/a.txt', content: CONTENT, edits: [{ startLine: 3, endLine: 3, replacement: 'THREE' }] }, 1);
+    expect(patch).toBe([
+      'diff --git a/src/a.txt b/src/a.txt',
+      '--- a/src/a.txt',
+      '+++ b/src/a.txt',
+      '@@ -2,3 +2,3 @@',
+      ' two',
+      '-three',
+      '+THREE',
+      ' four',
+      '',
+    ].join('\n'));
+  });
+
+  it('shares a hunk between nearby edits and numbers later hunks in the new file', () => {
+    const content = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+    const patch = buildFilePatch({
+      path: 'a.txt',
+      content,
+      edits: [
+        { startLine: 2, endLine: 2, replacement: 'added\nlines' },
+        { startLine: 4, endLine: 4, replacement: '' },
+        { startLine: 18, endLine: 18, replacement: 'changed' },
+      ],
+    }, 1);
+    const headers = patch.split('\n').filter(line => line.startsWith('@@'));
+    expect(headers).toEqual(['@@ -1,5 +1,5 @@', '@@ -17,3 +17,3 @@']);
+  });
+
+  it('marks a last line without a line break', () => {
+    const patch = buildFilePatch({ path: 'a.txt', content: 'a\nb', edits: [{ startLine: 2, endLine: 2, replacement: 'B' }] }, 0);
+    expect(patch.endsWith('@@ -2,1 +2,1 @@\n-b\n\\ No newline at end of file\n+B\n\\ No newline at end of file\n')).toBe(true);
+  });
+
+  it('is empty without edits', () => {
+    expect(buildFilePatch({ path: 'a.txt', content: CONTENT, edits: [] })).toBe('');
+  });
+});
+
+describe('buildPatch', () => {
+  it('joins the patches of the files with edits', () => {
+    const patch = buildPatch([
+      { path: 'a.txt', content: CONTENT, edits: [{ startLine: 1, endLine: 1, replacement: 'ONE' }] },
+      { path: 'b.txt', content: CONTENT, edits: [] },
+      { path: 'c.txt', content: CONTENT, edits: [{ startLine: 5, endLine: 5, replacement: 'FIVE' }] },
+    ]);
+    expect(patch.match(/^diff --git .*$/gm)).toEqual(['diff --git a/a.txt b/a.txt', 'diff --git a/c.txt b/c.txt']);
+  });
+});
@@ -0,0 +1,142 @@
+// Applies suggested fixes to code and renders them as unified diffs, for review and as `.patch` files.
+import { CodeEdit } from '../types';
+
+const DEFAULT_CONTEXT_LINES = 3;
+const NO_NEWLINE_MARKER = '\\ No newline at end of file';
+
+// A file and the edits to make to it.
+export interface FileEdits {
+  path: string;
+  // The file content the edits' line numbers refer to.
+  content: string;
+  edits: CodeEdit[];
+}
+
+/**
+ * Splits file content into lines, without the empty "line" after a final line break.
+ * @param content The file content.
+ * @returns The lines, and whether the content ends with a line break.
+ */
+const splitLines = (content: string): { lines: string[]; hasFinalNewline: boolean } => {
+  const lines = content.split('\n');
+  const hasFinalNewline = content.endsWith('\n');
+  if (hasFinalNewline || content === '') lines.pop();
+  return { lines, hasFinalNewline };
+};
+
+const replacementLines = (edit: CodeEdit): string[] => edit.replacement === '' ? [] : edit.replacement.split('\n');
+
+/**
+ * Checks whether two edits change any of the same lines.
+ * @param a An edit.
+ * @param b Another edit.
+ * @returns True if their line ranges overlap.
+ */
+export const editsOverlap = (a: CodeEdit, b: CodeEdit): boolean => a.startLine <= b.endLine && b.startLine <= a.endLine;
+
+/**
+ * Sorts edits by line and checks that they fit the content and do not overlap.
+ * @param lineCount The number of lines in the content.
+ * @param edits The edits.
+ * @returns The edits, first line first.
+ */
+const validateEdits = (lineCount: number, edits: CodeEdit[]): CodeEdit[] => {
+  const sorted = [...edits].sort((a, b) => a.startLine - b.startLine);
+  sorted.forEach((edit, i) => {
+    if (edit.startLine < 1 || edit.endLine < edit.startLine || edit.endLine > lineCount) {
+      throw new Error(`The edit to lines ${edit.startLine}-${edit.endLine} does not fit the ${lineCount}-line file.`);
+    }
+    if (i > 0 && editsOverlap(sorted[i - 1], edit)) {
+      throw new Error(`The edits to lines ${sorted[i - 1].startLine}-${sorted[i - 1].endLine} and ${edit.startLine}-${edit.endLine} overlap.`);
+    }
+  });
+  return sorted;
+};
+
+/**
+ * Applies edits to code. Line numbers refer to the original code, so the edits can be given in any order.
+ * @param content The original code.
+ * @param edits Edits that do not overlap.
+ * @returns The edited code.
+ */
+export const applyEdits = (content: string, edits: CodeEdit[]): string => {
+  const { lines, hasFinalNewline } = splitLines(content);
+  const lineCount = lines.length;
+  // Only the last line can lack a line break. If it is deleted, the line before it becomes last and keeps its own.
+  let finalNewline = hasFinalNewline;
+  // Apply from the bottom up, so earlier line numbers stay valid.
+  validateEdits(lineCount, edits).reverse().forEach(edit => {
+    const replacement = replacementLines(edit);
+    if (edit.endLine === lineCount && replacement.length === 0) finalNewline = true;
+    lines.splice(edit.startLine - 1, edit.endLine - edit.startLine + 1, ...replacement);
+  });
+  return lines.length ? `${lines.join('\n')}${finalNewline ? '\n' : ''}` : '';
+};
+
+/**
+ * Renders the edits to one file as a unified diff, with nearby edits sharing a hunk.
+ * @param file The file path, content and edits.
+ * @param contextLines Unchanged lines to show around each change.
+ * @returns The diff, or an empty string if there are no edits.
+ */
+export const buildFilePatch = ({ path, content, edits }: FileEdits, contextLines = DEFAULT_CONTEXT_LINES): string => {
+  if (edits.length === 0) return '';
+  const { lines, hasFinalNewline } = splitLines(content);
+  const sorted = validateEdits(lines.length, edits);
+
+  // Group edits whose context would touch or overlap into one hunk.
+  const groups: CodeEdit[][] = [];
+  sorted.forEach(edit => {
+    const last = groups[groups.length - 1];
+    if (last && edit.startLine - last[last.length - 1].endLine - 1 <= contextLines * 2) {
+      last.push(edit);
+    } else {
+      groups.push([edit]);
+    }
+  });
+
+  const output = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+  // How many lines the new file has gained (or lost) before the current hunk.
+  let offset = 0;
+  groups.forEach(group => {
+    const oldStart = Math.max(1, group[0].startLine - contextLines);
+    const oldEnd = Math.min(lines.length, group[group.length - 1].endLine + contextLines);
+    const body: string[] = [];
+    const endsFile = (line: number) => line === lines.length && !hasFinalNewline;
+    let added = 0;
+    let removed = 0;
+    let line = oldStart;
+    for (const edit of group) {
+      for (; line < edit.startLine; line++) {
+        body.push(` ${lines[line - 1]}`, ...(endsFile(line) ? [NO_NEWLINE_MARKER] : []));
+      }
+      for (; line <= edit.endLine; line++) {
+        body.push(`-${lines[line - 1]}`, ...(endsFile(line) ? [NO_NEWLINE_MARKER] : []));
+        removed++;
+      }
+      const replacement = replacementLines(edit);
+      replacement.forEach(text => body.push(`+${text}`));
+      if (replacement.length && endsFile(edit.endLine)) body.push(NO_NEWLINE_MARKER);
+      added += replacement.length;
+    }
+    for (; line <= oldEnd; line++) {
+      body.push(` ${lines[line - 1]}`, ...(endsFile(line) ? [NO_NEWLINE_MARKER] : []));
+    }
+
+    const oldCount = oldEnd - oldStart + 1;
+    const newCount = oldCount - removed + added;
+    // An empty range is numbered from the line before it.
+    const newStart = newCount === 0 ? oldStart + offset - 1 : oldStart + offset;
+    output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`, ...body);
+    offset += added - removed;
+  });
+  return `${output.join('\n')}\n`;
+};
+
+/**
+ * Renders edits to several files as one `.patch` file, which `git apply` or `patch -p1` can apply.
+ * @param files The files and their edits. Files without edits are left out.
+ * @returns The patch text.
+ */
+export const buildPatch = (files: FileEdits[]): string =>
+  files.map(file => buildFilePatch(file)).join('');
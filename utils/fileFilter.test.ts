@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_FILE_FILTER_RULES, detectBinaryContent, detectGeneratedContent, evaluateFile, mergeFileFilterRules } from './fileFilter';
+
+describe('evaluateFile', () => {
+  it('includes reviewable files the rules do not exclude', () => {
+    expect(evaluateFile({ path: 'src/app.ts', size: 1000 }, DEFAULT_FILE_FILTER_RULES)).toEqual({ included: true });
+  });
+
+  it('says why a file is left out', () => {
+    const rules = { ...DEFAULT_FILE_FILTER_RULES, include: ['src/'] };
+    expect(evaluateFile({ path: 'logo.png' }, rules).reason).toBe('Unsupported file type');
+    expect(evaluateFile({ path: 'src/node_modules/x/index.js' }, rules).reason).toBe('Matches an exclude rule');
+    expect(evaluateFile({ path: 'scripts/build.ts' }, rules).reason).toBe('Does not match any include rule');
+    expect(evaluateFile({ path: 'src/big.ts', size: 201 * 1024 }, rules).reason).toBe('Larger than 200 KB');
+  });
+
+  it('has no size limit when the maximum is 0, or when the size is unknown', () => {
+    expect(evaluateFile({ path: 'src/big.ts', size: 10 * 1024 * 1024 }, { ...DEFAULT_FILE_FILTER_RULES, maxFileSizeKb: 0 }).included).toBe(true);
+    expect(evaluateFile({ path: 'src/big.ts' }, DEFAULT_FILE_FILTER_RULES).included).toBe(true);
+  });
+
+  it('treats a list of blank include rules as no include rules', () => {
+    expect(evaluateFile({ path: 'src/app.ts' }, { ...DEFAULT_FILE_FILTER_RULES, include: [' '] }).included).toBe(true);
+  });
+});
+
+describe('mergeFileFilterRules', () => {
+  it('merges glob lists without duplicates and lets the repository settings win', () => {
+    const base = { include: ['src/'], exclude: ['dist/'], maxFileSizeKb: 200, skipGenerated: true };
+    expect(mergeFileFilterRules(base, { exclude: ['dist/', 'fixtures/'], maxFileSizeKb: 50, skipGenerated: false })).toEqual({
+      include: ['src/'],
+      exclude: ['dist/', 'fixtures/'],
+      maxFileSizeKb: 50,
+      skipGenerated: false,
+    });
+    expect(mergeFileFilterRules(base, null)).toBe(base);
+  });
+});
+
+describe('detectGeneratedContent', () => {
+  it('recognises generator markers near the top of a file', () => {
+    expect(detectGeneratedContent('// Code generated by protoc-gen-go. DO NOT EDIT.\npackage api')).toBe('Looks generated');
+  });
+
+  it('recognises minified code by its long lines', () => {
+    expect(detectGeneratedContent(`var a=1;${'b(),'.repeat(300)}`)).toBe('Looks minified');
+  });
+
+  it('accepts ordinary code', () => {
+    expect(detectGeneratedContent('export const add = (a: number, b: number) => a + b;\n')).toBeNull();
+  });
+});
+
+describe('detectBinaryContent', () => {
+  it('recognises Git LFS pointers, NUL bytes and text that is not UTF-8', () => {
+    expect(detectBinaryContent('version https://git-lfs.github.com/spec/v1\noid sha256:abc\nsize 12\n')).toBe('Stored in Git LFS');
+    expect(detectBinaryContent('PNG\0\0\0IHDR')).toBe('Binary file');
+    expect(detectBinaryContent('�'.repeat(20))).toBe('Not UTF-8 text');
+  });
+
+  it('accepts text with the odd replacement character', () => {
+    expect(detectBinaryContent('const name = "caf�";\n')).toBeNull();
+  });
+});
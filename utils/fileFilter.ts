@@ -0,0 +1,141 @@
+import { isReviewableFile } from '../constants';
+import { matchesAnyGlob } from './glob';
+
+/**
+ * Rules that decide which files a repository scan reviews.
+ * `include` is optional: when empty, every reviewable file not matched by `exclude` is included.
+ */
+export interface FileFilterRules {
+  include: string[];
+  exclude: string[];
+  // Files larger than this are skipped. 0 disables the limit.
+  maxFileSizeKb: number;
+  // Skip files that look generated or minified.
+  skipGenerated: boolean;
+}
+
+export const DEFAULT_FILE_FILTER_RULES: FileFilterRules = {
+  include: [],
+  exclude: [
+    'node_modules/',
+    'vendor/',
+    'third_party/',
+    'dist/',
+    'build/',
+    'out/',
+    'coverage/',
+    '.next/',
+    '*.min.js',
+    '*.min.css',
+    '*.map',
+    '*.lock',
+    'package-lock.json',
+    'pnpm-lock.yaml',
+    'go.sum',
+    '*.pb.go',
+    '*_pb2.py',
+    '*.generated.*',
+    '*.g.dart',
+  ],
+  maxFileSizeKb: 200,
+  skipGenerated: true,
+};
+
+// A file considered for a scan, with its size in bytes when known.
+export interface FilterCandidate {
+  path: string;
+  size?: number;
+}
+
+export interface FilterDecision {
+  included: boolean;
+  // Why the file was left out.
+  reason?: string;
+}
+
+// Markers that tools put at the top of generated files.
+const GENERATED_MARKERS = /@generated|do not edit|auto-generated|autogenerated|generated by|code generated/i;
+// Git LFS stores a small pointer file in the repository in place of the real content.
+const LFS_POINTER_REGEX = /^version https:\/\/git-lfs\.github\.com\/spec\/v1\r?\n/;
+// How much of a file to look at for binary content, like Git does.
+const BINARY_SNIFF_LENGTH = 8000;
+
+/**
+ * Combines the rules edited in the UI with those from a repository's config file.
+ * Glob lists are merged; the repository's scalar settings win.
+ * @param base The rules from the UI.
+ * @param override Rules from the repository config, if any.
+ * @returns The effective rules.
+ */
+export const mergeFileFilterRules = (base: FileFilterRules, override?: Partial<FileFilterRules> | null): FileFilterRules => {
+  if (!override) return base;
+  return {
+    include: [...new Set([...base.include, ...(override.include || [])])],
+    exclude: [...new Set([...base.exclude, ...(override.exclude || [])])],
+    maxFileSizeKb: override.maxFileSizeKb ?? base.maxFileSizeKb,
+    skipGenerated: override.skipGenerated ?? base.skipGenerated,
+  };
+};
+
+/**
+ * Decides whether a file should be reviewed, using only its path and size.
+ * @param file The candidate file.
+ * @param rules The effective filter rules.
+ * @returns The decision, with a reason when the file is excluded.
+ */
+export const evaluateFile = (file: FilterCandidate, rules: FileFilterRules): FilterDecision => {
+  if (!isReviewableFile(file.path)) {
+    return { included: false, reason: 'Unsupported file type' };
+  }
+  if (matchesAnyGlob(file.path, rules.exclude)) {
+    return { included: false, reason: 'Matches an exclude rule' };
+  }
+  if (rules.include.some(glob => glob.trim()) && !matchesAnyGlob(file.path, rules.include)) {
+    return { included: false, reason: 'Does not match any include rule' };
+  }
+  if (rules.maxFileSizeKb > 0 && file.size !== undefined && file.size > rules.maxFileSizeKb * 1024) {
+    return { included: false, reason: `Larger than ${rules.maxFileSizeKb} KB` };
+  }
+  return { included: true };
+};
+
+/**
+ * Detects generated or minified content, which is not worth reviewing.
+ * Looks for generator markers near the top of the file and for very long lines.
+ * @param content The file content.
+ * @returns A reason if the content looks generated or minified, otherwise null.
+ */
+export const detectGeneratedContent = (content: string): string | null => {
+  const lines = content.split('\n');
+  if (GENERATED_MARKERS.test(lines.slice(0, 10).join('\n'))) {
+    return 'Looks generated';
+  }
+  const longLines = lines.filter(line => line.length > 500).length;
+  const averageLength = content.length / Math.max(lines.length, 1);
+  if (averageLength > 200 || (lines.length > 0 && longLines / lines.length > 0.2)) {
+    return 'Looks minified';
+  }
+  return null;
+};
+
+/**
+ * Detects content that is not text: binary files, files that are not UTF-8, and Git LFS pointers.
+ * Such files are never reviewed, whatever the rules say.
+ * @param content The file content, decoded as UTF-8 with invalid bytes replaced by U+FFFD.
+ * @returns A reason if the content is not reviewable text, otherwise null.
+ */
+export const detectBinaryContent = (content: string): string | null => {
+  if (LFS_POINTER_REGEX.test(content)) {
+    return 'Stored in Git LFS';
+  }
+  const sample = content.slice(0, BINARY_SNIFF_LENGTH);
+  if (sample.includes('\0')) {
+    return 'Binary file';
+  }
+  // A stray replacement character can be real text; many mean the bytes were not UTF-8.
+  const replaced = sample.split('\uFFFD').length - 1;
+  if (replaced > Math.max(8, sample.length / 100)) {
+    return 'Not UTF-8 text';
+  }
+  return null;
+};
@@ -0,0 +1,52 @@
+// Builds a directory tree from a flat list of file paths, for browsing a repository before and after a scan.
+
+export interface FileTreeDirectory {
+  // The directory name, or empty for the root.
+  name: string;
+  // The path from the root, without a trailing slash; empty for the root.
+  path: string;
+  directories: FileTreeDirectory[];
+  // The full paths of the files directly in this directory.
+  files: string[];
+}
+
+/**
+ * Builds a directory tree, with directories and files each sorted by name.
+ * @param paths The file paths, relative to the root and separated by slashes.
+ * @returns The root directory.
+ */
+export const buildFileTree = (paths: string[]): FileTreeDirectory => {
+  const root: FileTreeDirectory = { name: '', path: '', directories: [], files: [] };
+  const byPath = new Map<string, FileTreeDirectory>([['', root]]);
+  const getDirectory = (path: string): FileTreeDirectory => {
+    let directory = byPath.get(path);
+    if (!directory) {
+      const slash = path.lastIndexOf('/');
+      const parent = getDirectory(slash < 0 ? '' : path.slice(0, slash));
+      directory = { name: path.slice(slash + 1), path, directories: [], files: [] };
+      parent.directories.push(directory);
+      byPath.set(path, directory);
+    }
+    return directory;
+  };
+  paths.forEach(path => {
+    const slash = path.lastIndexOf('/');
+    getDirectory(slash < 0 ? '' : path.slice(0, slash)).files.push(path);
+  });
+
+  const sort = (directory: FileTreeDirectory) => {
+    directory.directories.sort((a, b) => a.name.localeCompare(b.name));
+    directory.files.sort((a, b) => a.localeCompare(b));
+    directory.directories.forEach(sort);
+  };
+  sort(root);
+  return root;
+};
+
+/**
+ * Lists every file in a directory and its subdirectories.
+ * @param directory The directory.
+ * @returns The full paths of the files.
+ */
+export const listFilesUnder = (directory: FileTreeDirectory): string[] =>
+  [...directory.files, ...directory.directories.flatMap(listFilesUnder)];
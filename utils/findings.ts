@@ -0,0 +1,120 @@
+import { ArchitectureReview, FINDING_SEVERITIES, FindingCategory, FindingSeverity, ReviewFinding, ReviewResult } from '../types';
+
+export const CATEGORY_LABELS: Record<FindingCategory, string> = {
+  bugs: 'Potential Bugs & Errors',
+  performance: 'Performance Improvements',
+  security: 'Security Vulnerabilities',
+  style: 'Readability & Style',
+  refactoring: 'Refactoring Suggestions',
+};
+
+/**
+ * Ranks a severity so that more severe findings compare lower.
+ * @param severity The finding severity.
+ * @returns 0 for critical up to 4 for info.
+ */
+export const severityRank = (severity: FindingSeverity): number => FINDING_SEVERITIES.indexOf(severity);
+
+/**
+ * Sorts findings by severity (most severe first), then by line number.
+ * @param findings The findings to sort. The input array is not modified.
+ * @returns A new, sorted array.
+ */
+export const sortFindings = (findings: ReviewFinding[]): ReviewFinding[] =>
+  [...findings].sort((a, b) => severityRank(a.severity) - severityRank(b.severity) || a.startLine - b.startLine);
+
+/**
+ * Counts findings per severity.
+ * @param findings The findings to count.
+ * @returns A record with a count for every severity, including zeros.
+ */
+export const countBySeverity = (findings: ReviewFinding[]): Record<FindingSeverity, number> => {
+  const counts = Object.fromEntries(FINDING_SEVERITIES.map(s => [s, 0])) as Record<FindingSeverity, number>;
+  findings.forEach(f => counts[f.severity]++);
+  return counts;
+};
+
+/**
+ * Keeps only findings at or above the given severity.
+ * @param findings The findings to filter.
+ * @param minSeverity The least severe level to keep.
+ * @returns The matching findings.
+ */
+export const filterBySeverity = (findings: ReviewFinding[], minSeverity: FindingSeverity): ReviewFinding[] =>
+  findings.filter(f => severityRank(f.severity) <= severityRank(minSeverity));
+
+/**
+ * Describes a line range, e.g. "Line 3" or "Lines 3-5".
+ * @param range A finding or fix.
+ * @returns The description.
+ */
+export const formatLineRange = (range: { startLine: number; endLine: number }): string =>
+  range.startLine === range.endLine ? `Line ${range.startLine}` : `Lines ${range.startLine}-${range.endLine}`;
+
+/**
+ * Renders one finding as a Markdown list item, with its suggested fix.
+ * @param finding The finding.
+ * @param language The language of the reviewed code, used to tag the fix's code block.
+ * @returns The list item.
+ */
+export const findingToMarkdown = (finding: ReviewFinding, language?: string): string => {
+  const fence = language ? language.toLowerCase() : '';
+  let item = `- **[${finding.severity.toUpperCase()}] ${formatLineRange(finding)}:** ${finding.message}`;
+  if (finding.fix?.replacement) {
+    const indented = finding.fix.replacement.split('\n').map(line => `  ${line}`).join('\n');
+    item += `\n\n  Suggested fix for ${formatLineRange(finding.fix).toLowerCase()}:\n\n  \`\`\`${fence}\n${indented}\n  \`\`\``;
+  } else if (finding.fix) {
+    item += `\n\n  Suggested fix: delete ${formatLineRange(finding.fix).toLowerCase()}.`;
+  }
+  return item;
+};
+
+/**
+ * Renders a structured review as Markdown, grouped by category and sorted by severity.
+ * @param result The structured review.
+ * @param language The language of the reviewed code, used to tag suggested fix code blocks.
+ * @returns The Markdown document.
+ */
+export const findingsToMarkdown = (result: ReviewResult, language?: string): string => {
+  const sections: string[] = [];
+  if (result.summary) {
+    sections.push(`### Overall Assessment\n\n${result.summary}`);
+  }
+
+  if (result.findings.length === 0) {
+    sections.push('No issues found.');
+    return sections.join('\n\n');
+  }
+
+  (Object.keys(CATEGORY_LABELS) as FindingCategory[]).forEach(category => {
+    const findings = sortFindings(result.findings.filter(f => f.category === category));
+    if (findings.length === 0) return;
+
+    const items = findings.map(f => findingToMarkdown(f, language));
+    sections.push(`### ${CATEGORY_LABELS[category]}\n\n${items.join('\n')}`);
+  });
+
+  return sections.join('\n\n');
+};
+
+/**
+ * Renders an architecture review as Markdown: the assessment, then the findings by severity.
+ * @param review The architecture review.
+ * @returns The Markdown text, without headings so it can be placed under any heading.
+ */
+export const architectureToMarkdown = (review: ArchitectureReview): string => {
+  if (review.error) {
+    return `The architecture review could not be completed: ${review.error}`;
+  }
+  const sections = review.summary ? [review.summary] : [];
+  const findings = [...review.findings].sort((a, b) => severityRank(a.severity) - severityRank(b.severity));
+  if (findings.length === 0) {
+    sections.push('No structural issues found.');
+  } else {
+    sections.push(findings.map(f => {
+      const paths = f.paths.length ? ` (${f.paths.map(path => `\`${path}\``).join(', ')})` : '';
+      return `- **[${f.severity.toUpperCase()}] ${CATEGORY_LABELS[f.category]}**${paths}: ${f.message}`;
+    }).join('\n'));
+  }
+  return sections.join('\n\n');
+};
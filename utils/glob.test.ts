@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { globToRegExp, matchesAnyGlob } from './glob';
+
+describe('globToRegExp', () => {
+  it('matches a pattern without a slash against the file name at any depth', () => {
+    expect(globToRegExp('*.min.js').test('app.min.js')).toBe(true);
+    expect(globToRegExp('*.min.js').test('public/js/app.min.js')).toBe(true);
+    expect(globToRegExp('*.min.js').test('app.js')).toBe(false);
+  });
+
+  it('anchors a pattern with a slash to the root', () => {
+    expect(globToRegExp('src/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/*.ts').test('lib/src/index.ts')).toBe(false);
+    expect(globToRegExp('/build').test('build')).toBe(true);
+  });
+
+  it('does not let a single star cross directories', () => {
+    expect(globToRegExp('src/*.ts').test('src/utils/index.ts')).toBe(false);
+  });
+
+  it('lets a double star match any number of directories', () => {
+    const regex = globToRegExp('src/**/*.test.ts');
+    expect(regex.test('src/a.test.ts')).toBe(true);
+    expect(regex.test('src/utils/deep/a.test.ts')).toBe(true);
+    expect(regex.test('lib/a.test.ts')).toBe(false);
+  });
+
+  it('matches everything under a directory pattern', () => {
+    expect(globToRegExp('node_modules/').test('node_modules/react/index.js')).toBe(true);
+    expect(globToRegExp('node_modules/').test('packages/app/node_modules/react/index.js')).toBe(true);
+    expect(globToRegExp('node_modules/').test('src/node_modules.ts')).toBe(false);
+  });
+
+  it('supports alternatives and single-character wildcards', () => {
+    expect(globToRegExp('*.{ts,tsx}').test('App.tsx')).toBe(true);
+    expect(globToRegExp('*.{ts,tsx}').test('App.jsx')).toBe(false);
+    expect(globToRegExp('file?.js').test('file1.js')).toBe(true);
+    expect(globToRegExp('file?.js').test('file10.js')).toBe(false);
+  });
+
+  it('escapes regular expression characters', () => {
+    expect(globToRegExp('a+b.js').test('a+b.js')).toBe(true);
+    expect(globToRegExp('a+b.js').test('aab.js')).toBe(false);
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('matches when any pattern does, ignoring blank ones', () => {
+    expect(matchesAnyGlob('dist/app.js', ['', 'vendor/', 'dist/'])).toBe(true);
+    expect(matchesAnyGlob('src/app.js', ['', 'vendor/', 'dist/'])).toBe(false);
+    expect(matchesAnyGlob('src/app.js', [' '])).toBe(false);
+  });
+});
@@ -0,0 +1,64 @@
+const regexCache = new Map<string, RegExp>();
+
+/**
+ * Converts a gitignore-style glob into a regular expression.
+ * Supports `**` (any number of directories), `*` (anything but `/`), `?` and `{a,b}` alternatives.
+ * A pattern without a `/` matches the file name at any depth, e.g. `*.min.js`.
+ * A pattern ending in `/` matches everything under that directory.
+ * @param glob The glob pattern.
+ * @returns The equivalent regular expression.
+ */
+export const globToRegExp = (glob: string): RegExp => {
+  const cached = regexCache.get(glob);
+  if (cached) return cached;
+
+  let pattern = glob.trim().replace(/^\.\//, '');
+  const anchored = pattern.startsWith('/') || pattern.slice(0, -1).includes('/');
+  if (pattern.endsWith('/')) {
+    pattern += '**';
+  }
+  pattern = pattern.replace(/^\//, '');
+
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // `**/` matches zero or more directories; a trailing `**` matches everything below.
+      if (pattern[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const close = pattern.indexOf('}', i);
+      if (close === -1) {
+        source += '\\{';
+      } else {
+        const options = pattern.slice(i + 1, close).split(',').map(option => option.replace(/[.+^$()|[\]\\]/g, '\\$&').replace(/\*/g, '[^/]*'));
+        source += `(?:${options.join('|')})`;
+        i = close;
+      }
+    } else {
+      source += char.replace(/[.+^$()|[\]\\{}]/g, '\\$&');
+    }
+  }
+
+  const regex = new RegExp(anchored ? `^${source}$` : `(?:^|/)${source}$`);
+  regexCache.set(glob, regex);
+  return regex;
+};
+
+/**
+ * Checks whether a path matches any of the given globs.
+ * @param path A repository-relative path, using `/` as the separator.
+ * @param globs The glob patterns.
+ * @returns True if at least one pattern matches.
+ */
+export const matchesAnyGlob = (path: string, globs: string[]): boolean =>
+  globs.some(glob => glob.trim() && globToRegExp(glob).test(path));
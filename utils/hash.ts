@@ -0,0 +1,23 @@
+/**
+ * Computes the SHA-256 hash of a string.
+ * @param text The text to hash.
+ * @returns A promise that resolves to the hash as a lowercase hex string.
+ */
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Computes a fast, non-cryptographic 32-bit FNV-1a hash of a string, for short identifiers.
+ * @param text The text to hash.
+ * @returns The hash as an 8-character lowercase hex string.
+ */
+export const fnv1aHex = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
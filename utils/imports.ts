@@ -0,0 +1,153 @@
+// Finds the repository files a source file imports, for JavaScript/TypeScript, Python and Go.
+
+const JS_IMPORT_REGEXES = [
+  // import x from 'y', import { x } from 'y', export * from 'y'
+  /(?:^|[\s;])(?:import|export)\s[^'"`;]*?\sfrom\s*['"]([^'"]+)['"]/g,
+  // import 'y'
+  /(?:^|[\s;])import\s*['"]([^'"]+)['"]/g,
+  // require('y'), import('y')
+  /(?:^|[^\w$.])(?:require|import)\s*\(\s*['"]([^'"]+)['"]\s*\)/g,
+];
+const JS_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const PYTHON_FROM_REGEX = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+\(?([\w*, \t\\\n]+)\)?/gm;
+const PYTHON_IMPORT_REGEX = /^[ \t]*import[ \t]+([\w., \t]+)/gm;
+// Where Python packages commonly live, relative to the repository root.
+const PYTHON_ROOTS = ['', 'src/'];
+
+const GO_IMPORT_BLOCK_REGEX = /^import\s*\(([\s\S]*?)\)/gm;
+const GO_IMPORT_LINE_REGEX = /^import\s+(?:[\w.]+\s+)?"([^"]+)"/gm;
+
+const collect = (content: string, regex: RegExp, group = 1): string[] =>
+  Array.from(content.matchAll(regex), match => match[group]).filter(Boolean);
+
+/**
+ * Resolves `.` and `..` segments in a relative path.
+ * @param path The path, e.g. `src/a/../b.ts`.
+ * @returns The normalised path, or null if it climbs above the root.
+ */
+const normalizePath = (path: string): string | null => {
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (!part || part === '.') continue;
+    if (part === '..') {
+      if (!parts.length) return null;
+      parts.pop();
+    } else {
+      parts.push(part);
+    }
+  }
+  return parts.join('/');
+};
+
+const dirname = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+const resolveJsImports = (content: string, fromPath: string, paths: Set<string>): string[] => {
+  const specifiers = JS_IMPORT_REGEXES.flatMap(regex => collect(content, regex));
+  const resolved: string[] = [];
+  for (const specifier of specifiers) {
+    // Package imports have nothing to read in the repository.
+    if (!specifier.startsWith('.')) continue;
+    const base = normalizePath(`${dirname(fromPath)}/${specifier}`);
+    if (base === null) continue;
+    // Compiled TypeScript imports `./x.js` for `./x.ts`.
+    const withoutJs = base.replace(/\.(m|c)?js$/, '');
+    const candidates = [base, ...JS_EXTENSIONS.map(ext => `${withoutJs}${ext}`), ...JS_EXTENSIONS.map(ext => `${base}/index${ext}`)];
+    const match = candidates.find(candidate => paths.has(candidate));
+    if (match) resolved.push(match);
+  }
+  return resolved;
+};
+
+const resolvePythonModule = (module: string, fromPath: string, paths: Set<string>): string | null => {
+  const dots = module.match(/^\.*/)![0].length;
+  const modulePath = module.slice(dots).replace(/\./g, '/');
+  let bases: string[];
+  if (dots > 0) {
+    // `from . import x` is relative to the file's package; each extra dot goes up one package.
+    let dir: string | null = dirname(fromPath);
+    for (let i = 1; i < dots && dir !== null; i++) {
+      dir = dir ? dirname(dir) : null;
+    }
+    if (dir === null) return null;
+    bases = [dir ? `${dir}/` : ''];
+  } else {
+    bases = [...PYTHON_ROOTS, `${dirname(fromPath)}/`];
+  }
+  for (const base of bases) {
+    const stem = `${base}${modulePath}`.replace(/\/$/, '');
+    const match = [`${stem}.py`, `${stem}/__init__.py`].find(candidate => paths.has(candidate));
+    if (match) return match;
+  }
+  return null;
+};
+
+const resolvePythonImports = (content: string, fromPath: string, paths: Set<string>): string[] => {
+  const modules: string[] = [];
+  for (const match of content.matchAll(PYTHON_FROM_REGEX)) {
+    const [, module, names] = match;
+    modules.push(module);
+    // `from package import module` may name submodules rather than attributes.
+    names.split(/[\s,()\\]+/).filter(name => /^\w+$/.test(name))
+      .forEach(name => modules.push(module.endsWith('.') ? `${module}${name}` : `${module}.${name}`));
+  }
+  collect(content, PYTHON_IMPORT_REGEX).forEach(list =>
+    list.split(',').forEach(item => modules.push(item.trim().split(/\s+/)[0])));
+  return modules
+    .filter(Boolean)
+    .map(module => resolvePythonModule(module, fromPath, paths))
+    .filter((path): path is string => path !== null);
+};
+
+const resolveGoImports = (content: string, paths: Set<string>): string[] => {
+  const importPaths = [
+    ...collect(content, GO_IMPORT_BLOCK_REGEX).flatMap(block => collect(block, /"([^"]+)"/g)),
+    ...collect(content, GO_IMPORT_LINE_REGEX),
+  ];
+  // Go imports name a package by module path. Without reading go.mod, match the longest directory it ends with.
+  const directories = new Map<string, string[]>();
+  paths.forEach(path => {
+    if (!path.endsWith('.go') || path.endsWith('_test.go')) return;
+    const dir = dirname(path);
+    directories.set(dir, [...(directories.get(dir) || []), path]);
+  });
+  const resolved: string[] = [];
+  for (const importPath of importPaths) {
+    let best: string | null = null;
+    directories.forEach((_, dir) => {
+      if (dir && (importPath === dir || importPath.endsWith(`/${dir}`)) && (!best || dir.length > best.length)) {
+        best = dir;
+      }
+    });
+    if (best) resolved.push(...directories.get(best)!);
+  }
+  return resolved;
+};
+
+/**
+ * Finds the files in the repository that a source file imports. Imports of packages outside the repository,
+ * and languages other than JavaScript/TypeScript, Python and Go, resolve to nothing.
+ * @param content The file's content.
+ * @param fromPath The file's path in the repository.
+ * @param language The file's language.
+ * @param paths Every file path in the repository.
+ * @returns The imported paths, without duplicates, in the order they are first imported.
+ */
+export const resolveImports = (content: string, fromPath: string, language: string, paths: Set<string>): string[] => {
+  let resolved: string[];
+  switch (language) {
+    case 'JavaScript':
+    case 'TypeScript':
+      resolved = resolveJsImports(content, fromPath, paths);
+      break;
+    case 'Python':
+      resolved = resolvePythonImports(content, fromPath, paths);
+      break;
+    case 'Go':
+      resolved = resolveGoImports(content, paths);
+      break;
+    default:
+      resolved = [];
+  }
+  return [...new Set(resolved)].filter(path => path !== fromPath);
+};
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('parses complete JSON', () => {
+    expect(parsePartialJson('{"summary":"ok","findings":[]}')).toEqual({ summary: 'ok', findings: [] });
+  });
+
+  it('closes an open string, array and object', () => {
+    expect(parsePartialJson('{"summary":"Looks go')).toEqual({ summary: 'Looks go' });
+    expect(parsePartialJson('{"findings":[{"line":1},{"line":2}')).toEqual({ findings: [{ line: 1 }, { line: 2 }] });
+  });
+
+  it('drops an incomplete key or value at the end', () => {
+    expect(parsePartialJson('{"summary":"ok","fin')).toEqual({ summary: 'ok' });
+    expect(parsePartialJson('{"summary":"ok","count":')).toEqual({ summary: 'ok' });
+    expect(parsePartialJson('{"done":tr')).toEqual({});
+  });
+
+  it('does not end a string at an escaped quote, and drops a dangling escape', () => {
+    expect(parsePartialJson('{"message":"Use \\"strict\\" mode')).toEqual({ message: 'Use "strict" mode' });
+    expect(parsePartialJson('{"message":"a\\')).toEqual({ message: 'a' });
+  });
+
+  it('returns null when nothing usable has arrived', () => {
+    expect(parsePartialJson('')).toBeNull();
+    expect(parsePartialJson('tr')).toBeNull();
+  });
+});
@@ -0,0 +1,63 @@
+// Where truncated JSON can be cut back to a complete prefix: the bracket/brace closers open at that point.
+interface CutPoint {
+  index: number;
+  closers: string;
+}
+
+const tryParse = (text: string): { value: unknown } | null => {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Parses JSON that may have been cut off part-way, as it is while a response is still streaming.
+ * Open strings, arrays and objects are closed; an incomplete key or value at the end is dropped.
+ * @param text The (possibly truncated) JSON text.
+ * @returns The parsed value, or null if nothing usable has arrived yet.
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const stack: string[] = [];
+  const cutPoints: CutPoint[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      stack.push(ch === '{' ? '}' : ']');
+      // Keeping the bracket gives an empty container.
+      cutPoints.push({ index: i + 1, closers: [...stack].reverse().join('') });
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+    } else if (ch === ',') {
+      // Dropping the comma keeps every complete element before it.
+      cutPoints.push({ index: i, closers: [...stack].reverse().join('') });
+    }
+  }
+
+  // First try to keep everything, closing an open string (minus a dangling escape).
+  let repaired = text;
+  if (inString) {
+    repaired = (escaped ? repaired.slice(0, -1) : repaired) + '"';
+  }
+  const full = tryParse(repaired + [...stack].reverse().join(''));
+  if (full) return full.value;
+
+  // Otherwise the end is an incomplete key, literal or number: cut back to the last complete element.
+  for (let i = cutPoints.length - 1; i >= 0; i--) {
+    const cut = tryParse(text.slice(0, cutPoints[i].index) + cutPoints[i].closers);
+    if (cut) return cut.value;
+  }
+  return null;
+};
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { FileReview } from '../types';
+import { ScanReport, reportToHtml, reportToSarif } from './report';
+
+const report = (reviews: FileReview[]): ScanReport => ({
+  parameters: {
+    repoUrl: 'https://github.com/acme/app',
+    scope: 'acme/app@main',
+    commitSha: '3f2c1d9e8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e',
+    model: 'gemini-2.5-flash',
+    profile: 'Default',
+    status: 'completed',
+    startedAt: '2025-06-01T12:00:00.000Z',
+    generatedAt: '2025-06-01T12:05:00.000Z',
+    include: [],
+    exclude: [],
+  },
+  summary: {
+    scope: 'acme/app@main', isDiff: false, total: 1, listingComplete: true, analyzed: 1, withIssues: 1, findings: 1,
+    bySeverity: { critical: 0, high: 1, medium: 0, low: 0, info: 0 }, errors: 0, fromCache: 0,
+  },
+  reviews,
+  errors: [],
+  skipped: [],
+});
+
+describe('reportToHtml', () => {
+  it('shows raw HTML in the feedback as text instead of running it', () => {
+    const html = reportToHtml(report([{
+      path: 'src/page.ts',
+      summary: '',
+      findings: [],
+      rawFeedback: 'Unescaped output:\n\n<script>alert(1)</script>\n\nAlso <img src=x onerror="alert(2)"> inline.',
+      htmlFeedback: '',
+    }]));
+    expect(html).not.toContain('<script>');
+    expect(html).not.toContain('<img');
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+    expect(html).toContain('&lt;img src=x onerror=&quot;alert(2)&quot;&gt;');
+  });
+
+  it('still renders Markdown', () => {
+    const html = reportToHtml(report([{ path: 'src/page.ts', summary: '', findings: [], rawFeedback: '### Bugs\n\n- **Off-by-one** in `loop`', htmlFeedback: '' }]));
+    expect(html).toContain('<h4>Bugs</h4>');
+    expect(html).toContain('<strong>Off-by-one</strong> in <code>loop</code>');
+  });
+});
+
+describe('reportToSarif', () => {
+  const provenance = (changes: Partial<ScanReport['parameters']>) => {
+    const base = report([]);
+    return JSON.parse(reportToSarif({ ...base, parameters: { ...base.parameters, ...changes } })).runs[0].versionControlProvenance;
+  };
+
+  it('records the repository and commit of a remote scan', () => {
+    expect(provenance({})).toEqual([{ repositoryUri: 'https://github.com/acme/app', revisionId: '3f2c1d9e8b7a6f5e4d3c2b1a0f9e8d7c6b5a4f3e' }]);
+  });
+
+  it('leaves out version control for a local scan', () => {
+    expect(provenance({ repoUrl: '/home/ci/work/app', commitSha: 'working tree' })).toBeUndefined();
+    expect(provenance({ commitSha: 'working tree' })).toBeUndefined();
+  });
+});
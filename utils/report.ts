@@ -0,0 +1,305 @@
+import { Marked } from 'marked';
+import { ArchitectureReview, FINDING_CATEGORIES, FINDING_SEVERITIES, FileError, FileReview, FileSkip, FindingSeverity } from '../types';
+import { DEFAULT_REVIEW_PROFILE } from '../services/reviewProfiles';
+import type { ScanJob, ScanStatus } from '../services/scanEngine';
+import { CATEGORY_LABELS, architectureToMarkdown, countBySeverity, sortFindings } from './findings';
+
+export type ReportFormat = 'sarif' | 'json' | 'markdown' | 'html';
+
+export const REPORT_FORMATS: { format: ReportFormat; label: string; extension: string; mimeType: string }[] = [
+  { format: 'sarif', label: 'SARIF', extension: 'sarif', mimeType: 'application/sarif+json' },
+  { format: 'json', label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  { format: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { format: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+];
+
+const TOOL_NAME = 'Gemini Code Reviewer';
+const TOOL_URI = 'https://github.com/special-place-administrator/Gemini-code-review-001';
+
+// The executive summary numbers of a scan, finished or not.
+export interface ScanSummary {
+  scope: string;
+  isDiff: boolean;
+  total: number;
+  // Whether every file in the tree or diff was listed, or null if not known (older scans).
+  listingComplete: boolean | null;
+  analyzed: number;
+  withIssues: number;
+  findings: number;
+  bySeverity: Record<FindingSeverity, number>;
+  errors: number;
+  fromCache: number;
+}
+
+// Everything an exported report contains. This is also the shape of the JSON export.
+export interface ScanReport {
+  parameters: {
+    repoUrl: string;
+    scope: string;
+    commitSha: string;
+    model: string;
+    // The name of the review profile.
+    profile: string;
+    status: ScanStatus;
+    startedAt: string;
+    generatedAt: string;
+    include: string[];
+    exclude: string[];
+  };
+  summary: ScanSummary;
+  reviews: FileReview[];
+  errors: FileError[];
+  skipped: FileSkip[];
+  architecture?: ArchitectureReview;
+}
+
+/**
+ * Builds the executive summary numbers for a scan, finished or not.
+ * @param job The scan job.
+ * @returns The summary.
+ */
+export const summarizeScan = (job: ScanJob): ScanSummary => {
+  const allFindings = job.reviews.flatMap(review => review.findings);
+  return {
+    scope: job.scope,
+    isDiff: job.isDiff,
+    total: job.totalFiles,
+    listingComplete: job.listingComplete ?? null,
+    analyzed: job.completed.length,
+    withIssues: job.reviews.length,
+    findings: allFindings.length,
+    bySeverity: countBySeverity(allFindings),
+    errors: job.errors.length,
+    fromCache: job.fromCache || 0,
+  };
+};
+
+/**
+ * Collects a scan's results and the parameters it ran with into a report.
+ * @param job The scan job.
+ * @param generatedAt When the report is generated. Defaults to now.
+ * @returns The report.
+ */
+export const buildScanReport = (job: ScanJob, generatedAt = new Date()): ScanReport => ({
+  parameters: {
+    repoUrl: job.repoUrl,
+    scope: job.scope,
+    commitSha: job.commitSha,
+    model: job.model || 'unknown',
+    profile: job.profile?.name || DEFAULT_REVIEW_PROFILE.name,
+    status: job.status,
+    startedAt: new Date(job.createdAt).toISOString(),
+    generatedAt: generatedAt.toISOString(),
+    include: job.rules.include,
+    exclude: job.rules.exclude,
+  },
+  summary: summarizeScan(job),
+  reviews: job.reviews.map(review => ({ ...review, findings: sortFindings(review.findings) })),
+  errors: job.errors,
+  skipped: job.skipped,
+  ...(job.architecture ? { architecture: job.architecture } : {}),
+});
+
+// SARIF only has three result levels.
+const SARIF_LEVELS: Record<FindingSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note',
+  info: 'note',
+};
+
+// A commit on a remote repository. Local scans have a directory for a repository and no commit to point at.
+const isVersionControlled = ({ repoUrl, commitSha }: ScanReport['parameters']): boolean =>
+  /^https?:\/\//.test(repoUrl) && /^[0-9a-f]{7,64}$/i.test(commitSha);
+
+/**
+ * Renders a report as a SARIF 2.1.0 log, for code-scanning dashboards. Each finding category is a rule,
+ * scan errors are tool notifications, and the summary and parameters are run properties.
+ * @param report The report.
+ * @returns The SARIF JSON text.
+ */
+export const reportToSarif = (report: ScanReport): string => {
+  const { parameters, summary } = report;
+  const fileResults = report.reviews.flatMap(review => review.findings.map(finding => {
+    const location = { artifactLocation: { uri: review.path, uriBaseId: '%SRCROOT%' } };
+    const region = { startLine: finding.startLine, endLine: finding.endLine };
+    return {
+      ruleId: finding.category,
+      ruleIndex: FINDING_CATEGORIES.indexOf(finding.category),
+      level: SARIF_LEVELS[finding.severity],
+      message: { text: finding.message },
+      locations: [{ physicalLocation: { ...location, region } }],
+      ...(finding.fix ? {
+        fixes: [{
+          description: { text: 'Suggested fix' },
+          artifactChanges: [{
+            ...location,
+            replacements: [{
+              deletedRegion: { startLine: finding.fix.startLine, endLine: finding.fix.endLine },
+              insertedContent: { text: finding.fix.replacement },
+            }],
+          }],
+        }],
+      } : {}),
+      properties: { severity: finding.severity },
+    };
+  }));
+  // Architecture findings are about whole files or directories, so they have locations but no regions.
+  const architectureResults = (report.architecture?.findings || []).map(finding => ({
+    ruleId: finding.category,
+    ruleIndex: FINDING_CATEGORIES.indexOf(finding.category),
+    level: SARIF_LEVELS[finding.severity],
+    message: { text: finding.message },
+    locations: finding.paths.map(path => ({ physicalLocation: { artifactLocation: { uri: path, uriBaseId: '%SRCROOT%' } } })),
+    properties: { severity: finding.severity, pass: 'architecture' },
+  }));
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: TOOL_NAME,
+          informationUri: TOOL_URI,
+          rules: FINDING_CATEGORIES.map(category => ({ id: category, name: CATEGORY_LABELS[category], shortDescription: { text: CATEGORY_LABELS[category] } })),
+        },
+      },
+      invocations: [{
+        executionSuccessful: report.errors.length === 0 && parameters.status === 'completed',
+        startTimeUtc: parameters.startedAt,
+        endTimeUtc: parameters.generatedAt,
+        toolExecutionNotifications: report.errors.map(error => ({
+          level: 'error',
+          message: { text: error.error },
+          locations: [{ physicalLocation: { artifactLocation: { uri: error.path, uriBaseId: '%SRCROOT%' } } }],
+        })),
+      }],
+      ...(isVersionControlled(parameters) ? { versionControlProvenance: [{ repositoryUri: parameters.repoUrl, revisionId: parameters.commitSha }] } : {}),
+      results: [...fileResults, ...architectureResults],
+      properties: { parameters, summary, skipped: report.skipped },
+    }],
+  };
+  return JSON.stringify(sarif, null, 2);
+};
+
+/**
+ * Renders a report as JSON.
+ * @param report The report.
+ * @returns The JSON text.
+ */
+export const reportToJson = (report: ScanReport): string => JSON.stringify(report, null, 2);
+
+/**
+ * Renders a report as a single Markdown document.
+ * @param report The report.
+ * @returns The Markdown text.
+ */
+export const reportToMarkdown = (report: ScanReport): string => {
+  const { parameters, summary } = report;
+  const sections: string[] = [`# Code Review Report: ${parameters.scope}`];
+
+  sections.push([
+    '## Scan Parameters',
+    '',
+    `- **Repository:** ${parameters.repoUrl}`,
+    `- **Scope:** ${parameters.scope}`,
+    `- **Commit:** \`${parameters.commitSha}\``,
+    `- **Model:** ${parameters.model}`,
+    `- **Review profile:** ${parameters.profile}`,
+    `- **Started:** ${parameters.startedAt}`,
+    `- **Generated:** ${parameters.generatedAt}`,
+    `- **Status:** ${parameters.status}${parameters.status === 'completed' ? '' : ' (results are partial)'}`,
+    ...(parameters.include.length ? [`- **Include:** ${parameters.include.map(p => `\`${p}\``).join(', ')}`] : []),
+    `- **Exclude:** ${parameters.exclude.length ? parameters.exclude.map(p => `\`${p}\``).join(', ') : 'none'}`,
+  ].join('\n'));
+
+  sections.push([
+    '## Executive Summary',
+    '',
+    `- **${summary.isDiff ? 'Changed files' : 'Total files'}:** ${summary.total}`,
+    ...(summary.listingComplete === null ? [] : [`- **File listing:** ${summary.listingComplete ? 'complete' : 'incomplete; there were too many files to list in full, so some files were not scanned'}`]),
+    `- **Files analyzed:** ${summary.analyzed}${summary.fromCache > 0 ? ` (${summary.fromCache} from cache)` : ''}`,
+    `- **Issues found:** ${summary.findings} in ${summary.withIssues} file(s)`,
+    `- **By severity:** ${FINDING_SEVERITIES.map(severity => `${summary.bySeverity[severity]} ${severity}`).join(' · ')}`,
+    `- **Scan errors:** ${summary.errors}`,
+  ].join('\n'));
+
+  if (report.errors.length > 0) {
+    sections.push(`## Scan Errors\n\n${report.errors.map(e => `- \`${e.path}\`: ${e.error}`).join('\n')}`);
+  }
+  if (report.skipped.length > 0) {
+    sections.push(`## Skipped Files\n\n${report.skipped.map(s => `- \`${s.path}\`: ${s.reason}`).join('\n')}`);
+  }
+
+  if (report.architecture) {
+    sections.push(`## Architecture Review\n\n${architectureToMarkdown(report.architecture)}`);
+  }
+
+  sections.push('## Findings');
+  if (report.reviews.length === 0) {
+    sections.push('No issues found.');
+  }
+  report.reviews.forEach(review => {
+    // File feedback uses level-3 headings; nest them under the file's own heading.
+    const feedback = review.rawFeedback.replace(/^### /gm, '#### ');
+    sections.push(`### \`${review.path}\` (${review.findings.length} issue(s))\n\n${feedback}`);
+  });
+
+  return sections.join('\n\n') + '\n';
+};
+
+const HTML_STYLES = `
+  body { font-family: system-ui, sans-serif; max-width: 960px; margin: 2rem auto; padding: 0 1rem; color: #1f2937; line-height: 1.5; }
+  h1, h2 { border-bottom: 1px solid #e5e7eb; padding-bottom: .3rem; }
+  h3 { margin-top: 2rem; color: #0e7490; }
+  code { background: #f3f4f6; padding: .1rem .3rem; border-radius: 4px; }
+  pre { background: #111827; color: #f9fafb; padding: 1rem; border-radius: 6px; overflow-x: auto; }
+  pre code { background: none; padding: 0; }
+`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Model feedback can contain raw HTML, e.g. a quoted `<script>` tag; it is shown as text so the report never runs it.
+const reportMarked = new Marked({ useNewRenderer: true, renderer: { html: ({ text }) => escapeHtml(text) } });
+
+/**
+ * Renders a report as a self-contained HTML page, with no external scripts or styles.
+ * @param report The report.
+ * @returns The HTML text.
+ */
+export const reportToHtml = (report: ScanReport): string => {
+  const body = reportMarked.parse(reportToMarkdown(report), { async: false }) as string;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Code Review Report: ${escapeHtml(report.parameters.scope)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+};
+
+/**
+ * Renders a report in the given format, with a suggested file name.
+ * @param report The report.
+ * @param format The export format.
+ * @returns The file name, MIME type and content.
+ */
+export const exportReport = (report: ScanReport, format: ReportFormat): { filename: string; mimeType: string; content: string } => {
+  const { extension, mimeType } = REPORT_FORMATS.find(f => f.format === format)!;
+  const renderers: Record<ReportFormat, (report: ScanReport) => string> = {
+    sarif: reportToSarif,
+    json: reportToJson,
+    markdown: reportToMarkdown,
+    html: reportToHtml,
+  };
+  const name = report.parameters.scope.replace(/[^\w.-]+/g, '-').replace(/^-+|-+$/g, '') || 'scan';
+  return { filename: `code-review-${name}.${extension}`, mimeType, content: renderers[format](report) };
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { FileReview, ReviewFinding } from '../types';
+import { EMPTY_RESULTS_FILTER, buildDirectoryHeatmap, compareReviewsByRisk, filterReviews, isUnderDirectory } from './resultsFilter';
+
+const finding = (changes: Partial<ReviewFinding>): ReviewFinding =>
+  ({ category: 'bugs', severity: 'medium', startLine: 1, endLine: 1, message: 'Off-by-one in the loop bound.', ...changes });
+
+const review = (path: string, findings: ReviewFinding[], summary = ''): FileReview =>
+  ({ path, summary, findings, rawFeedback: '', htmlFeedback: '' });
+
+const REVIEWS = [
+  review('src/api/client.ts', [finding({ severity: 'critical', category: 'security', message: 'Token is logged.' }), finding({ severity: 'low' })]),
+  review('src/ui/button.tsx', [finding({ severity: 'high' })], 'Renders the primary button.'),
+  review('scripts/build.py', [finding({ severity: 'info', category: 'style', message: 'Long line.' })]),
+];
+
+describe('isUnderDirectory', () => {
+  it('matches the directory and its subdirectories, but not a sibling with the same prefix', () => {
+    expect(isUnderDirectory('src/api/client.ts', 'src')).toBe(true);
+    expect(isUnderDirectory('srcs/client.ts', 'src')).toBe(false);
+    expect(isUnderDirectory('client.ts', '')).toBe(true);
+  });
+});
+
+describe('filterReviews', () => {
+  it('keeps everything with the empty filter', () => {
+    expect(filterReviews(REVIEWS, EMPTY_RESULTS_FILTER)).toEqual(REVIEWS);
+  });
+
+  it('keeps only matching findings and drops files left without any', () => {
+    const shown = filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, minSeverity: 'high' });
+    expect(shown.map(item => [item.path, item.findings.length])).toEqual([['src/api/client.ts', 1], ['src/ui/button.tsx', 1]]);
+  });
+
+  it('filters by category, language and directory', () => {
+    expect(filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, categories: ['style'] }).map(item => item.path)).toEqual(['scripts/build.py']);
+    expect(filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, language: 'Python' }).map(item => item.path)).toEqual(['scripts/build.py']);
+    expect(filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, directory: 'src/ui' }).map(item => item.path)).toEqual(['src/ui/button.tsx']);
+  });
+
+  it('needs every search word in the finding, its path or the file summary', () => {
+    expect(filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, query: 'TOKEN api' }).map(item => item.findings.length)).toEqual([1]);
+    expect(filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, query: 'primary button' }).map(item => item.path)).toEqual(['src/ui/button.tsx']);
+    expect(filterReviews(REVIEWS, { ...EMPTY_RESULTS_FILTER, query: 'token button' })).toEqual([]);
+  });
+});
+
+describe('compareReviewsByRisk', () => {
+  it('puts the files with the most severe findings first, then sorts by path', () => {
+    const sorted = [...REVIEWS, review('a.ts', [finding({ severity: 'high' })])].sort(compareReviewsByRisk);
+    expect(sorted.map(item => item.path)).toEqual(['src/api/client.ts', 'a.ts', 'src/ui/button.tsx', 'scripts/build.py']);
+  });
+});
+
+describe('buildDirectoryHeatmap', () => {
+  it('weighs findings by severity per directory, hottest first', () => {
+    const heatmap = buildDirectoryHeatmap([...REVIEWS, review('main.ts', [finding({ severity: 'low' })])], 1);
+    expect(heatmap.map(row => [row.directory, row.files, row.heat])).toEqual([['src', 2, 16 + 1 + 8], ['', 1, 1], ['scripts', 1, 0]]);
+  });
+
+  it('groups by deeper directories', () => {
+    expect(buildDirectoryHeatmap(REVIEWS, 2).map(row => row.directory)).toEqual(['src/api', 'src/ui', 'scripts']);
+  });
+});
@@ -0,0 +1,102 @@
+// Narrows, ranks and summarises the file reviews of a scan, so a large scan can be triaged quickly.
+import { getLanguageForFile } from '../constants';
+import { FINDING_SEVERITIES, FileReview, FindingCategory, FindingSeverity, ReviewFinding } from '../types';
+import { countBySeverity, severityRank } from './findings';
+
+export interface ResultsFilter {
+  // The least severe findings to show.
+  minSeverity: FindingSeverity;
+  // The categories to show; empty for all of them.
+  categories: FindingCategory[];
+  // The language to show, from `getLanguageForFile`, or empty for all of them.
+  language: string;
+  // The directory to show, e.g. `services/providers`, or empty for the whole scan.
+  directory: string;
+  // Words that must all appear in a finding, its file path or the file's summary (case-insensitive).
+  query: string;
+}
+
+export const EMPTY_RESULTS_FILTER: ResultsFilter = { minSeverity: 'info', categories: [], language: '', directory: '', query: '' };
+
+// Weights of each severity in a directory's heat, most severe first.
+const HEAT_WEIGHTS: Record<FindingSeverity, number> = { critical: 16, high: 8, medium: 3, low: 1, info: 0 };
+
+/**
+ * Checks whether a file is in a directory or one of its subdirectories.
+ * @param path The file path.
+ * @param directory The directory, or empty for the root.
+ * @returns True if the file is under the directory.
+ */
+export const isUnderDirectory = (path: string, directory: string): boolean =>
+  !directory || path.startsWith(`${directory}/`);
+
+/**
+ * Applies a filter to file reviews. Files are kept with only their matching findings, and dropped if none match.
+ * @param reviews The file reviews.
+ * @param filter The filter.
+ * @returns The matching reviews.
+ */
+export const filterReviews = (reviews: FileReview[], filter: ResultsFilter): FileReview[] => {
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const matchesQuery = (review: FileReview, finding: ReviewFinding) => {
+    if (words.length === 0) return true;
+    const text = [review.path, review.summary, finding.category, finding.message, finding.fix?.replacement || ''].join('\n').toLowerCase();
+    return words.every(word => text.includes(word));
+  };
+  return reviews.flatMap(review => {
+    if (!isUnderDirectory(review.path, filter.directory)) return [];
+    if (filter.language && (getLanguageForFile(review.path) || 'Other') !== filter.language) return [];
+    const findings = review.findings.filter(finding =>
+      severityRank(finding.severity) <= severityRank(filter.minSeverity)
+      && (filter.categories.length === 0 || filter.categories.includes(finding.category))
+      && matchesQuery(review, finding));
+    return findings.length > 0 ? [{ ...review, findings }] : [];
+  });
+};
+
+/**
+ * Orders files by risk: the most critical findings first, then the most high findings, and so on down the
+ * severities, then by path.
+ * @param a A file review.
+ * @param b Another file review.
+ * @returns A negative number if `a` should come first.
+ */
+export const compareReviewsByRisk = (a: FileReview, b: FileReview): number => {
+  const countsA = countBySeverity(a.findings);
+  const countsB = countBySeverity(b.findings);
+  for (const severity of FINDING_SEVERITIES) {
+    if (countsA[severity] !== countsB[severity]) return countsB[severity] - countsA[severity];
+  }
+  return a.path.localeCompare(b.path);
+};
+
+// The findings of one directory, for the heatmap.
+export interface DirectoryHeat {
+  // The directory, or empty for files at the root.
+  directory: string;
+  files: number;
+  bySeverity: Record<FindingSeverity, number>;
+  // Findings weighted by severity; higher is worse.
+  heat: number;
+}
+
+/**
+ * Adds up findings per directory, down to a given depth, hottest first.
+ * @param reviews The file reviews.
+ * @param depth How many path segments make a directory, e.g. 1 for top-level directories.
+ * @returns One entry per directory with findings.
+ */
+export const buildDirectoryHeatmap = (reviews: FileReview[], depth: number): DirectoryHeat[] => {
+  const byDirectory = new Map<string, FileReview[]>();
+  reviews.forEach(review => {
+    const directory = review.path.split('/').slice(0, -1).slice(0, depth).join('/');
+    byDirectory.set(directory, [...(byDirectory.get(directory) || []), review]);
+  });
+  return [...byDirectory.entries()]
+    .map(([directory, directoryReviews]) => {
+      const bySeverity = countBySeverity(directoryReviews.flatMap(review => review.findings));
+      const heat = FINDING_SEVERITIES.reduce((sum, severity) => sum + bySeverity[severity] * HEAT_WEIGHTS[severity], 0);
+      return { directory, files: directoryReviews.length, bySeverity, heat };
+    })
+    .sort((a, b) => b.heat - a.heat || a.directory.localeCompare(b.directory));
+};
@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseRetryAfter } from './retry';
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads a number of seconds', () => {
+    expect(parseRetryAfter('30')).toBe(30_000);
+    expect(parseRetryAfter('0')).toBe(0);
+  });
+
+  it('reads an HTTP date as the time left until it', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+    expect(parseRetryAfter('Sun, 01 Jun 2025 12:01:30 GMT')).toBe(90_000);
+    expect(parseRetryAfter('Sun, 01 Jun 2025 11:00:00 GMT')).toBe(0);
+  });
+
+  it('returns null for a missing or unreadable header', () => {
+    expect(parseRetryAfter(null)).toBeNull();
+    expect(parseRetryAfter(' ')).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Waits for the given time, rejecting early if the signal is aborted.
+ * @param ms How long to wait, in milliseconds.
+ * @param signal An optional abort signal.
+ * @returns A promise that resolves after the delay.
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Checks whether an HTTP status is worth retrying: rate limiting (429) or a server error (5xx).
+ * @param status The HTTP status code.
+ * @returns True if the request may succeed when retried.
+ */
+export const isRetryableStatus = (status: number): boolean => status === 429 || (status >= 500 && status < 600);
+
+/**
+ * Reads a `Retry-After` header, which holds either a number of seconds or an HTTP date.
+ * @param value The header value.
+ * @returns How long to wait in milliseconds, or null if there is no header or it cannot be read.
+ */
+export const parseRetryAfter = (value: string | null): number | null => {
+  if (!value?.trim()) return null;
+  const seconds = Number(value);
+  const ms = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(value) - Date.now();
+  return Number.isFinite(ms) ? Math.max(0, ms) : null;
+};
+
+/**
+ * Exponential backoff with jitter for the given attempt.
+ * @param attempt The zero-based retry attempt.
+ * @param baseDelayMs The delay before the first retry.
+ * @returns The delay in milliseconds.
+ */
+export const backoffDelay = (attempt: number, baseDelayMs = 1000): number =>
+  baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+
+interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  signal?: AbortSignal;
+  isRetryable: (error: unknown) => boolean;
+}
+
+/**
+ * Runs an async function, retrying it with exponential backoff while it fails with a retryable error.
+ * @param fn The function to run.
+ * @param options How many times to retry, the initial delay, an abort signal and which errors to retry.
+ * @returns A promise that resolves to the function's result, or rejects with its last error.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, { retries = 3, baseDelayMs = 1000, signal, isRetryable }: RetryOptions): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (signal?.aborted || attempt >= retries || !isRetryable(error)) {
+        throw error;
+      }
+      await sleep(backoffDelay(attempt, baseDelayMs), signal);
+    }
+  }
+};
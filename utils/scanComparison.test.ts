@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { FileReview, ReviewFinding } from '../types';
+import type { ScanJob } from '../services/scanEngine';
+import { DEFAULT_FILE_FILTER_RULES } from './fileFilter';
+import { compareScans, getScanRepoKey } from './scanComparison';
+
+const finding = (changes: Partial<ReviewFinding>): ReviewFinding =>
+  ({ category: 'security', severity: 'high', startLine: 1, endLine: 1, message: 'User input is passed to eval.', ...changes });
+
+const review = (path: string, findings: ReviewFinding[]): FileReview =>
+  ({ path, summary: '', findings, rawFeedback: '', htmlFeedback: '' });
+
+const job = (changes: Partial<ScanJob>): ScanJob => ({
+  id: 'job',
+  source: 'remote',
+  repoUrl: 'https://github.com/acme/app',
+  owner: 'acme',
+  repo: 'app',
+  scope: 'acme/app',
+  isDiff: false,
+  commitSha: 'abc',
+  totalFiles: 0,
+  files: [],
+  rules: DEFAULT_FILE_FILTER_RULES,
+  completed: [],
+  reviews: [],
+  errors: [],
+  skipped: [],
+  fromCache: 0,
+  status: 'completed',
+  createdAt: 0,
+  updatedAt: 0,
+  ...changes,
+});
+
+describe('getScanRepoKey', () => {
+  it('identifies remote scans by host, owner and repository, ignoring case', () => {
+    expect(getScanRepoKey(job({ owner: 'Acme', repo: 'App' }))).toBe('github.com/acme/app');
+  });
+
+  it('identifies local scans by their folder', () => {
+    expect(getScanRepoKey(job({ source: 'local', repoUrl: 'local:app' }))).toBe('local:app');
+  });
+});
+
+describe('compareScans', () => {
+  it('matches findings worded differently on nearby lines, and reports new and resolved ones', () => {
+    const before = job({
+      files: [{ path: 'a.ts' }],
+      completed: ['a.ts'],
+      reviews: [review('a.ts', [
+        finding({ startLine: 10, endLine: 10 }),
+        finding({ startLine: 30, endLine: 30, category: 'style', message: 'Unused variable count.' }),
+      ])],
+    });
+    const after = job({
+      files: [{ path: 'a.ts' }],
+      completed: ['a.ts'],
+      reviews: [review('a.ts', [
+        finding({ startLine: 12, endLine: 12, message: 'Untrusted user input is passed to eval here.' }),
+        finding({ startLine: 50, endLine: 50, category: 'bugs', message: 'Off-by-one in the loop bound.' }),
+      ])],
+    });
+    const comparison = compareScans(before, after);
+    expect(comparison.unchanged.map(item => item.finding.startLine)).toEqual([12]);
+    expect(comparison.added.map(item => item.finding.startLine)).toEqual([50]);
+    expect(comparison.resolved.map(item => item.finding.startLine)).toEqual([30]);
+    expect(comparison.notCompared).toEqual([]);
+  });
+
+  it('leaves out files one scan listed but did not review, so their findings do not count as resolved', () => {
+    const before = job({ files: [{ path: 'a.ts' }], completed: ['a.ts'], reviews: [review('a.ts', [finding({})])] });
+    const after = job({ files: [{ path: 'a.ts' }], completed: ['a.ts'], errors: [{ path: 'a.ts', error: 'Timed out' }] });
+    const comparison = compareScans(before, after);
+    expect(comparison.resolved).toEqual([]);
+    expect(comparison.notCompared).toEqual(['a.ts']);
+  });
+
+  it('compares files only one scan had', () => {
+    const before = job({ files: [{ path: 'old.ts' }], completed: ['old.ts'], reviews: [review('old.ts', [finding({})])] });
+    const after = job({ files: [{ path: 'new.ts' }], completed: ['new.ts'], reviews: [review('new.ts', [finding({})])] });
+    const comparison = compareScans(before, after);
+    expect(comparison.resolved.map(item => item.path)).toEqual(['old.ts']);
+    expect(comparison.added.map(item => item.path)).toEqual(['new.ts']);
+  });
+});
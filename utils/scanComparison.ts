@@ -0,0 +1,127 @@
+// Compares two scans of the same repository: which findings are new, which were resolved and which remain.
+import { ReviewFinding } from '../types';
+import type { ScanJob } from '../services/scanEngine';
+import { sortFindings } from './findings';
+
+// The model words the same finding differently from run to run, so findings match on similar messages
+// and nearby lines rather than exact text.
+const MATCH_THRESHOLD = 0.5;
+const NEARBY_LINES = 5;
+const NEARBY_BONUS = 0.25;
+
+export interface ComparedFinding {
+  path: string;
+  finding: ReviewFinding;
+}
+
+export interface ScanComparison {
+  // Findings only in the newer scan.
+  added: ComparedFinding[];
+  // Findings only in the older scan.
+  resolved: ComparedFinding[];
+  // Findings in both scans, as they were reported in the newer one.
+  unchanged: ComparedFinding[];
+  // Files one scan reviewed but the other listed and did not review (stopped or failed), so they are left out.
+  notCompared: string[];
+}
+
+/**
+ * Identifies the repository a scan is of, so only scans of the same repository are compared.
+ * @param job The scan.
+ * @returns The host, owner and repository for remote scans, or the folder name for local ones.
+ */
+export const getScanRepoKey = (job: ScanJob): string => {
+  if (job.source === 'local') return job.repoUrl;
+  let host = '';
+  try {
+    host = new URL(job.repoUrl).host;
+  } catch {
+    // Older saved scans are all from GitHub.
+  }
+  return `${host}/${job.owner}/${job.repo}`.toLowerCase();
+};
+
+const words = (text: string) => new Set(text.toLowerCase().split(/\W+/).filter(word => word.length > 2));
+
+/**
+ * Scores how likely two findings in the same file are the same issue.
+ * @param a A finding from one scan.
+ * @param b A finding from the other.
+ * @returns 0 for different categories; otherwise the overlap of their wording, plus a bonus if they are close together.
+ */
+const matchScore = (a: ReviewFinding, b: ReviewFinding): number => {
+  if (a.category !== b.category) return 0;
+  const wordsA = words(a.message);
+  const wordsB = words(b.message);
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const union = wordsA.size + wordsB.size - shared;
+  const similarity = union ? shared / union : 1;
+  return similarity + (Math.abs(a.startLine - b.startLine) <= NEARBY_LINES ? NEARBY_BONUS : 0);
+};
+
+/**
+ * Lists the findings of a scan by file.
+ * @param job The scan.
+ * @returns The findings of each reviewed file.
+ */
+const findingsByPath = (job: ScanJob): Map<string, ReviewFinding[]> =>
+  new Map(job.reviews.map(review => [review.path, review.findings]));
+
+/**
+ * The files a scan reviewed successfully. Failed files have no findings, which must not count as resolved.
+ * @param job The scan.
+ * @returns The paths.
+ */
+const reviewedPaths = (job: ScanJob): Set<string> => {
+  const failed = new Set(job.errors.map(error => error.path));
+  return new Set(job.completed.filter(path => !failed.has(path)));
+};
+
+/**
+ * Compares an older and a newer scan of the same repository. A file counts if both scans reviewed it, or if
+ * only one scan had it at all (added or deleted files).
+ * @param before The older scan.
+ * @param after The newer scan.
+ * @returns The new, resolved and unchanged findings, and the files that could not be compared.
+ */
+export const compareScans = (before: ScanJob, after: ScanJob): ScanComparison => {
+  const comparison: ScanComparison = { added: [], resolved: [], unchanged: [], notCompared: [] };
+  const reviewedBefore = reviewedPaths(before);
+  const reviewedAfter = reviewedPaths(after);
+  const listedBefore = new Set(before.files.map(file => file.path));
+  const listedAfter = new Set(after.files.map(file => file.path));
+  const findingsBefore = findingsByPath(before);
+  const findingsAfter = findingsByPath(after);
+
+  const paths = [...new Set([...reviewedBefore, ...reviewedAfter])].sort();
+  for (const path of paths) {
+    const comparable = (reviewedBefore.has(path) || !listedBefore.has(path)) && (reviewedAfter.has(path) || !listedAfter.has(path));
+    if (!comparable) {
+      comparison.notCompared.push(path);
+      continue;
+    }
+    const old = findingsBefore.get(path) || [];
+    const current = findingsAfter.get(path) || [];
+
+    // Pair the most alike findings first, each finding at most once.
+    const pairs = old.flatMap((a, i) => current.map((b, j) => ({ i, j, score: matchScore(a, b) })))
+      .filter(pair => pair.score >= MATCH_THRESHOLD)
+      .sort((a, b) => b.score - a.score);
+    const matchedOld = new Set<number>();
+    const matchedCurrent = new Set<number>();
+    pairs.forEach(({ i, j }) => {
+      if (matchedOld.has(i) || matchedCurrent.has(j)) return;
+      matchedOld.add(i);
+      matchedCurrent.add(j);
+    });
+
+    sortFindings(current).forEach(finding => {
+      const list = matchedCurrent.has(current.indexOf(finding)) ? comparison.unchanged : comparison.added;
+      list.push({ path, finding });
+    });
+    sortFindings(old).forEach(finding => {
+      if (!matchedOld.has(old.indexOf(finding))) comparison.resolved.push({ path, finding });
+    });
+  }
+  return comparison;
+};
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewFinding } from '../types';
+import { isSuppressed, parseSuppressions } from './suppressions';
+
+const finding = (line: number, category: ReviewFinding['category'] = 'security'): ReviewFinding =>
+  ({ category, severity: 'high', startLine: line, endLine: line, message: 'Finding.' });
+
+describe('parseSuppressions', () => {
+  it('applies a comment on its own line to the line below, and one after code to its own line', () => {
+    const code = [
+      '// review-ignore',
+      'eval(input);',
+      'eval(other); # review-ignore',
+      'eval(third);',
+    ].join('\n');
+    const suppressions = parseSuppressions(code);
+    expect(isSuppressed(suppressions, finding(2))).toBe(true);
+    expect(isSuppressed(suppressions, finding(3))).toBe(true);
+    expect(isSuppressed(suppressions, finding(4))).toBe(false);
+  });
+
+  it('limits a comment to the categories it lists', () => {
+    const suppressions = parseSuppressions('/* review-ignore: style, performance */\nrun();');
+    expect(isSuppressed(suppressions, finding(2, 'style'))).toBe(true);
+    expect(isSuppressed(suppressions, finding(2, 'performance'))).toBe(true);
+    expect(isSuppressed(suppressions, finding(2, 'security'))).toBe(false);
+  });
+
+  it('ignores a comment that lists only unknown categories', () => {
+    const suppressions = parseSuppressions('-- review-ignore: secuirty\nSELECT 1;');
+    expect(isSuppressed(suppressions, finding(2))).toBe(false);
+  });
+
+  it('applies a file-wide comment to every line', () => {
+    const suppressions = parseSuppressions('<!-- review-ignore-file: style -->\n<p>\n<div>');
+    expect(isSuppressed(suppressions, finding(3, 'style'))).toBe(true);
+    expect(isSuppressed(suppressions, finding(3, 'bugs'))).toBe(false);
+  });
+});
+
+describe('isSuppressed', () => {
+  it('suppresses a finding when any of its lines is covered', () => {
+    const suppressions = parseSuppressions('a();\nb(); // review-ignore\nc();');
+    expect(isSuppressed(suppressions, { ...finding(1), endLine: 3 })).toBe(true);
+    expect(isSuppressed(suppressions, finding(3))).toBe(false);
+  });
+});
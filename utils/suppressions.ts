@@ -0,0 +1,64 @@
+// Suppression comments in reviewed code, which hide findings the team has decided not to act on:
+//
+//   // review-ignore               every finding on the next line, or on this line after code
+//   // review-ignore: security     only security findings there (a comma-separated list of categories)
+//   # review-ignore-file: style    style findings anywhere in the file
+//
+// Any common comment marker works (`//`, `/*`, `#`, `--`, `;`, `<!--`).
+import { FINDING_CATEGORIES, FindingCategory, ReviewFinding } from '../types';
+
+const SUPPRESSION_REGEX = /(?:\/\/|\/\*|#|--|;|<!--)\s*review-ignore(-file)?\b(?:\s*:\s*([a-z][a-z ,]*))?/i;
+
+// The categories a comment covers; `null` means all of them.
+type SuppressedCategories = Set<FindingCategory> | null;
+
+export interface Suppressions {
+  // Suppressions for the whole file.
+  file: SuppressedCategories[];
+  // Suppressions by the 1-based line they cover.
+  lines: Map<number, SuppressedCategories[]>;
+}
+
+/**
+ * Finds the suppression comments in code.
+ * @param code The code.
+ * @returns The file-wide and per-line suppressions.
+ */
+export const parseSuppressions = (code: string): Suppressions => {
+  const suppressions: Suppressions = { file: [], lines: new Map() };
+  code.split('\n').forEach((line, i) => {
+    const match = line.match(SUPPRESSION_REGEX);
+    if (!match) return;
+    let categories: SuppressedCategories = null;
+    if (match[2]) {
+      const names = match[2].split(',').map(name => name.trim().toLowerCase());
+      categories = new Set(FINDING_CATEGORIES.filter(category => names.includes(category)));
+      // A list of only unknown categories is most likely a typo; it suppresses nothing rather than everything.
+      if (categories.size === 0) return;
+    }
+    if (match[1]) {
+      suppressions.file.push(categories);
+      return;
+    }
+    // A comment after code is about that code; a comment on a line of its own is about the line below.
+    const covered = line.slice(0, match.index).trim() ? i + 1 : i + 2;
+    suppressions.lines.set(covered, [...(suppressions.lines.get(covered) || []), categories]);
+  });
+  return suppressions;
+};
+
+const covers = (categories: SuppressedCategories, category: FindingCategory) => categories === null || categories.has(category);
+
+/**
+ * Checks whether a finding is suppressed: by a file-wide comment, or by a comment covering one of its lines.
+ * @param suppressions The suppressions, from `parseSuppressions`.
+ * @param finding The finding.
+ * @returns True if the finding should be left out.
+ */
+export const isSuppressed = (suppressions: Suppressions, finding: ReviewFinding): boolean => {
+  if (suppressions.file.some(categories => covers(categories, finding.category))) return true;
+  for (let line = finding.startLine; line <= finding.endLine; line++) {
+    if (suppressions.lines.get(line)?.some(categories => covers(categories, finding.category))) return true;
+  }
+  return false;
+};
@@ -0,0 +1,87 @@
+// Triage of scan findings: each finding can be given a status and a note, and dismissed findings stay hidden in
+// later scans of the same repository as long as the code they are about is unchanged.
+import { marked } from 'marked';
+import { getLanguageForFile } from '../constants';
+import { FindingCategory, ReviewFinding } from '../types';
+import type { ScanJob } from '../services/scanEngine';
+import { findingsToMarkdown } from './findings';
+import { fnv1aHex } from './hash';
+import { getScanRepoKey } from './scanComparison';
+
+export type TriageStatus = 'open' | 'accepted' | 'wont-fix' | 'false-positive';
+
+export const TRIAGE_STATUSES: TriageStatus[] = ['open', 'accepted', 'wont-fix', 'false-positive'];
+
+export const TRIAGE_STATUS_LABELS: Record<TriageStatus, string> = {
+  open: 'Open',
+  accepted: 'Accepted',
+  'wont-fix': "Won't fix",
+  'false-positive': 'False positive',
+};
+
+// The triage of one finding, matched in later scans by repository, file, category and fingerprint.
+export interface TriageRecord {
+  id: string;
+  repoKey: string;
+  path: string;
+  category: FindingCategory;
+  fingerprint: string;
+  status: TriageStatus;
+  note: string;
+  // The finding's message when it was triaged, to show what was dismissed.
+  message: string;
+  updatedAt: number;
+}
+
+/**
+ * Fingerprints a finding by its category and the code on its lines. Whitespace is ignored, so the fingerprint
+ * survives reformatting and the code moving to other lines, but not changes to the code itself.
+ * @param lines The lines of the reviewed code.
+ * @param finding The finding.
+ * @returns The fingerprint.
+ */
+export const fingerprintFinding = (lines: string[], finding: ReviewFinding): string => {
+  const code = lines.slice(finding.startLine - 1, finding.endLine).map(line => line.replace(/\s+/g, ' ').trim()).join('\n');
+  return fnv1aHex(`${finding.category}\n${code}`);
+};
+
+/**
+ * Builds the id a finding's triage is stored under.
+ * @param repoKey The repository, from `getScanRepoKey`.
+ * @param path The file path.
+ * @param finding The finding, which must have a fingerprint.
+ * @returns The id.
+ */
+export const getTriageId = (repoKey: string, path: string, finding: ReviewFinding): string =>
+  [repoKey, path, finding.category, finding.fingerprint].join('|');
+
+/**
+ * Checks whether a status takes a finding out of the results.
+ * @param status The status.
+ * @returns True for won't fix and false positive.
+ */
+export const isDismissed = (status: TriageStatus): boolean => status === 'wont-fix' || status === 'false-positive';
+
+/**
+ * Leaves dismissed findings out of a scan, e.g. before showing or exporting it. Files left without findings are dropped.
+ * @param job The scan.
+ * @param records The triage records of the scan's repository, by id.
+ * @returns The scan without dismissed findings, and how many were left out.
+ */
+export const hideDismissedFindings = (job: ScanJob, records: Map<string, TriageRecord>): { job: ScanJob; dismissed: number } => {
+  const repoKey = getScanRepoKey(job);
+  let dismissed = 0;
+  const reviews = job.reviews.flatMap(review => {
+    const findings = review.findings.filter(finding => {
+      const record = finding.fingerprint ? records.get(getTriageId(repoKey, review.path, finding)) : undefined;
+      return !(record && isDismissed(record.status));
+    });
+    dismissed += review.findings.length - findings.length;
+    if (findings.length === review.findings.length) return [review];
+    if (findings.length === 0) return [];
+    // Render the feedback again, so exports do not list the dismissed findings either.
+    const rawFeedback = findingsToMarkdown({ summary: review.summary, findings }, getLanguageForFile(review.path) || undefined);
+    return [{ ...review, findings, rawFeedback, htmlFeedback: marked.parse(rawFeedback, { async: false }) as string }];
+  });
+  return { job: dismissed ? { ...job, reviews } : job, dismissed };
+};
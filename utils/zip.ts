@@ -0,0 +1,94 @@
+// A minimal reader for .zip archives, built on the browser's DecompressionStream so no library is needed.
+// Supports stored and deflated entries; ZIP64 and encrypted archives are rejected with a clear error.
+
+export interface ZipEntry {
+  // The entry's path inside the archive, using `/` as the separator.
+  path: string;
+  // Uncompressed size in bytes.
+  size: number;
+  read: () => Promise<Uint8Array>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+/**
+ * Inflates raw deflate data.
+ * @param data The compressed bytes.
+ * @returns The decompressed bytes.
+ */
+const inflateRaw = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * Finds the end-of-central-directory record, which sits before an optional comment at the end of the archive.
+ * @param view The archive.
+ * @returns The offset of the record.
+ */
+const findEndOfCentralDirectory = (view: DataView): number => {
+  const minimumOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+  for (let offset = view.byteLength - 22; offset >= minimumOffset; offset--) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+  }
+  throw new Error("This file is not a valid .zip archive.");
+};
+
+/**
+ * Lists the files in a .zip archive. Contents are only decompressed when an entry is read.
+ * @param data The archive bytes.
+ * @returns The file entries (directories are left out).
+ */
+export const readZipEntries = (data: ArrayBuffer): ZipEntry[] => {
+  const view = new DataView(data);
+  const bytes = new Uint8Array(data);
+  const decoder = new TextDecoder('utf-8');
+
+  const end = findEndOfCentralDirectory(view);
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (entryCount === 0xffff || offset === 0xffffffff) {
+    throw new Error("ZIP64 archives are not supported. Please use a smaller archive.");
+  }
+
+  const entries: ZipEntry[] = [];
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("The .zip archive is corrupt.");
+    }
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeaderOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength)).replace(/\\/g, '/');
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) continue;
+
+    const read = async (): Promise<Uint8Array> => {
+      if (flags & 1) {
+        throw new Error("Encrypted files in .zip archives are not supported.");
+      }
+      if (view.getUint32(localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+        throw new Error("The .zip archive is corrupt.");
+      }
+      // The local header has its own name and extra field lengths, which may differ from the central directory's.
+      const dataStart = localHeaderOffset + 30 + view.getUint16(localHeaderOffset + 26, true) + view.getUint16(localHeaderOffset + 28, true);
+      const compressed = bytes.subarray(dataStart, dataStart + compressedSize);
+      if (method === METHOD_STORED) return compressed;
+      if (method === METHOD_DEFLATED) return inflateRaw(compressed);
+      throw new Error(`Unsupported compression method ${method} in the .zip archive.`);
+    };
+    entries.push({ path, size, read });
+  }
+  return entries;
+};
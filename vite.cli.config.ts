@@ -0,0 +1,16 @@
+import { defineConfig } from 'vite';
+
+// Builds the command-line interface into a single Node script. Dependencies stay external and load from node_modules.
+export default defineConfig({
+  build: {
+    ssr: 'cli/index.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    rollupOptions: {
+      output: {
+        entryFileNames: 'gemini-review.js',
+        banner: '#!/usr/bin/env node',
+      },
+    },
+  },
+});